@@ -0,0 +1,170 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { DEFAULT_CAPITAL, DEFAULT_PROFILES, DEFAULT_RULES, TIERS, initialHistory, ledgerAnalytics } from "../../engine";
+import type { CapitalState, LedgerEntry, ProfilesState, RulesHistory, Verdict } from "../../engine";
+import { BarList, LineChart, StackedBars } from "../../components/Charts";
+import { openStorage } from "../../storage";
+
+const VERDICT_COLOR: Record<Verdict, string> = { ALLOW: "#3c9d5d", WARN: "#d9a400", HARD_WARN: "#e06c00", RED_ALERT: "#c62828" };
+const RANGES = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 0, label: "All" }
+];
+
+/** ---------- Analytics: history of the active profile's ledger ---------- */
+export default function AnalyticsPage() {
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [rulesHistory, setRulesHistory] = useState<RulesHistory>(() => initialHistory(DEFAULT_RULES));
+  const [capital, setCapital] = useState<CapitalState>(DEFAULT_CAPITAL);
+  const [profiles, setProfiles] = useState<ProfilesState>(DEFAULT_PROFILES);
+  const [range, setRange] = useState(90);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    openStorage()
+      .then(async (b) => {
+        const state = await b.loadProfiles();
+        const s = b.profile(state.active);
+        const [l, rh, cap] = await Promise.all([s.loadLedger(), s.loadRulesHistory(), s.loadCapital()]);
+        setProfiles(state);
+        setLedger(l);
+        setRulesHistory(rh);
+        setCapital(cap);
+      })
+      .catch((err) => setStorageError((err as Error).message));
+  }, []);
+
+  const a = useMemo(() => ledgerAnalytics(ledger, rulesHistory, capital), [ledger, rulesHistory, capital]);
+  // The range trims the time series only; totals cover the whole ledger
+  const daily = range ? a.daily.slice(-range) : a.daily;
+  const weeks = range ? Math.ceil(range / 7) : a.weekly.length;
+  const weekly = a.weekly.slice(-weeks);
+  const verdicts = a.verdicts.slice(-weeks);
+  const profileName = profiles.profiles.find((p) => p.id === profiles.active)?.name ?? profiles.active;
+
+  return (
+    <div style={{ padding: 24, maxWidth: 1100, margin: "0 auto", fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, Arial" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: 16, flexWrap: "wrap" }}>
+        <div>
+          <h1 style={{ margin: 0 }}>RISK-REDUX analytics</h1>
+          <div style={{ marginTop: 8, color: "#555" }}>
+            Profile {profileName} • {a.bets} entries • <a href="/">back to the terminal</a>
+          </div>
+        </div>
+        <label style={{ fontSize: 12, color: "#555" }}>
+          Range
+          <select value={range} onChange={(e) => setRange(Number(e.target.value))} style={{ display: "block", padding: 8, marginTop: 6 }}>
+            {RANGES.map((r) => <option key={r.days} value={r.days}>{r.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {storageError && (
+        <div style={{ marginTop: 16, padding: 12, borderRadius: 10, border: "1px solid #f3c0c0", background: "#fff5f5", color: "#8a1f1f" }}>
+          Storage unavailable — nothing to chart. {storageError}
+        </div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: 10, marginTop: 16 }}>
+        <Metric label="Entries" value={String(a.bets)} />
+        <Metric label="Overrides" value={String(a.overrides)} />
+        <Metric label="Override rate" value={pct(a.override_rate)} />
+        <Metric label="Days over the daily cap" value={String(a.daily.filter((d) => d.staked > d.cap).length)} />
+      </div>
+
+      {a.bets === 0 ? (
+        <div style={{ marginTop: 16, color: "#555" }}>No ledger entries yet.</div>
+      ) : (
+        <div style={{ display: "grid", gap: 14, marginTop: 14 }}>
+          <Section title="Daily staked vs daily cap">
+            <LineChart
+              labels={daily.map((d) => day(d.start))}
+              series={[
+                { label: "staked", color: "#4a6fa5", values: daily.map((d) => d.staked) },
+                { label: "cap", color: "#c62828", values: daily.map((d) => d.cap), dashed: true }
+              ]}
+            />
+          </Section>
+
+          <Section title="Weekly staked vs weekly cap">
+            <LineChart
+              labels={weekly.map((w) => day(w.start))}
+              series={[
+                { label: "staked", color: "#4a6fa5", values: weekly.map((w) => w.staked) },
+                { label: "cap", color: "#c62828", values: weekly.map((w) => w.cap), dashed: true }
+              ]}
+            />
+          </Section>
+
+          <Section title="Verdict mix per week">
+            <StackedBars
+              labels={verdicts.map((v) => day(v.start))}
+              parts={TIERS.map((t) => ({ label: t, color: VERDICT_COLOR[t], values: verdicts.map((v) => v.counts[t]) }))}
+            />
+          </Section>
+
+          <Section title="Override rate per week (%)">
+            <LineChart
+              labels={verdicts.map((v) => day(v.start))}
+              series={[{ label: "override rate %", color: "#e06c00", values: verdicts.map((v) => v.override_rate * 100) }]}
+            />
+          </Section>
+
+          <Section title="Most frequent reason codes">
+            {a.reasons.length === 0 ? (
+              <div style={{ color: "#555" }}>No rule has fired yet.</div>
+            ) : (
+              <BarList items={a.reasons.slice(0, 10).map((r) => ({ label: r.code, value: r.count }))} color="#e06c00" />
+            )}
+          </Section>
+
+          <Section title="Concentration by group1_id (share of all stake)">
+            <BarList items={a.group1.map((g) => ({ label: g.id || "(none)", value: g.staked, note: `${g.staked.toFixed(2)} • ${pct(g.share)}` }))} />
+          </Section>
+
+          <Section title="Concentration by group2_id (share of all stake)">
+            <BarList items={a.group2.map((g) => ({ label: g.id || "(none)", value: g.staked, note: `${g.staked.toFixed(2)} • ${pct(g.share)}` }))} />
+          </Section>
+
+          <Section title="Time of day (commits per hour, overrides on top)">
+            <StackedBars
+              labels={a.hours.map((h) => `${String(h.hour).padStart(2, "0")}:00`)}
+              parts={[
+                { label: "within rules", color: "#3c9d5d", values: a.hours.map((h) => h.bets - h.overrides) },
+                { label: "overrides", color: "#c62828", values: a.hours.map((h) => h.overrides) }
+              ]}
+            />
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>{title}</div>
+      {children}
+    </div>
+  );
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ border: "1px solid #eee", borderRadius: 10, padding: 10 }}>
+      <div style={{ fontSize: 12, color: "#555" }}>{label}</div>
+      <div style={{ fontWeight: 900 }}>{value}</div>
+    </div>
+  );
+}
+
+function pct(x: number): string {
+  return `${Math.round(x * 100)}%`;
+}
+
+function day(ts: number): string {
+  return new Date(ts).toLocaleDateString();
+}
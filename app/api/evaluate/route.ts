@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { analyzeBehavior, applyUmbrellaCap, effectiveVersion, evaluate_v1, loosenedFields, positionExposures, rulesIssues, umbrellaAt, weeklyStaked, windowsAt } from "../../../engine";
+import type { BehavioralState, ProposedBet, UserRules } from "../../../engine";
+import { readKey, readProfiles } from "../../../server/db";
+import { errorResponse, profileParam, readBody } from "../../../server/http";
+import { listLedger } from "../../../server/ledgerStore";
+
+type EvaluateRequest = { bankroll: number; rules?: UserRules; bet: ProposedBet; beh?: BehavioralState };
+
+export async function POST(req: Request) {
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  const body = await readBody<EvaluateRequest>(req, "EvaluateRequest");
+  if (body instanceof NextResponse) return body;
+
+  // The profile's rules in force; request rules may only tighten them (loosening waits out the delay)
+  const { bankroll, bet } = body;
+  const inForce = effectiveVersion(readKey("rules_history", profile), Date.now()).rules;
+  const rules: UserRules = { ...inForce, ...body.rules };
+  const issues = [
+    ...rulesIssues(rules),
+    ...loosenedFields(inForce, rules).map((k) => ({ path: `rules.${k}`, message: "is looser than the rules in force; file the change through PUT /api/store/rules" }))
+  ];
+  if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+
+  const ledger = listLedger(profile);
+  const exposures = positionExposures(ledger, bet, rules, Date.now(), readKey("capital", profile));
+  // A debug override never lifts the stored cooldown
+  const derived = analyzeBehavior(ledger, rules, bet, Date.now(), readKey("cooldown", profile)).state;
+  const beh = { ...(body.beh ?? derived), cooldown_active: derived.cooldown_active };
+
+  // Umbrella cap spans every profile's ledger
+  const { profiles, umbrella_weekly_cap } = umbrellaAt(readProfiles(), Date.now());
+  const weekStart = windowsAt(rules, Date.now()).week_start;
+  const others = profiles.filter((p) => p.id !== profile).reduce((sum, p) => sum + weeklyStaked(listLedger(p.id), weekStart), 0);
+  const decision = applyUmbrellaCap(evaluate_v1(bankroll, rules, bet, exposures, beh), bet.stake, exposures.weekly_staked + others, umbrella_weekly_cap);
+
+  return NextResponse.json({ ...decision, exposures });
+}
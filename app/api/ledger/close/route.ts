@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { closePart, openStake } from "../../../../engine";
+import { errorResponse, profileParam, readBody } from "../../../../server/http";
+import { listLedger, realizeLedger } from "../../../../server/ledgerStore";
+
+type CloseRequest = { id: string; stake: number; amount: number };
+
+export async function POST(req: Request) {
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  const body = await readBody<CloseRequest>(req, "CloseRequest");
+  if (body instanceof NextResponse) return body;
+
+  const current = listLedger(profile).find((e) => e.id === body.id);
+  if (!current) return errorResponse("NOT_FOUND", [{ path: "id", message: `no ledger entry ${body.id}` }], 404);
+  const open = openStake(current);
+  if (!(body.stake > 0 && body.stake <= open)) {
+    return errorResponse("VALIDATION_FAILED", [{ path: "stake", message: `must be above 0 and at most the open stake ${open}` }]);
+  }
+
+  const entry = realizeLedger(body.id, (e, now) => closePart(e, body.stake, body.amount, now), profile);
+  return NextResponse.json(entry);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { cooldownOnCommit, effectiveVersion, overrideIssues } from "../../../engine";
+import type { LedgerEntry } from "../../../engine";
+import { readKey, writeKey } from "../../../server/db";
+import { errorResponse, profileParam, readBody } from "../../../server/http";
+import { appendLedger, listLedger } from "../../../server/ledgerStore";
+
+// Reads the live store; never prerender.
+export const dynamic = "force-dynamic";
+
+// Nothing a commit says about when it happened or what it realized is taken from the client
+type LedgerCommit = Omit<LedgerEntry, "id" | "ts" | "closes" | "settlement">;
+
+export function GET(req: Request) {
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  return NextResponse.json({ entries: listLedger(profile) });
+}
+
+export async function POST(req: Request) {
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  const body = await readBody<LedgerCommit>(req, "LedgerCommit");
+  if (body instanceof NextResponse) return body;
+
+  const issues = overrideIssues(body.verdict, body.override);
+  if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+
+  // Same cooldown state machine as the page: no commits while active, RED_ALERT starts one
+  const now = Date.now();
+  const rules = effectiveVersion(readKey("rules_history", profile), now).rules;
+  const stored = readKey("cooldown", profile);
+  const cooldown = cooldownOnCommit(stored, rules, body.verdict, now);
+  if (cooldown.state !== stored) writeKey("cooldown", cooldown.state, profile);
+  if (cooldown.blocked) {
+    return errorResponse("COOLDOWN_ACTIVE", [{ path: "", message: `cooldown active until ${new Date(cooldown.state.until).toISOString()}` }], 409);
+  }
+
+  const entry = appendLedger({
+    ...body,
+    id: crypto.randomUUID(),
+    ts: now,
+    group1_id: body.group1_id.trim(),
+    group2_id: body.group2_id.trim()
+  }, profile);
+  return NextResponse.json(entry, { status: 201 });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { settle } from "../../../../engine";
+import type { Outcome } from "../../../../engine";
+import { errorResponse, profileParam, readBody } from "../../../../server/http";
+import { listLedger, realizeLedger } from "../../../../server/ledgerStore";
+
+type SettleRequest = { id: string; outcome: Outcome; amount?: number };
+
+export async function POST(req: Request) {
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  const body = await readBody<SettleRequest>(req, "SettleRequest");
+  if (body instanceof NextResponse) return body;
+
+  if (body.outcome === "cashed_out" && body.amount === undefined) {
+    return errorResponse("VALIDATION_FAILED", [{ path: "amount", message: "is required for cashed_out" }]);
+  }
+
+  const current = listLedger(profile).find((e) => e.id === body.id);
+  if (!current) return errorResponse("NOT_FOUND", [{ path: "id", message: `no ledger entry ${body.id}` }], 404);
+  if (current.settlement) return errorResponse("VALIDATION_FAILED", [{ path: "id", message: "is already settled" }]);
+
+  const entry = realizeLedger(body.id, (e, now) => settle(e, body.outcome, now, body.amount), profile);
+  return NextResponse.json(entry);
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { effectiveVersion, profilesIssues, proposeUmbrellaCap, umbrellaAt } from "../../../engine";
+import type { ProfilesState } from "../../../engine";
+import { readKey, readProfiles, writeProfiles } from "../../../server/db";
+import { errorResponse, readBody } from "../../../server/http";
+
+// Reads the live store; never prerender.
+export const dynamic = "force-dynamic";
+
+export function GET() {
+  return NextResponse.json(umbrellaAt(readProfiles(), Date.now()));
+}
+
+/**
+ * Replace the profile list; profiles left out are deleted with their data. The umbrella cap
+ * asked for (the pending one if given) is filed against the stored one: loosening it waits out
+ * the active profile's loosening_delay_hours.
+ */
+export async function PUT(req: Request) {
+  const body = await readBody<ProfilesState>(req, "ProfilesState");
+  if (body instanceof NextResponse) return body;
+
+  const issues = profilesIssues(body);
+  if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+
+  const now = Date.now();
+  const stored = readProfiles();
+  const delay = effectiveVersion(readKey("rules_history", body.active), now).rules.loosening_delay_hours;
+  const umbrella = proposeUmbrellaCap(stored, body.umbrella_pending?.cap ?? body.umbrella_weekly_cap, now, delay);
+  const { umbrella_pending: _asked, ...rest } = body;
+  writeProfiles({ ...rest, umbrella_weekly_cap: umbrella.umbrella_weekly_cap, ...(umbrella.umbrella_pending ? { umbrella_pending: umbrella.umbrella_pending } : {}) });
+  return NextResponse.json(umbrellaAt(readProfiles(), now));
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import {
+  DEFAULT_RULES,
+  applyLedgerPatch,
+  auditTransitionIssues,
+  capitalTransitionIssues,
+  carryDropped,
+  cooldownTransitionIssues,
+  effectiveVersion,
+  historyTransitionIssues,
+  ledgerTransitionIssues,
+  proposeRules,
+  rulesIssues
+} from "../../../../engine";
+import type { CapitalState, CooldownState, LedgerAudit, LedgerEntry, LedgerPatch, RulesHistory, UserRules } from "../../../../engine";
+import { readKey, writeKey } from "../../../../server/db";
+import { errorResponse, profileParam, readBody } from "../../../../server/http";
+import { STORE_KEYS } from "../../../../storage/types";
+import type { StoreKey, StoredState } from "../../../../storage/types";
+
+// Reads the live store; never prerender.
+export const dynamic = "force-dynamic";
+
+const SCHEMA_FOR: Record<StoreKey, string> = {
+  ledger: "Ledger",
+  rules: "UserRules",
+  rules_history: "RulesHistory",
+  cooldown: "CooldownState",
+  capital: "CapitalState",
+  audit: "LedgerAudit"
+};
+
+type Params = { params: { key: string } };
+
+function storeKey(key: string): StoreKey | NextResponse {
+  if ((STORE_KEYS as string[]).includes(key)) return key as StoreKey;
+  return errorResponse("NOT_FOUND", [{ path: "key", message: `must be one of ${STORE_KEYS.join(", ")}` }], 404);
+}
+
+// `rules` is a view over the history: the snapshot in force now
+function readValue(key: StoreKey, profile: string) {
+  return key === "rules" ? effectiveVersion(readKey("rules_history", profile), Date.now()).rules : readKey(key, profile);
+}
+
+export function GET(req: Request, { params }: Params) {
+  const key = storeKey(params.key);
+  if (key instanceof NextResponse) return key;
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+  return NextResponse.json(readValue(key, profile));
+}
+
+/**
+ * Changes to stored entries must already be on the audit trail (save the audit first). Realized
+ * entries archived away carry their P&L into the stored capital, as of the archive's stamp.
+ */
+function writeLedger(next: LedgerEntry[], profile: string): NextResponse | undefined {
+  const prev = readKey("ledger", profile);
+  const audit = readKey("audit", profile);
+  const issues = ledgerTransitionIssues(prev, next, audit);
+  if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+  writeKey("ledger", next, profile);
+
+  const kept = new Set(next.map((e) => e.id));
+  const dropped = prev.filter((e) => !kept.has(e.id));
+  const archive = [...audit.archives].reverse().find((a) => a.entries.some((x) => dropped.some((e) => e.id === x.id)));
+  if (!archive) return;
+  const capital = readKey("capital", profile);
+  const carried = carryDropped(prev, dropped, capital, archive.at);
+  if (carried !== capital) writeKey("capital", carried, profile);
+}
+
+/**
+ * Replace the value stored under `key` for the `?profile=` profile. Rules never
+ * bypass the history: PUT rules files a change (loosening waits out the delay) and
+ * PUT rules_history must only append to what is stored; so must PUT audit. PUT ledger
+ * may only correct or remove entries the audit trail records, PUT cooldown can't
+ * shorten or de-escalate an active cooldown or drop recorded attempts, and PUT capital
+ * can't change what is carried nor, once locked, the starting capital.
+ */
+export async function PUT(req: Request, { params }: Params) {
+  const key = storeKey(params.key);
+  if (key instanceof NextResponse) return key;
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+
+  const body = await readBody<StoredState[StoreKey]>(req, SCHEMA_FOR[key]);
+  if (body instanceof NextResponse) return body;
+
+  const now = Date.now();
+  if (key === "rules") {
+    const draft: UserRules = { ...DEFAULT_RULES, ...(body as UserRules) };
+    const issues = rulesIssues(draft);
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+    writeKey("rules_history", proposeRules(readKey("rules_history", profile), draft, now), profile);
+  } else if (key === "rules_history") {
+    const prev = readKey("rules_history", profile);
+    const next = body as RulesHistory;
+    const issues = [
+      ...historyTransitionIssues(prev, next, now),
+      ...next.versions.slice(prev.versions.length).flatMap((v, j) =>
+        rulesIssues({ ...DEFAULT_RULES, ...v.rules }).map((x) => ({ ...x, path: `versions[${prev.versions.length + j}].rules.${x.path}` }))
+      )
+    ];
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+    writeKey("rules_history", next, profile);
+  } else if (key === "audit") {
+    const issues = auditTransitionIssues(readKey("audit", profile), body as LedgerAudit);
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+    writeKey("audit", body as LedgerAudit, profile);
+  } else if (key === "ledger") {
+    const refused = writeLedger(body as LedgerEntry[], profile);
+    if (refused) return refused;
+  } else if (key === "capital") {
+    const issues = capitalTransitionIssues(readKey("capital", profile), body as CapitalState, readKey("ledger", profile));
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+    writeKey("capital", body as CapitalState, profile);
+  } else if (key === "cooldown") {
+    const issues = cooldownTransitionIssues(readKey("cooldown", profile), body as CooldownState, now);
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+    writeKey("cooldown", body as CooldownState, profile);
+  } else {
+    writeKey<StoreKey>(key, body, profile);
+  }
+  return NextResponse.json(readValue(key, profile));
+}
+
+/** Incremental ledger save: only the entries written or removed since the last one. */
+export async function PATCH(req: Request, { params }: Params) {
+  const key = storeKey(params.key);
+  if (key instanceof NextResponse) return key;
+  if (key !== "ledger") return errorResponse("NOT_FOUND", [{ path: "key", message: "only the ledger takes incremental saves" }], 404);
+  const profile = profileParam(req);
+  if (profile instanceof NextResponse) return profile;
+
+  const body = await readBody<LedgerPatch>(req, "LedgerPatch");
+  if (body instanceof NextResponse) return body;
+  const next = applyLedgerPatch(readKey("ledger", profile), body);
+  return writeLedger(next, profile) ?? NextResponse.json({ count: next.length });
+}
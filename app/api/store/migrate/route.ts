@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_RULES, validate } from "../../../../engine";
+import { migrate } from "../../../../server/db";
+import { errorResponse, readBody } from "../../../../server/http";
+
+type StoreMigration = Parameters<typeof migrate>[0];
+
+export async function POST(req: Request) {
+  const body = await readBody<StoreMigration>(req, "StoreMigration");
+  if (body instanceof NextResponse) return body;
+
+  // Stored rules predate newer fields, so check them with defaults filled in
+  if (body.rules) {
+    const issues = validate("UserRules", { ...DEFAULT_RULES, ...body.rules });
+    if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues.map((x) => ({ ...x, path: x.path ? `rules.${x.path}` : "rules" })));
+  }
+
+  return NextResponse.json(migrate(body));
+}
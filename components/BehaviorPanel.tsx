@@ -0,0 +1,51 @@
+import React from "react";
+import type { BehaviorAnalysis, BehavioralState } from "../engine";
+import { Metric, RuleRow, Toggle } from "./controls";
+
+/**
+ * Behavior flags derived from the ledger. The manual inputs only exist as a
+ * debug override: while `override` is null the engine sees the derived state.
+ * cooldown_active is never overridable.
+ */
+export function BehaviorPanel({
+  analysis,
+  override,
+  onOverride
+}: {
+  analysis: BehaviorAnalysis;
+  override: BehavioralState | null;
+  onOverride: (next: BehavioralState | null) => void;
+}) {
+  const d = analysis.state;
+  const set = (patch: Partial<BehavioralState>) => onOverride({ ...(override ?? d), ...patch });
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div className="miniGrid">
+        <Metric label="stake_velocity_spike" value={String(d.stake_velocity_spike)} />
+        <Metric label="trailing_median_stake" value={analysis.stake_median.toFixed(2)} />
+        <Metric label="frequency_spike" value={String(d.frequency_spike)} />
+        <Metric label="bets_1h / baseline_per_h" value={`${analysis.recent_bets_1h} / ${analysis.baseline_per_hour.toFixed(2)}`} />
+        <Metric label="consecutive_overrides" value={String(d.consecutive_overrides)} />
+        <Metric label="cooldown_violations" value={String(d.cooldown_violations)} />
+        <Metric label="cooldown_active" value={String(d.cooldown_active)} />
+        <Metric label="loss_chasing / last_loss_stake" value={`${d.loss_chasing} / ${analysis.last_loss_stake.toFixed(2)}`} />
+        <Metric label="revenge_betting" value={String(d.revenge_betting)} />
+        <Metric label="loss_streak" value={String(d.loss_streak)} />
+      </div>
+
+      <Toggle label="debug override (manual behavior inputs)" checked={override !== null} onChange={(on) => onOverride(on ? { ...d } : null)} />
+      {override && (
+        <>
+          <Toggle label="stake_velocity_spike" checked={override.stake_velocity_spike} onChange={(v) => set({ stake_velocity_spike: v })} />
+          <Toggle label="frequency_spike" checked={override.frequency_spike} onChange={(v) => set({ frequency_spike: v })} />
+          <RuleRow label="consecutive_overrides" value={override.consecutive_overrides} onChange={(v) => set({ consecutive_overrides: v })} />
+          <RuleRow label="cooldown_violations" value={override.cooldown_violations} onChange={(v) => set({ cooldown_violations: v })} />
+          <Toggle label="loss_chasing" checked={!!override.loss_chasing} onChange={(v) => set({ loss_chasing: v })} />
+          <Toggle label="revenge_betting" checked={!!override.revenge_betting} onChange={(v) => set({ revenge_betting: v })} />
+          <RuleRow label="loss_streak" value={override.loss_streak ?? 0} onChange={(v) => set({ loss_streak: v })} />
+        </>
+      )}
+    </div>
+  );
+}
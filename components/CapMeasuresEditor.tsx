@@ -0,0 +1,34 @@
+import React from "react";
+import { allDimensions, capMeasure } from "../engine";
+import type { ExposureMeasure, UserRules } from "../engine";
+import { SelectRow } from "./controls";
+
+const MEASURE_OPTIONS: readonly { value: ExposureMeasure; label: string }[] = [
+  { value: "staked", label: "staked (every stake in the window)" },
+  { value: "open", label: "open (stake still at risk)" }
+];
+
+type Measured = Pick<UserRules, "group1_pct" | "group2_pct" | "dimensions" | "cap_measures">;
+
+/** Per cap: cumulative stake (volume) or open exposure (positions that close free capital). */
+export function CapMeasuresEditor({ rules, onChange }: { rules: Measured; onChange: (cap_measures: UserRules["cap_measures"]) => void }) {
+  const caps = [
+    { key: "daily", label: "Daily cap" },
+    { key: "weekly", label: "Weekly cap" },
+    ...allDimensions(rules).map((d) => ({ key: d.key, label: `${d.label} concentration` }))
+  ];
+
+  function set(key: string, m: ExposureMeasure) {
+    const { [key]: _, ...rest } = rules.cap_measures ?? {};
+    onChange(m === "staked" ? rest : { ...rest, [key]: m });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <label className="label">Exposure measure per cap</label>
+      {caps.map((c) => (
+        <SelectRow key={c.key} label={c.label} value={capMeasure(rules, c.key)} options={MEASURE_OPTIONS} onChange={(m) => set(c.key, m)} />
+      ))}
+    </div>
+  );
+}
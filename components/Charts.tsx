@@ -0,0 +1,115 @@
+import React from "react";
+
+/** ---------- Minimal SVG charts (no dependencies, render offline) ---------- */
+const W = 640;
+const PAD = { l: 44, r: 8, t: 8, b: 20 };
+const AXIS = { fontSize: 10, fill: "#777", fontFamily: "ui-monospace, monospace" };
+
+export type Series = { label: string; color: string; values: number[]; dashed?: boolean };
+
+function niceMax(values: number[]): number {
+  const max = Math.max(0, ...values);
+  if (max === 0) return 1;
+  const step = 10 ** Math.floor(Math.log10(max));
+  return Math.ceil(max / step) * step;
+}
+
+function Legend({ items }: { items: { label: string; color: string }[] }) {
+  return (
+    <div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 12, color: "#555" }}>
+      {items.map((i) => (
+        <span key={i.label} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          <span style={{ width: 10, height: 10, background: i.color, display: "inline-block", borderRadius: 2 }} />
+          {i.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** Lines over a shared x axis; `labels` name the points (first and last are printed). */
+export function LineChart({ series, labels, height = 180 }: { series: Series[]; labels: string[]; height?: number }) {
+  const n = labels.length;
+  const max = niceMax(series.flatMap((s) => s.values));
+  const x = (i: number) => PAD.l + (n > 1 ? (i / (n - 1)) * (W - PAD.l - PAD.r) : 0);
+  const y = (v: number) => PAD.t + (1 - v / max) * (height - PAD.t - PAD.b);
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${height}`} width="100%" role="img">
+        <line x1={PAD.l} y1={y(0)} x2={W - PAD.r} y2={y(0)} stroke="#ddd" />
+        <text x={PAD.l - 4} y={y(max) + 8} textAnchor="end" {...AXIS}>{max.toFixed(0)}</text>
+        <text x={PAD.l - 4} y={y(0)} textAnchor="end" {...AXIS}>0</text>
+        {n > 0 && <text x={x(0)} y={height - 4} {...AXIS}>{labels[0]}</text>}
+        {n > 1 && <text x={x(n - 1)} y={height - 4} textAnchor="end" {...AXIS}>{labels[n - 1]}</text>}
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={1.5}
+            strokeDasharray={s.dashed ? "4 3" : undefined}
+            points={s.values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ")}
+          />
+        ))}
+      </svg>
+      <Legend items={series} />
+    </div>
+  );
+}
+
+/** One stacked column per label. */
+export function StackedBars({
+  labels,
+  parts,
+  height = 160
+}: {
+  labels: string[];
+  parts: { label: string; color: string; values: number[] }[];
+  height?: number;
+}) {
+  const totals = labels.map((_, i) => parts.reduce((a, p) => a + p.values[i], 0));
+  const max = niceMax(totals);
+  const slot = (W - PAD.l - PAD.r) / Math.max(1, labels.length);
+  const h = (v: number) => (v / max) * (height - PAD.t - PAD.b);
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${height}`} width="100%" role="img">
+        <text x={PAD.l - 4} y={PAD.t + 8} textAnchor="end" {...AXIS}>{max.toFixed(0)}</text>
+        <text x={PAD.l - 4} y={height - PAD.b} textAnchor="end" {...AXIS}>0</text>
+        {labels.map((label, i) => {
+          let top = height - PAD.b;
+          return (
+            <g key={label}>
+              <title>{`${label}: ${parts.map((p) => `${p.label} ${p.values[i]}`).join(", ")}`}</title>
+              {parts.map((p) => {
+                top -= h(p.values[i]);
+                return <rect key={p.label} x={PAD.l + i * slot + 1} y={top} width={Math.max(1, slot - 2)} height={h(p.values[i])} fill={p.color} />;
+              })}
+            </g>
+          );
+        })}
+        {labels.length > 0 && <text x={PAD.l} y={height - 4} {...AXIS}>{labels[0]}</text>}
+        {labels.length > 1 && <text x={W - PAD.r} y={height - 4} textAnchor="end" {...AXIS}>{labels[labels.length - 1]}</text>}
+      </svg>
+      <Legend items={parts} />
+    </div>
+  );
+}
+
+/** Horizontal bars, largest value spanning the width. */
+export function BarList({ items, color = "#4a6fa5" }: { items: { label: string; value: number; note?: string }[]; color?: string }) {
+  const max = Math.max(0, ...items.map((i) => i.value)) || 1;
+  const row = 18;
+  const labelW = 220;
+  return (
+    <svg viewBox={`0 0 ${W} ${Math.max(row, items.length * row)}`} width="100%" role="img">
+      {items.map((item, i) => (
+        <g key={item.label} transform={`translate(0 ${i * row})`}>
+          <text x={labelW - 6} y={row - 5} textAnchor="end" {...AXIS}>{item.label}</text>
+          <rect x={labelW} y={3} height={row - 6} width={((W - labelW - 90) * item.value) / max} fill={color} />
+          <text x={labelW + ((W - labelW - 90) * item.value) / max + 4} y={row - 5} {...AXIS}>{item.note ?? String(item.value)}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from "react";
+import { cooldownRemainingMs } from "../engine";
+import type { CooldownState } from "../engine";
+
+function clock(ms: number): string {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+/** Live countdown for an active cooldown. Deliberately has no way to clear it. */
+export function CooldownBanner({ state }: { state: CooldownState }) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = cooldownRemainingMs(state, now);
+
+  useEffect(() => {
+    if (state.until <= Date.now()) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [state.until]);
+
+  if (remaining <= 0) return null;
+
+  return (
+    <div className="badge badgeRED flashRed" style={{ borderRadius: 12, width: "100%", justifyContent: "space-between" }}>
+      <span><span className="dot" style={{ display: "inline-block", marginRight: 8 }} />COOLDOWN ACTIVE</span>
+      <span>
+        {clock(remaining)} • trigger #{state.trigger_count} • attempts {state.violations.filter((t) => t >= state.started_at).length}
+      </span>
+    </div>
+  );
+}
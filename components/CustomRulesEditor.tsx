@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from "react";
+import { parseCustomRules } from "../engine";
+import type { CustomRule, UserRules } from "../engine";
+
+const EXAMPLE: CustomRule[] = [
+  {
+    code: "LONGSHOTS_PER_WEEK",
+    severity: "violation",
+    when: [{ field: "odds", op: ">", value: 200 }],
+    measure: { agg: "count", window: "week", where: [{ field: "odds", op: ">", value: 200 }] },
+    threshold: 3,
+    description: "No more than 3 bets above +200 per week"
+  },
+  {
+    code: "CHASING_GROUP2_LOSS",
+    severity: "gate",
+    measure: { agg: "count", window: "day", where: [{ field: "outcome", op: "==", value: "lost" }], match: ["group2_id"] },
+    threshold: 0,
+    description: "No bets on a group2 after a loss on it today"
+  }
+];
+
+const pretty = (rules: CustomRule[]) => (rules.length === 0 ? "" : JSON.stringify(rules, null, 2));
+
+/** JSON editor for custom rules; only text that parses and validates reaches the draft. */
+export function CustomRulesEditor({
+  rules,
+  onChange
+}: {
+  rules: Pick<UserRules, "dimensions" | "custom_rules">;
+  onChange: (custom_rules: CustomRule[]) => void;
+}) {
+  const [text, setText] = useState(() => pretty(rules.custom_rules));
+  const parsed = parseCustomRules(text, rules);
+
+  // Follow outside changes (discard, import, profile switch) that didn't come from this text
+  useEffect(() => {
+    if (JSON.stringify(parsed.rules) !== JSON.stringify(rules.custom_rules)) setText(pretty(rules.custom_rules));
+  }, [rules.custom_rules]);
+
+  function edit(next: string) {
+    setText(next);
+    const result = parseCustomRules(next, rules);
+    if (result.rules) onChange(result.rules);
+  }
+
+  return (
+    <div>
+      <label className="label">Custom rules (JSON array)</label>
+      <textarea
+        className="input"
+        rows={8}
+        spellCheck={false}
+        style={{ fontFamily: "var(--mono, monospace)", width: "100%" }}
+        placeholder="[]"
+        value={text}
+        onChange={(e) => edit(e.target.value)}
+      />
+      {parsed.issues.length > 0 ? (
+        <div className="note">
+          Not applied — the draft keeps the last valid rules.
+          {parsed.issues.map((x, i) => <div key={i}>{x.path || "rules"}: {x.message}</div>)}
+        </div>
+      ) : (
+        <div className="note">{rules.custom_rules.length} custom rule(s).</div>
+      )}
+      <details>
+        <summary className="note">Example</summary>
+        <button className="btn" style={{ marginTop: 6 }} onClick={() => edit(pretty(EXAMPLE))}>Use example</button>
+        <pre className="note" style={{ whiteSpace: "pre-wrap" }}>{pretty(EXAMPLE)}</pre>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import React from "react";
+import type { DecisionTrace, RuleCheck } from "../engine";
+
+export function formatMeasure(c: Pick<RuleCheck, "unit">, v: number | undefined): string {
+  if (v === undefined || !Number.isFinite(v)) return "—";
+  return c.unit === "count" ? String(v) : v.toFixed(2);
+}
+
+/** "Cap 60.00 (6%, override for TEAM-LAL)" */
+export function capSubtitle(c: RuleCheck): string {
+  const detail = [c.cap_pct !== undefined ? `${c.cap_pct}%` : "", c.note ?? ""].filter(Boolean).join(", ");
+  return `Cap ${formatMeasure(c, c.cap)}${detail ? ` (${detail})` : ""}`;
+}
+
+/** Windowed checks (current → projected) that read as progress against a cap. */
+export function isUsageCheck(c: RuleCheck): boolean {
+  return c.current !== undefined && c.cap !== undefined;
+}
+
+/** Every rule the engine checked, then the policy steps that set the verdict. */
+export function DecisionTracePanel({ trace }: { trace: DecisionTrace }) {
+  return (
+    <div style={{ fontFamily: "var(--mono, monospace)", fontSize: 12 }}>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ textAlign: "left" }}>
+            <th>rule</th><th>cap</th><th>projected</th><th>headroom</th><th>result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trace.checks.map((c, i) => (
+            <tr key={`${c.code}-${i}`} style={{ opacity: c.passed ? 0.6 : 1, fontWeight: c.passed ? 400 : 700 }}>
+              <td title={c.code}>{c.label}</td>
+              <td>{formatMeasure(c, c.cap)}</td>
+              <td>{formatMeasure(c, c.projected)}</td>
+              <td>{formatMeasure(c, c.headroom)}</td>
+              <td>{c.passed ? "pass" : c.contributes ? `fail (${c.contributes})` : "fail"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ marginTop: 10 }}>
+        set by: <strong>{trace.decided_by_label}</strong>
+      </div>
+      <ul style={{ marginTop: 6, paddingLeft: 18 }}>
+        <li>base tier: {trace.base}</li>
+        {trace.amplifications.map((s) => (
+          <li key={s.id} style={{ fontWeight: s.id === trace.decided_by ? 700 : 400 }}>
+            {s.label}: {s.from === s.to ? `${s.to} (no change)` : `${s.from} → ${s.to}`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
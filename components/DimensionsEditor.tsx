@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { DIMENSION_WINDOWS, DIMENSION_WINDOW_LABEL, allDimensions, dimensionIssues, dimensionKey } from "../engine";
+import type { CapOverride, DimensionWindow, GroupDimension, UserRules } from "../engine";
+
+type Grouping = Pick<UserRules, "group1_pct" | "group2_pct" | "dimensions" | "cap_overrides" | "cap_measures">;
+
+/** User-defined grouping dimensions and per-value cap overrides. */
+export function DimensionsEditor({ rules, onChange }: { rules: Grouping; onChange: (patch: Partial<Grouping>) => void }) {
+  const [name, setName] = useState("");
+  const issues = dimensionIssues(rules);
+  const dims = allDimensions(rules);
+
+  function updateDimension(i: number, patch: Partial<GroupDimension>) {
+    onChange({ dimensions: rules.dimensions.map((d, j) => (j === i ? { ...d, ...patch } : d)) });
+  }
+  function removeDimension(i: number) {
+    const key = rules.dimensions[i].key;
+    const { [key]: _, ...cap_measures } = rules.cap_measures ?? {};
+    onChange({
+      dimensions: rules.dimensions.filter((_, j) => j !== i),
+      cap_overrides: rules.cap_overrides.filter((o) => o.dimension !== key),
+      cap_measures
+    });
+  }
+  function addDimension() {
+    const dim: GroupDimension = { key: dimensionKey(name, rules), label: name.trim(), window: "rolling_7d", cap_pct: rules.group2_pct };
+    onChange({ dimensions: [...rules.dimensions, dim] });
+    setName("");
+  }
+  function updateOverride(i: number, patch: Partial<CapOverride>) {
+    onChange({ cap_overrides: rules.cap_overrides.map((o, j) => (j === i ? { ...o, ...patch } : o)) });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <label className="label">Extra grouping dimensions (cap % per value)</label>
+      {rules.dimensions.map((d, i) => (
+        <div key={d.key} style={{ display: "grid", gridTemplateColumns: "1fr auto 80px auto", gap: 6 }}>
+          <input className="input" value={d.label} onChange={(e) => updateDimension(i, { label: e.target.value })} />
+          <select className="input" value={d.window} onChange={(e) => updateDimension(i, { window: e.target.value as DimensionWindow })}>
+            {DIMENSION_WINDOWS.map((w) => <option key={w} value={w}>{DIMENSION_WINDOW_LABEL[w]}</option>)}
+          </select>
+          <input className="input" type="number" value={d.cap_pct} onChange={(e) => updateDimension(i, { cap_pct: Number(e.target.value) })} />
+          <button className="btn" onClick={() => removeDimension(i)}>Remove</button>
+        </div>
+      ))}
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 6 }}>
+        <input className="input" placeholder="League, sport, bookmaker…" value={name} onChange={(e) => setName(e.target.value)} />
+        <button className="btn" disabled={!name.trim()} onClick={addDimension}>Add dimension</button>
+      </div>
+
+      <label className="label">Per-value cap overrides (%)</label>
+      {rules.cap_overrides.map((o, i) => (
+        <div key={i} style={{ display: "grid", gridTemplateColumns: "auto 1fr 80px auto", gap: 6 }}>
+          <select className="input" value={o.dimension} onChange={(e) => updateOverride(i, { dimension: e.target.value })}>
+            {dims.map((d) => <option key={d.key} value={d.key}>{d.label}</option>)}
+          </select>
+          <input className="input" placeholder="value, e.g. TEAM-LAL" value={o.value} onChange={(e) => updateOverride(i, { value: e.target.value })} />
+          <input className="input" type="number" value={o.cap_pct} onChange={(e) => updateOverride(i, { cap_pct: Number(e.target.value) })} />
+          <button className="btn" onClick={() => onChange({ cap_overrides: rules.cap_overrides.filter((_, j) => j !== i) })}>Remove</button>
+        </div>
+      ))}
+      <div>
+        <button className="btn" onClick={() => onChange({ cap_overrides: [...rules.cap_overrides, { dimension: "group2", value: "", cap_pct: rules.group2_pct }] })}>
+          Add override
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="note">
+          {issues.map((x) => <div key={x.path}>{x.path}: {x.message}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from "react";
+import { OVERRIDE_PHRASE, frictionOutstanding, frictionStep, overrideRecord } from "../engine";
+import type { OverrideRecord, UserRules, Verdict } from "../engine";
+import { Toggle } from "./controls";
+
+/**
+ * Commit button with the friction step for the current verdict:
+ * WARN → acknowledge, HARD_WARN → justify + countdown, RED_ALERT → explicit override.
+ * The countdown restarts whenever the verdict changes. While `locked` (cooldown)
+ * nothing can be committed; each attempt is reported through onLockedAttempt.
+ */
+export function FrictionGate({
+  verdict,
+  rules,
+  onCommit,
+  locked = false,
+  onLockedAttempt
+}: {
+  verdict: Verdict;
+  rules: UserRules;
+  onCommit: (override: OverrideRecord | undefined) => void;
+  locked?: boolean;
+  onLockedAttempt?: () => void;
+}) {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [justification, setJustification] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [shownAt, setShownAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setAcknowledged(false);
+    setConfirmation("");
+    setShownAt(Date.now());
+  }, [verdict]);
+
+  const step = frictionStep(verdict);
+  const timed = step === "JUSTIFY_AND_WAIT" || step === "OVERRIDE";
+
+  useEffect(() => {
+    if (!timed) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [timed]);
+
+  const input = { acknowledged, justification, confirmation, waited_ms: now - shownAt };
+  const missing = frictionOutstanding(verdict, rules, input);
+
+  if (locked) {
+    return (
+      <div>
+        <button className="btn btnPrimary" onClick={onLockedAttempt} style={{ opacity: 0.5 }}>
+          Commit blocked — cooldown active
+        </button>
+        <div className="note">Commits are disabled until the cooldown expires. Each attempt is recorded as a cooldown violation.</div>
+      </div>
+    );
+  }
+
+  function commit() {
+    if (missing.length > 0) return;
+    onCommit(overrideRecord(verdict, input));
+    setAcknowledged(false);
+    setJustification("");
+    setConfirmation("");
+    setShownAt(Date.now());
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {step === "ACKNOWLEDGE" && (
+        <Toggle label="I acknowledge this position breaks my framework" checked={acknowledged} onChange={setAcknowledged} />
+      )}
+      {timed && (
+        <div>
+          <label className="label">Justification (min {rules.justification_min_chars} chars, stored on the ledger)</label>
+          <textarea className="input" rows={2} value={justification} onChange={(e) => setJustification(e.target.value)} />
+        </div>
+      )}
+      {step === "OVERRIDE" && (
+        <div>
+          <label className="label">RED ALERT — blocked. Type {OVERRIDE_PHRASE} to override.</label>
+          <input className="input" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+        </div>
+      )}
+      <div>
+        <button className="btn btnPrimary" onClick={commit} disabled={missing.length > 0} style={{ opacity: missing.length > 0 ? 0.5 : 1 }}>
+          {step === "NONE" ? "Commit to Ledger" : step === "OVERRIDE" ? "Override & Commit" : "Commit with Friction"}
+        </button>
+        {missing.length > 0 && <div className="note">Required: {missing.join(" • ")}</div>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from "react";
+import { TIERS, betPrice, entryHistory, filterLedger, formatOdds, hasRealized, normalizeOdds, sortLedger } from "../engine";
+import type { EntryCorrection, LedgerAudit, LedgerEntry, LedgerFilter, LedgerSort, OddsFormat, Verdict } from "../engine";
+import { OddsInput } from "./OddsInput";
+
+type EditDraft = { stake: string; format: OddsFormat; odds: string; group1: string; group2: string; why: string };
+
+const COLUMNS: { key: LedgerSort["key"]; label: string }[] = [
+  { key: "ts", label: "When" },
+  { key: "stake", label: "Stake" },
+  { key: "odds", label: "Odds" },
+  { key: "verdict", label: "Verdict" }
+];
+const PAGE = 50;
+
+// <input type="date"> values, as local midnight; `to` covers the whole day
+function dayStart(value: string): number | undefined {
+  return value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+}
+function dayEnd(value: string): number | undefined {
+  const start = dayStart(value);
+  return start === undefined ? undefined : new Date(start).setDate(new Date(start).getDate() + 1) - 1;
+}
+
+function entryLabel(e: LedgerEntry): string {
+  const groups = e.legs?.length ? `${e.legs.length} legs` : `${e.group1_id} / ${e.group2_id}`;
+  return `${new Date(e.ts).toLocaleString()} • ${groups} • ${e.stake.toFixed(2)} @ ${e.odds_input ?? formatOdds(betPrice(e), "american")}`;
+}
+
+/** Only the fields that differ from the entry; odds carry their normalized fields together. */
+function correction(e: LedgerEntry, d: EditDraft): EntryCorrection {
+  const patch: EntryCorrection = {};
+  if (Number(d.stake) !== e.stake) patch.stake = Number(d.stake);
+  if (!e.legs?.length) {
+    if (d.odds.trim() !== (e.odds_input ?? String(e.odds)) || d.format !== (e.odds_format ?? "american")) Object.assign(patch, normalizeOdds(d.format, d.odds));
+    if (d.group1.trim() !== e.group1_id) patch.group1_id = d.group1.trim();
+    if (d.group2.trim() !== e.group2_id) patch.group2_id = d.group2.trim();
+  }
+  return patch;
+}
+
+/**
+ * Every committed entry, filterable and sortable. Corrections and deletions need a reason and
+ * land in the audit trail with the entry as it was; nothing is overwritten in place.
+ */
+export function LedgerTable({
+  ledger,
+  audit,
+  onCorrect,
+  onDelete
+}: {
+  ledger: LedgerEntry[];
+  audit: LedgerAudit;
+  onCorrect: (id: string, patch: EntryCorrection, why: string) => void;
+  onDelete: (id: string, why: string) => void;
+}) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [verdicts, setVerdicts] = useState<Verdict[]>([]);
+  const [reason, setReason] = useState("");
+  const [group, setGroup] = useState("");
+  const [sort, setSort] = useState<LedgerSort>({ key: "ts", dir: "desc" });
+  const [limit, setLimit] = useState(PAGE);
+  const [editing, setEditing] = useState<{ id: string; draft: EditDraft } | null>(null);
+
+  const reasonCodes = useMemo(() => [...new Set(ledger.flatMap((e) => e.reasons))].sort(), [ledger]);
+  const filter: LedgerFilter = { from: dayStart(from), to: dayEnd(to), verdicts, reason: reason || undefined, group };
+  const rows = useMemo(() => sortLedger(filterLedger(ledger, filter), sort), [ledger, from, to, verdicts, reason, group, sort]);
+
+  function toggleSort(key: LedgerSort["key"]) {
+    setSort(sort.key === key ? { key, dir: sort.dir === "asc" ? "desc" : "asc" } : { key, dir: "desc" });
+  }
+  function startEdit(e: LedgerEntry) {
+    const draft = { stake: String(e.stake), format: e.odds_format ?? "american", odds: e.odds_input ?? String(e.odds), group1: e.group1_id, group2: e.group2_id, why: "" };
+    setEditing({ id: e.id, draft });
+  }
+
+  const edited = editing && ledger.find((e) => e.id === editing.id);
+  const realized = !!edited && hasRealized(edited);
+  const patch = edited ? correction(edited, editing!.draft) : {};
+  const why = editing?.draft.why.trim() ?? "";
+  const setDraft = (p: Partial<EditDraft>) => setEditing(editing && { ...editing, draft: { ...editing.draft, ...p } });
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div className="row2">
+        <div>
+          <label className="label">From</label>
+          <input className="input" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <label className="label">To</label>
+          <input className="input" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div>
+          <label className="label">Reason code</label>
+          <select className="input" value={reason} onChange={(e) => setReason(e.target.value)}>
+            <option value="">any</option>
+            {reasonCodes.map((r) => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="label">Group ID contains</label>
+          <input className="input" value={group} onChange={(e) => setGroup(e.target.value)} />
+        </div>
+      </div>
+      <div className="pills" style={{ gap: 6 }}>
+        {TIERS.map((t) => (
+          <label key={t} className="note" style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={verdicts.includes(t)}
+              onChange={(e) => setVerdicts(e.target.checked ? [...verdicts, t] : verdicts.filter((v) => v !== t))}
+            />
+            {t}
+          </label>
+        ))}
+      </div>
+
+      <div className="note">{rows.length} of {ledger.length} entries</div>
+      {rows.length > 0 && (
+        <table className="note" style={{ borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr>
+              {COLUMNS.map((c) => (
+                <th key={c.key} style={{ textAlign: "left", cursor: "pointer" }} onClick={() => toggleSort(c.key)}>
+                  {c.label}{sort.key === c.key ? (sort.dir === "asc" ? " ▲" : " ▼") : ""}
+                </th>
+              ))}
+              <th style={{ textAlign: "left" }}>Groups</th>
+              <th style={{ textAlign: "left" }}>Reasons</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, limit).map((e) => {
+              const history = entryHistory(audit, e.id).length;
+              return (
+                <tr key={e.id}>
+                  <td>{new Date(e.ts).toLocaleString()}</td>
+                  <td>{e.stake.toFixed(2)}</td>
+                  <td>{e.odds_input ?? formatOdds(betPrice(e), "american")}</td>
+                  <td>{e.verdict}{e.override ? " (override)" : ""}</td>
+                  <td>{e.legs?.length ? `${e.legs.length} legs` : `${e.group1_id} / ${e.group2_id}`}</td>
+                  <td>{e.reasons.join(", ")}</td>
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    {history > 0 && <span title="corrections on record">✎{history} </span>}
+                    <button className="btn" onClick={() => startEdit(e)}>Edit</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {rows.length > limit && <button className="btn" onClick={() => setLimit(limit + PAGE)}>Show {Math.min(PAGE, rows.length - limit)} more</button>}
+
+      {editing && edited && (
+        <div className="metric" style={{ display: "grid", gap: 8 }}>
+          <div className="k">Correct or delete: {entryLabel(edited)}</div>
+          <div className="row2">
+            <div>
+              <label className="label">Stake</label>
+              <input className="input" type="number" disabled={realized} value={editing.draft.stake} onChange={(e) => setDraft({ stake: e.target.value })} />
+            </div>
+            {!edited.legs?.length && !realized && <OddsInput format={editing.draft.format} value={editing.draft.odds} onChange={(format, odds) => setDraft({ format, odds })} />}
+            {!edited.legs?.length && (
+              <>
+                <div>
+                  <label className="label">Group1 ID</label>
+                  <input className="input" value={editing.draft.group1} onChange={(e) => setDraft({ group1: e.target.value })} />
+                </div>
+                <div>
+                  <label className="label">Group2 ID</label>
+                  <input className="input" value={editing.draft.group2} onChange={(e) => setDraft({ group2: e.target.value })} />
+                </div>
+              </>
+            )}
+          </div>
+          {realized && <div className="note">A result is recorded on this entry: its stake and odds are fixed and it can only leave the ledger through a reset.</div>}
+          <div>
+            <label className="label">Why (kept in the audit trail)</label>
+            <input className="input" value={editing.draft.why} onChange={(e) => setDraft({ why: e.target.value })} />
+          </div>
+          <div className="pills" style={{ gap: 6 }}>
+            <button
+              className="btn"
+              disabled={!why || Object.keys(patch).length === 0}
+              onClick={() => { onCorrect(edited.id, patch, why); setEditing(null); }}
+            >
+              Save correction
+            </button>
+            <button className="btn" disabled={!why || realized} onClick={() => { onDelete(edited.id, why); setEditing(null); }}>Delete entry</button>
+            <button className="btn" onClick={() => setEditing(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <details>
+        <summary className="note">Audit trail ({audit.tombstones.length} changes, {audit.archives.length} archives)</summary>
+        <ul className="note" style={{ margin: "8px 0 0", paddingLeft: 18 }}>
+          {[...audit.tombstones].reverse().map((t, i) => (
+            <li key={`t${i}`}>
+              {new Date(t.at).toLocaleString()} • {t.by} • {t.action}: {entryLabel(t.before)}
+              {t.after ? ` → ${entryLabel(t.after)}` : ""} — “{t.why}”
+            </li>
+          ))}
+          {[...audit.archives].reverse().map((a, i) => (
+            <li key={`a${i}`}>
+              {new Date(a.at).toLocaleString()} • {a.by} • archived {a.entries.length} entries ({a.reason}) — “{a.why}”
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
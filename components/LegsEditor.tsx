@@ -0,0 +1,67 @@
+import React from "react";
+import { combinedPrice, compactGroups, formatOdds, isValidPrice, normalizeOdds } from "../engine";
+import type { GroupDimension, Leg, OddsFormat } from "../engine";
+import { OddsInput } from "./OddsInput";
+
+/** A leg as typed: raw odds in its own format plus its groups. */
+export type LegDraft = { format: OddsFormat; input: string; group1: string; group2: string; groups: Record<string, string> };
+
+export function toLeg(d: LegDraft): Leg {
+  const groups = compactGroups(d.groups);
+  return { ...normalizeOdds(d.format, d.input), group1_id: d.group1.trim(), group2_id: d.group2.trim(), ...(groups ? { groups } : {}) };
+}
+
+/** Per-leg odds and groups for a parlay, with the combined price against the rules' limits. */
+export function LegsEditor({
+  legs,
+  maxLegs,
+  maxPrice,
+  dimensions,
+  onChange
+}: {
+  legs: LegDraft[];
+  dimensions: GroupDimension[]; // user dimensions; each leg gets a value field
+  maxLegs: number;
+  maxPrice: number;
+  onChange: (legs: LegDraft[]) => void;
+}) {
+  const price = combinedPrice(legs.map(toLeg));
+
+  function update(i: number, patch: Partial<LegDraft>) {
+    onChange(legs.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {legs.map((l, i) => (
+        <div key={i} className="metric">
+          <div className="k" style={{ display: "flex", justifyContent: "space-between" }}>
+            <span>Leg {i + 1}</span>
+            <button className="btn" disabled={legs.length <= 2} onClick={() => onChange(legs.filter((_, j) => j !== i))}>Remove</button>
+          </div>
+          <OddsInput format={l.format} value={l.input} onChange={(format, input) => update(i, { format, input })} />
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 6, marginTop: 6 }}>
+            <input className="input" placeholder="Group1 ID" value={l.group1} onChange={(e) => update(i, { group1: e.target.value })} />
+            <input className="input" placeholder="Group2 ID" value={l.group2} onChange={(e) => update(i, { group2: e.target.value })} />
+            {dimensions.map((d) => (
+              <input
+                key={d.key}
+                className="input"
+                placeholder={d.label}
+                value={l.groups[d.key] ?? ""}
+                onChange={(e) => update(i, { groups: { ...l.groups, [d.key]: e.target.value } })}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <button className="btn" onClick={() => onChange([...legs, { ...legs[legs.length - 1], input: "" }])}>Add leg</button>
+        <div className="note">
+          {legs.length}/{maxLegs} legs • combined{" "}
+          {isValidPrice(price) ? `${formatOdds(price, "decimal")} dec (${formatOdds(price, "american")})` : "invalid"} • max {maxPrice} dec
+        </div>
+      </div>
+    </div>
+  );
+}
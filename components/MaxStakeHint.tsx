@@ -0,0 +1,25 @@
+import React from "react";
+import type { StakeLimit } from "../engine";
+
+function formatLimit(l: StakeLimit): string {
+  if (l.max_stake === null) return "—";
+  if (!Number.isFinite(l.max_stake)) return "no limit";
+  const by = l.binding.map((c) => c.label).join(", ");
+  return `${l.max_stake.toFixed(2)}${by ? ` (${by})` : ""}`;
+}
+
+/** Largest stake per tier from the solver, with a shortcut to the largest ALLOW stake. */
+export function MaxStakeHint({ limits, onUse }: { limits: StakeLimit[]; onUse: (stake: number) => void }) {
+  const allow = limits.find((l) => l.tier === "ALLOW");
+  const usable = allow?.max_stake != null && Number.isFinite(allow.max_stake);
+  return (
+    <div className="note" style={{ display: "grid", gap: 4 }}>
+      {limits.map((l) => (
+        <div key={l.tier}>max {l.tier}: {formatLimit(l)}</div>
+      ))}
+      <div>
+        <button className="btn" disabled={!usable} onClick={() => usable && onUse(allow!.max_stake as number)}>Use max ALLOW stake</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import React from "react";
+import { ODDS_FORMATS, formatOdds, impliedProbability, parseOdds } from "../engine";
+import type { OddsFormat, OddsGateMode } from "../engine";
+
+const FORMAT_LABEL: Record<OddsFormat, string> = {
+  american: "American",
+  decimal: "Decimal",
+  fractional: "Fractional",
+  hongkong: "Hong Kong"
+};
+
+const PLACEHOLDER: Record<OddsFormat, string> = {
+  american: "-110 / +250",
+  decimal: "1.91 / 3.50",
+  fractional: "5/2 / evens",
+  hongkong: "0.91 / 2.50"
+};
+
+export const ODDS_GATE_MODE_OPTIONS: { value: OddsGateMode; label: string }[] = [
+  { value: "american", label: "American odds threshold" },
+  { value: "implied_prob", label: "Minimum implied probability" },
+  { value: "decimal", label: "Maximum decimal price" }
+];
+
+/** Odds in any supported format, with the normalized price and its equivalents underneath. */
+export function OddsInput({
+  format,
+  value,
+  onChange
+}: {
+  format: OddsFormat;
+  value: string;
+  onChange: (format: OddsFormat, value: string) => void;
+}) {
+  const price = parseOdds(format, value);
+
+  function switchFormat(next: OddsFormat) {
+    // Carry the current price across so switching formats never changes the bet
+    onChange(next, price === null ? value : formatOdds(price, next));
+  }
+
+  return (
+    <div>
+      <label className="label">Odds</label>
+      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: 6 }}>
+        <select className="input" value={format} onChange={(e) => switchFormat(e.target.value as OddsFormat)}>
+          {ODDS_FORMATS.map((f) => <option key={f} value={f}>{FORMAT_LABEL[f]}</option>)}
+        </select>
+        <input className="input" value={value} placeholder={PLACEHOLDER[format]} onChange={(e) => onChange(format, e.target.value)} />
+      </div>
+      <div className="note">
+        {price === null
+          ? "Invalid odds — the odds gate will fire."
+          : `${formatOdds(price, "decimal")} dec • ${formatOdds(price, "american")} • ${formatOdds(price, "fractional")} • ${(impliedProbability(price) * 100).toFixed(1)}%`}
+      </div>
+    </div>
+  );
+}
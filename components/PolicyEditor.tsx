@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from "react";
+import { POLICY_PRESETS, V1_POLICY, parsePolicy, policyPreset } from "../engine";
+import type { EscalationPolicy, UserRules } from "../engine";
+import { SelectRow } from "./controls";
+
+const CUSTOM = "custom";
+const PRESET_LABEL: Record<string, string> = { v1: "v1 (default)", strict: "Strict" };
+
+const pretty = (policy: EscalationPolicy) => JSON.stringify(policy, null, 2);
+
+/** Escalation policy: pick a preset or edit the JSON; only text that parses and validates reaches the draft. */
+export function PolicyEditor({ rules, onChange }: { rules: Pick<UserRules, "escalation">; onChange: (escalation: EscalationPolicy) => void }) {
+  const policy = rules.escalation ?? V1_POLICY;
+  const [text, setText] = useState(() => pretty(policy));
+  const parsed = parsePolicy(text);
+
+  // Follow outside changes (preset, discard, import, profile switch) that didn't come from this text
+  useEffect(() => {
+    if (JSON.stringify(parsed.policy) !== JSON.stringify(policy)) setText(pretty(policy));
+  }, [policy]);
+
+  function edit(next: string) {
+    setText(next);
+    const result = parsePolicy(next);
+    if (result.policy) onChange(result.policy);
+  }
+
+  const options = [...Object.keys(POLICY_PRESETS).map((k) => ({ value: k, label: PRESET_LABEL[k] ?? k })), { value: CUSTOM, label: "Custom" }];
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <SelectRow
+        label="Escalation policy"
+        value={policyPreset(policy) ?? CUSTOM}
+        options={options}
+        onChange={(v) => v !== CUSTOM && onChange(POLICY_PRESETS[v])}
+      />
+      <details>
+        <summary className="note">Severities, base tiers and escalation steps (JSON)</summary>
+        <textarea
+          className="input"
+          rows={10}
+          spellCheck={false}
+          style={{ fontFamily: "var(--mono, monospace)", width: "100%", marginTop: 6 }}
+          value={text}
+          onChange={(e) => edit(e.target.value)}
+        />
+        {parsed.issues.length > 0 && (
+          <div className="note">
+            Not applied — the draft keeps the last valid policy.
+            {parsed.issues.map((x, i) => <div key={i}>{x.path || "policy"}: {x.message}</div>)}
+          </div>
+        )}
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { profileId, proposeUmbrellaCap, umbrellaAt } from "../engine";
+import type { ProfilesState } from "../engine";
+import { RuleRow, SelectRow } from "./controls";
+
+/**
+ * Header profile switcher: select / add / rename / delete profiles and file umbrella cap changes.
+ * Raising the cap or switching it off waits out `delayHours`, like a loosening rules change.
+ */
+export function ProfileSwitcher({ state, delayHours, onChange }: { state: ProfilesState; delayHours: number; onChange: (next: ProfilesState) => void }) {
+  const [newName, setNewName] = useState("");
+  const [cap, setCap] = useState<number | null>(null); // draft umbrella cap, until filed
+  const active = state.profiles.find((p) => p.id === state.active);
+  const umbrella = umbrellaAt(state, Date.now());
+
+  function addProfile() {
+    const name = newName.trim();
+    if (!name) return;
+    const id = profileId(name, state.profiles.map((p) => p.id));
+    onChange({ ...state, profiles: [...state.profiles, { id, name }], active: id });
+    setNewName("");
+  }
+
+  function removeProfile(id: string) {
+    const name = state.profiles.find((p) => p.id === id)?.name ?? id;
+    if (!window.confirm(`Delete profile "${name}" with its ledger, rules and cooldown? This cannot be undone.`)) return;
+    onChange({ ...state, profiles: state.profiles.filter((p) => p.id !== id) });
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <SelectRow
+        label="Active profile"
+        value={state.active}
+        options={state.profiles.map((p) => ({ value: p.id, label: p.name }))}
+        onChange={(id) => onChange({ ...state, active: id })}
+      />
+
+      <details>
+        <summary>Manage profiles</summary>
+        <div style={{ display: "grid", gap: 10, marginTop: 10 }}>
+          {active && (
+            <div>
+              <label className="label">Rename "{active.name}"</label>
+              <input
+                className="input"
+                value={active.name}
+                onChange={(e) => onChange({ ...state, profiles: state.profiles.map((p) => (p.id === active.id ? { ...p, name: e.target.value } : p)) })}
+              />
+            </div>
+          )}
+          <div>
+            <label className="label">New profile</label>
+            <div className="pills" style={{ gap: 6 }}>
+              <input className="input" style={{ flex: 1 }} placeholder="e.g. Trading account" value={newName} onChange={(e) => setNewName(e.target.value)} />
+              <button className="btn" disabled={!newName.trim()} onClick={addProfile}>Add</button>
+            </div>
+          </div>
+          {state.profiles.filter((p) => p.id !== state.active).map((p) => (
+            <div key={p.id} className="pills" style={{ justifyContent: "space-between" }}>
+              <span className="note">{p.name}</span>
+              <button className="btn" onClick={() => removeProfile(p.id)}>Delete</button>
+            </div>
+          ))}
+          <RuleRow
+            label="Umbrella weekly cap across all profiles (currency, 0 = off)"
+            value={cap ?? umbrella.umbrella_pending?.cap ?? umbrella.umbrella_weekly_cap}
+            onChange={setCap}
+          />
+          {umbrella.umbrella_pending && (
+            <div className="note">
+              Cap {umbrella.umbrella_weekly_cap || "off"} until {new Date(umbrella.umbrella_pending.effective_at).toLocaleString()}, then {umbrella.umbrella_pending.cap || "off"}.
+            </div>
+          )}
+          <button
+            className="btn"
+            disabled={cap === null}
+            onClick={() => { onChange(proposeUmbrellaCap(state, cap!, Date.now(), delayHours)); setCap(null); }}
+          >
+            File cap change
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+}
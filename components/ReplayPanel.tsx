@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { TIERS, replayLedger } from "../engine";
+import type { CapitalState, LedgerEntry, ReplayReport, UserRules } from "../engine";
+
+/** What-if: the stored ledger replayed under the draft rules, with the entries whose verdict flips. */
+export function ReplayPanel({
+  ledger,
+  rules,
+  capital,
+  disabled = false
+}: {
+  ledger: LedgerEntry[];
+  rules: UserRules;
+  capital: CapitalState;
+  disabled?: boolean; // draft has validation errors
+}) {
+  const [report, setReport] = useState<ReplayReport | null>(null);
+
+  return (
+    <div className="metric">
+      <div className="k">What-if replay ({ledger.length} entries)</div>
+      <button className="btn" style={{ marginTop: 8 }} disabled={disabled || ledger.length === 0} onClick={() => setReport(replayLedger(ledger, rules, capital))}>
+        Replay ledger under draft rules
+      </button>
+
+      {report && (
+        <div style={{ marginTop: 8, display: "grid", gap: 6 }}>
+          <table className="note" style={{ borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: "left" }}></th>
+                {TIERS.map((t) => <th key={t} style={{ textAlign: "right", paddingLeft: 8 }}>{t}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>recorded</td>
+                {TIERS.map((t) => <td key={t} style={{ textAlign: "right" }}>{report.before[t]}</td>)}
+              </tr>
+              <tr>
+                <td>replayed</td>
+                {TIERS.map((t) => <td key={t} style={{ textAlign: "right" }}>{report.after[t]}</td>)}
+              </tr>
+            </tbody>
+          </table>
+          <div className="note">
+            {report.flips.length} flipped • {report.tightened} stricter • {report.loosened} looser (umbrella cap not replayed)
+          </div>
+          {report.flips.length > 0 && (
+            <ul className="note" style={{ margin: 0, paddingLeft: 18 }}>
+              {report.flips.slice(0, 50).map((r) => (
+                <li key={r.entry.id}>
+                  {new Date(r.entry.ts).toLocaleString()} • {r.entry.group1_id}/{r.entry.group2_id} • {r.entry.stake} @ {r.entry.odds} • {r.before} → {r.after}
+                  {r.reasons.length > 0 ? ` (${r.reasons.join(", ")})` : ""}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from "react";
+import { effectiveVersion, latestRules, loosenedFields, pendingVersions } from "../engine";
+import type { RulesHistory, UserRules } from "../engine";
+
+function when(ts: number): string {
+  return new Date(ts).toLocaleString();
+}
+
+function show(v: unknown): string {
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+}
+
+function inHours(ms: number): string {
+  const h = Math.floor(ms / 3_600_000);
+  const m = Math.ceil((ms % 3_600_000) / 60_000);
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+}
+
+/** Draft diff with save / discard, pending (cooling-off) snapshots and recent versions. */
+export function RulesHistoryPanel({
+  history,
+  draft,
+  now,
+  onSave,
+  onDiscard,
+  onCancelPending,
+  saveBlocked = false
+}: {
+  history: RulesHistory;
+  draft: UserRules;
+  now: number;
+  onSave: () => void;
+  onDiscard: () => void;
+  onCancelPending: () => void;
+  saveBlocked?: boolean; // draft has validation errors
+}) {
+  const current = effectiveVersion(history, now);
+  const pending = pendingVersions(history, now);
+  const base = latestRules(history, now);
+  const changed = (Object.keys(draft) as (keyof UserRules)[]).filter((k) => show(draft[k]) !== show(base[k]));
+  const loosens = new Set(loosenedFields(current.rules, draft));
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div className="note">
+        In force: v{current.version} since {when(current.effective_at)}. Loosening any limit waits {current.rules.loosening_delay_hours}h.
+      </div>
+
+      {changed.length > 0 && (
+        <div className="metric">
+          <div className="k">Unsaved edits</div>
+          <ul className="note" style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+            {changed.map((k) => (
+              <li key={k}>{k}: {show(base[k])} → {show(draft[k])}{loosens.has(k) ? ` (loosens — after ${current.rules.loosening_delay_hours}h)` : " (now)"}</li>
+            ))}
+          </ul>
+          <div className="pills" style={{ gap: 6, marginTop: 8 }}>
+            <button className="btn" disabled={saveBlocked} onClick={onSave}>Save rules</button>
+            <button className="btn" onClick={onDiscard}>Discard edits</button>
+          </div>
+          {saveBlocked && <div className="note">Fix the errors above before saving.</div>}
+        </div>
+      )}
+
+      {pending.map((v) => (
+        <div key={v.version} className="metric">
+          <div className="k">Pending v{v.version} • takes effect {when(v.effective_at)} (in {inHours(v.effective_at - now)})</div>
+          <div className="v">loosens {loosenedFields(current.rules, v.rules).join(", ")}</div>
+          <button className="btn" style={{ marginTop: 8 }} onClick={onCancelPending}>Cancel pending change</button>
+        </div>
+      ))}
+
+      <details>
+        <summary>Version history ({history.versions.length})</summary>
+        <ul className="note" style={{ margin: "6px 0 0", paddingLeft: 18 }}>
+          {[...history.versions].reverse().slice(0, 20).map((v) => (
+            <li key={v.version}>
+              v{v.version} • saved {when(v.created_at)} • {v.superseded_at !== undefined ? `superseded ${when(v.superseded_at)}` : `effective ${when(v.effective_at)}`}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { OUTCOMES, betPrice, formatOdds, openStake, positionState, priceProfit } from "../engine";
+import type { LedgerEntry, Outcome } from "../engine";
+
+const OUTCOME_LABEL: Record<Outcome, string> = {
+  won: "Won",
+  lost: "Lost",
+  push: "Push",
+  void: "Void",
+  cashed_out: "Cash out"
+};
+
+/**
+ * Open and partially closed positions with one-click settlement of the open stake; cash-outs
+ * take a returned amount, partial closes a stake portion and the amount returned for it.
+ */
+export function SettlementPanel({
+  ledger,
+  onSettle,
+  onClose,
+  limit = 10
+}: {
+  ledger: LedgerEntry[];
+  onSettle: (id: string, outcome: Outcome, amount?: number) => void;
+  onClose: (id: string, stake: number, amount: number) => void;
+  limit?: number;
+}) {
+  const [cashOut, setCashOut] = useState<Record<string, string>>({});
+  const [closing, setClosing] = useState<Record<string, { stake: string; amount: string }>>({});
+  const open = ledger.filter((e) => positionState(e) !== "closed").sort((a, b) => b.ts - a.ts);
+
+  if (open.length === 0) return <div className="note">No open positions.</div>;
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {open.slice(0, limit).map((e) => {
+        const amount = Number(cashOut[e.id]);
+        const rest = openStake(e);
+        const part = closing[e.id] ?? { stake: "", amount: "" };
+        const partOk = part.stake !== "" && part.amount !== "" && Number(part.stake) > 0 && Number(part.stake) <= rest && Number(part.amount) >= 0;
+        return (
+          <div key={e.id} className="metric">
+            <div className="k">
+              {new Date(e.ts).toLocaleString()} • {e.legs?.length ? `${e.legs.length} legs` : `${e.group1_id} / ${e.group2_id}`} • {e.verdict} • {positionState(e).replace("_", " ")}
+            </div>
+            <div className="v">
+              {rest.toFixed(2)}{rest < e.stake ? ` of ${e.stake.toFixed(2)} open` : ""} @ {e.odds_input ?? formatOdds(betPrice(e), "american")} → to win {priceProfit(rest, betPrice(e)).toFixed(2)}
+            </div>
+            <div className="pills" style={{ marginTop: 8, gap: 6 }}>
+              {OUTCOMES.filter((o) => o !== "cashed_out").map((o) => (
+                <button key={o} className="btn" onClick={() => onSettle(e.id, o)}>{OUTCOME_LABEL[o]}</button>
+              ))}
+              <input
+                className="input"
+                type="number"
+                placeholder="returned"
+                style={{ width: 110 }}
+                value={cashOut[e.id] ?? ""}
+                onChange={(ev) => setCashOut({ ...cashOut, [e.id]: ev.target.value })}
+              />
+              <button
+                className="btn"
+                disabled={!(cashOut[e.id] && Number.isFinite(amount) && amount >= 0)}
+                onClick={() => onSettle(e.id, "cashed_out", amount)}
+              >
+                {OUTCOME_LABEL.cashed_out}
+              </button>
+            </div>
+            <div className="pills" style={{ marginTop: 6, gap: 6 }}>
+              <input
+                className="input"
+                type="number"
+                placeholder="stake closed"
+                style={{ width: 110 }}
+                value={part.stake}
+                onChange={(ev) => setClosing({ ...closing, [e.id]: { ...part, stake: ev.target.value } })}
+              />
+              <input
+                className="input"
+                type="number"
+                placeholder="returned"
+                style={{ width: 110 }}
+                value={part.amount}
+                onChange={(ev) => setClosing({ ...closing, [e.id]: { ...part, amount: ev.target.value } })}
+              />
+              <button
+                className="btn"
+                disabled={!partOk}
+                onClick={() => {
+                  onClose(e.id, Number(part.stake), Number(part.amount));
+                  setClosing({ ...closing, [e.id]: { stake: "", amount: "" } });
+                }}
+              >
+                Close part
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {open.length > limit && <div className="note">+{open.length - limit} older open positions</div>}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from "react";
+import { describeTimeModel, isValidTimeZone } from "../engine";
+import type { TimeModel, WindowMode } from "../engine";
+import { RuleRow, SelectRow } from "./controls";
+
+const WEEK_DAY_OPTIONS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"].map((label, i) => ({
+  value: String(i),
+  label
+}));
+
+const WINDOW_MODE_OPTIONS: { value: WindowMode; label: string }[] = [
+  { value: "calendar", label: "Calendar day / week" },
+  { value: "rolling", label: "Rolling 24h / 7d" }
+];
+
+/** Settings for the day / week boundaries every exposure window uses. */
+export function TimeModelFields({ value, onChange }: { value: TimeModel; onChange: (patch: Partial<TimeModel>) => void }) {
+  const calendar = value.window_mode === "calendar";
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <SelectRow<WindowMode> label="Exposure windows" value={value.window_mode} options={WINDOW_MODE_OPTIONS} onChange={(v) => onChange({ window_mode: v })} />
+      {calendar && (
+        <>
+          <div>
+            <label className="label">Timezone (IANA, blank = this device)</label>
+            <input className="input" value={value.timezone} placeholder="America/New_York" onChange={(e) => onChange({ timezone: e.target.value.trim() })} />
+          </div>
+          <RuleRow label="Day rollover hour (0-23)" value={value.day_rollover_hour} onChange={(v) => onChange({ day_rollover_hour: v })} />
+          <SelectRow label="Week starts on" value={String(value.week_start_day)} options={WEEK_DAY_OPTIONS} onChange={(v) => onChange({ week_start_day: Number(v) })} />
+        </>
+      )}
+      <div className="note">
+        {isValidTimeZone(value.timezone) ? "" : `Unknown timezone "${value.timezone}" — using this device's. `}
+        Windows: {describeTimeModel(value)}
+      </div>
+    </div>
+  );
+}
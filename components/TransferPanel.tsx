@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { applyMerge, exportJson, exportLedgerCsv, exportRulesCsv, parseImport, planMerge, realizedChangeIssues } from "../engine";
+import type { ConflictChoice, LedgerEntry, MergePlan, ParsedImport, UserRules } from "../engine";
+
+function download(name: string, mime: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+type Pending = { file: string; parsed: ParsedImport; plan: MergePlan };
+
+/** Export ledger + rules (JSON / CSV) and import them back with a merge preview. Nothing is applied until confirmed. */
+export function TransferPanel({
+  ledger,
+  rules,
+  onApply
+}: {
+  ledger: LedgerEntry[];
+  rules: UserRules;
+  onApply: (ledger: LedgerEntry[], rules?: UserRules) => void;
+}) {
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [importRules, setImportRules] = useState(false);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    const parsed = parseImport(await file.text());
+    setPending({ file: file.name, parsed, plan: planMerge(ledger, parsed.entries) });
+    setChoices({});
+    setImportRules(false);
+  }
+
+  function apply() {
+    if (!pending) return;
+    onApply(applyMerge(ledger, pending.plan, choices), importRules ? pending.parsed.rules : undefined);
+    setPending(null);
+  }
+
+  const plan = pending?.plan;
+  const issues = pending?.parsed.issues ?? [];
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div className="pills" style={{ gap: 6 }}>
+        <button className="btn" onClick={() => download(`risk-redux-${stamp}.json`, "application/json", exportJson(ledger, rules, Date.now()))}>Export JSON</button>
+        <button className="btn" onClick={() => download(`risk-redux-ledger-${stamp}.csv`, "text/csv", exportLedgerCsv(ledger))}>Export ledger CSV</button>
+        <button className="btn" onClick={() => download(`risk-redux-rules-${stamp}.csv`, "text/csv", exportRulesCsv(rules))}>Export rules CSV</button>
+      </div>
+
+      <div>
+        <label className="label">Import (JSON or CSV export)</label>
+        <input className="input" type="file" accept=".json,.csv,application/json,text/csv" onChange={(e) => { onFile(e.target.files?.[0]); e.target.value = ""; }} />
+      </div>
+
+      {pending && plan && (
+        <div className="metric">
+          <div className="k">{pending.file}</div>
+          <div className="v">
+            {plan.added.length} new • {plan.unchanged.length} already present • {plan.conflicts.length} conflicts • {issues.length} rejected
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="note" style={{ margin: "8px 0 0", paddingLeft: 18 }}>
+              {issues.slice(0, 20).map((x, i) => (
+                <li key={i}>{x.row > 0 ? `row ${x.row}: ` : ""}{x.path ? `${x.path} ` : ""}{x.message}</li>
+              ))}
+              {issues.length > 20 && <li>+{issues.length - 20} more</li>}
+            </ul>
+          )}
+
+          {plan.conflicts.map((c) => (
+            <div key={c.id} className="note" style={{ marginTop: 8 }}>
+              <div>{c.id.slice(0, 8)} • {new Date(c.current.ts).toLocaleString()} • differs in {c.fields.join(", ")}</div>
+              <div className="pills" style={{ gap: 6, marginTop: 4 }}>
+                {(["current", "incoming"] as ConflictChoice[]).map((k) => (
+                  <button
+                    key={k}
+                    className="btn"
+                    disabled={(choices[c.id] ?? "current") === k || (k === "incoming" && realizedChangeIssues(c.current, c.incoming).length > 0)}
+                    onClick={() => setChoices({ ...choices, [c.id]: k })}
+                  >
+                    {k === "current" ? "Keep current" : "Take imported"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {pending.parsed.rules && (
+            <label className="note" style={{ display: "block", marginTop: 8 }}>
+              <input type="checkbox" checked={importRules} onChange={(e) => setImportRules(e.target.checked)} /> Also replace rule settings with the imported rules
+            </label>
+          )}
+
+          <div className="pills" style={{ gap: 6, marginTop: 10 }}>
+            <button
+              className="btn"
+              disabled={plan.added.length === 0 && !Object.values(choices).includes("incoming") && !importRules}
+              onClick={apply}
+            >
+              Apply import
+            </button>
+            <button className="btn" onClick={() => setPending(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
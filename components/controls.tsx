@@ -0,0 +1,47 @@
+import React from "react";
+
+/** ---------- Shared form controls (styled by globals.css) ---------- */
+export function RuleRow({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
+  return (
+    <div>
+      <label className="label">{label}</label>
+      <input className="input" type="number" value={value} onChange={(e) => onChange(Number(e.target.value))} />
+    </div>
+  );
+}
+export function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
+  return (
+    <label style={{ display: "flex", alignItems: "center", gap: 10, fontFamily: "var(--mono)" as any, fontSize: 12, color: "var(--muted)" as any }}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+}
+export function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="metric">
+      <div className="k">{label}</div>
+      <div className="v">{value}</div>
+    </div>
+  );
+}
+export function SelectRow<T extends string>({
+  label,
+  value,
+  options,
+  onChange
+}: {
+  label: string;
+  value: T;
+  options: readonly { value: T; label: string }[];
+  onChange: (v: T) => void;
+}) {
+  return (
+    <div>
+      <label className="label">{label}</label>
+      <select className="input" value={value} onChange={(e) => onChange(e.target.value as T)}>
+        {options.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+    </div>
+  );
+}
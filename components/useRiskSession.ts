@@ -0,0 +1,452 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  DEFAULT_CAPITAL,
+  DEFAULT_PROFILES,
+  DEFAULT_RULES,
+  EMPTY_AUDIT,
+  NO_COOLDOWN,
+  UNDO_WINDOW_MS,
+  applyUmbrellaCap,
+  archiveEntries,
+  behaviorFor,
+  behaviorHistory,
+  capitalLocked,
+  closePart,
+  comboBet,
+  compactGroups,
+  cooldownOnRealized,
+  correctEntry,
+  deleteEntry,
+  deriveBankroll,
+  effectiveVersion,
+  evaluate_v1,
+  indexedExposures,
+  initialHistory,
+  latestRules,
+  normalizeOdds,
+  openExposureChecks,
+  pendingVersions,
+  proposeRules,
+  realizedPnl,
+  recordCommitAttempt,
+  recordReplacements,
+  settle,
+  solveMaxStake,
+  syncLedgerIndex,
+  triggerCooldown,
+  trimLedger,
+  umbrellaAt,
+  undoLast,
+  undoable,
+  weeklyStaked,
+  windowsAt
+} from "../engine";
+import type {
+  AuditStamp,
+  BehavioralState,
+  CapitalState,
+  CooldownState,
+  EntryCorrection,
+  LedgerAudit,
+  LedgerEntry,
+  LedgerIndex,
+  OddsFormat,
+  Outcome,
+  OverrideRecord,
+  ProfilesState,
+  ProposedBet,
+  RuleCheck,
+  RulesHistory,
+  UserRules
+} from "../engine";
+import { openStorage } from "../storage";
+import type { RiskStore, StorageBackend } from "../storage";
+import { toLeg } from "./LegsEditor";
+import type { LegDraft } from "./LegsEditor";
+
+/**
+ * The terminal's state and commit logic, shared by both page layouts: storage and profiles,
+ * the ledger and its audit trail, rules history, capital, cooldown, and the position being
+ * entered with its evaluation. `initialStake` seeds the stake input.
+ */
+export function useRiskSession(initialStake: number) {
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  // Corrections, deletions and archived entries; the ledger itself is never silently rewritten
+  const [audit, setAudit] = useState<LedgerAudit>(EMPTY_AUDIT);
+  const [resetWhy, setResetWhy] = useState("");
+  // Rules: versioned history; settings edit a draft that is saved explicitly
+  const [rulesHistory, setRulesHistory] = useState<RulesHistory>(() => initialHistory(DEFAULT_RULES));
+  const [draft, setDraft] = useState<UserRules>(DEFAULT_RULES);
+
+  const [capital, setCapital] = useState<CapitalState>(DEFAULT_CAPITAL);
+  const [stake, setStake] = useState<number>(initialStake);
+  const [oddsFormat, setOddsFormat] = useState<OddsFormat>("american");
+  const [oddsInput, setOddsInput] = useState<string>("-110");
+  const [group1, setGroup1] = useState<string>("EVENT-1");
+  const [group2, setGroup2] = useState<string>("TEAM-1");
+  const [groupValues, setGroupValues] = useState<Record<string, string>>({}); // user dimensions, by key
+  // Multi-leg: when on, the legs replace the single odds / groups above
+  const [multiLeg, setMultiLeg] = useState(false);
+  const [legs, setLegs] = useState<LegDraft[]>([]);
+
+  // Behavior: derived from the ledger unless the debug override is on
+  const [behOverride, setBehOverride] = useState<BehavioralState | null>(null);
+
+  // Cooldown: persisted, expires on its own, cannot be cleared here
+  const [cooldown, setCooldown] = useState<CooldownState>(NO_COOLDOWN);
+  const [clock, setClock] = useState(() => Date.now());
+
+  // Rules in force now; loosening changes sit in the history until their delay passes
+  const rulesVersion = useMemo(() => effectiveVersion(rulesHistory, Date.now()), [rulesHistory, clock]);
+  const rules = rulesVersion.rules;
+
+  // Storage: server store by default (migrating v1 localStorage once), or localStorage
+  const backend = useRef<StorageBackend | null>(null);
+  const store = useRef<RiskStore | null>(null); // active profile
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Profiles: each has its own rules / ledger / capital / cooldown
+  const [profiles, setProfiles] = useState<ProfilesState>(DEFAULT_PROFILES);
+  const [otherLedgers, setOtherLedgers] = useState<LedgerEntry[]>([]); // every other profile, for the umbrella cap
+
+  function reportStorageError(err: unknown) {
+    setStorageError((err as Error).message);
+  }
+
+  async function loadProfile(b: StorageBackend, state: ProfilesState) {
+    store.current = null; // nothing is written while switching
+    const s = b.profile(state.active);
+    const others = state.profiles.filter((p) => p.id !== state.active).map((p) => b.profile(p.id).loadLedger());
+    const [l, rh, cd, cap, au, rest] = await Promise.all([
+      s.loadLedger(),
+      s.loadRulesHistory(),
+      s.loadCooldown(),
+      s.loadCapital(),
+      s.loadAudit(),
+      Promise.all(others)
+    ]);
+    store.current = s;
+    setLedger(l);
+    setRulesHistory(rh);
+    setDraft(latestRules(rh, Date.now()));
+    setCooldown(cd);
+    setCapital(cap);
+    setAudit(au);
+    setOtherLedgers(rest.flat());
+  }
+
+  useEffect(() => {
+    openStorage()
+      .then(async (b) => {
+        const state = await b.loadProfiles();
+        backend.current = b;
+        setProfiles(state);
+        await loadProfile(b, state);
+      })
+      .catch(reportStorageError);
+  }, []);
+
+  function updateProfiles(next: ProfilesState) {
+    const b = backend.current;
+    if (!b) return;
+    setProfiles(next);
+    if (next.profiles.some((p) => !p.name.trim())) return; // don't save until every profile has a name
+    const reload = next.active !== profiles.active || next.profiles.length !== profiles.profiles.length;
+    b.saveProfiles(next)
+      .then(() => (reload ? loadProfile(b, next) : undefined))
+      .catch(reportStorageError);
+  }
+
+  // Writes are fire-and-forget; nothing is saved until the store has loaded
+  function persist(write: (s: RiskStore) => Promise<void>) {
+    const s = store.current;
+    if (s) write(s).catch(reportStorageError);
+  }
+
+  useEffect(() => {
+    const left = cooldown.until - Date.now();
+    if (left <= 0) return;
+    const id = setTimeout(() => setClock(Date.now()), left + 50);
+    return () => clearTimeout(id);
+  }, [cooldown.until]);
+
+  // Re-evaluate the moment a pending rules change takes effect
+  useEffect(() => {
+    const next = pendingVersions(rulesHistory, Date.now())[0];
+    if (!next) return;
+    const id = setTimeout(() => setClock(Date.now()), next.effective_at - Date.now() + 50);
+    return () => clearTimeout(id);
+  }, [rulesHistory]);
+
+  // ...and the moment a pending umbrella cap change does
+  useEffect(() => {
+    const pending = profiles.umbrella_pending;
+    if (!pending || pending.effective_at <= Date.now()) return;
+    const id = setTimeout(() => setClock(Date.now()), pending.effective_at - Date.now() + 50);
+    return () => clearTimeout(id);
+  }, [profiles.umbrella_pending]);
+
+  // Hide the undo button the moment the last commit leaves the undo window
+  const lastCommit = useMemo(() => undoable(ledger, Date.now()), [ledger, clock]);
+  useEffect(() => {
+    if (!lastCommit) return;
+    const id = setTimeout(() => setClock(Date.now()), lastCommit.ts + UNDO_WINDOW_MS - Date.now() + 50);
+    return () => clearTimeout(id);
+  }, [lastCommit?.id]);
+
+  // Bankroll is derived: starting capital + realized P&L
+  const bankroll = useMemo(() => deriveBankroll(capital.starting_capital, ledger, capital.carried_pnl), [capital, ledger]);
+  const pnl = useMemo(() => capital.carried_pnl + realizedPnl(ledger), [capital, ledger]);
+  const locked = useMemo(() => capitalLocked(capital, ledger), [capital, ledger]);
+
+  const bet = useMemo<ProposedBet>(
+    () => {
+      if (multiLeg) return comboBet(Number(stake) || 0, legs.map(toLeg));
+      const { odds, price } = normalizeOdds(oddsFormat, oddsInput);
+      return {
+        stake: Number(stake) || 0,
+        odds,
+        price,
+        group1_id: String(group1 || "").trim(),
+        group2_id: String(group2 || "").trim(),
+        groups: compactGroups(groupValues)
+      };
+    },
+    [stake, oddsFormat, oddsInput, group1, group2, groupValues, multiLeg, legs]
+  );
+
+  // A parlay counts against every group its legs touch. The index only rebuilds when history
+  // changes; a commit appends to it, so typing in the inputs never rescans the ledger.
+  const indexRef = useRef<LedgerIndex>();
+  const ledgerIndex = useMemo(() => (indexRef.current = syncLedgerIndex(indexRef.current, ledger, capital)), [ledger, capital]);
+  const exposures = useMemo(() => indexedExposures(ledgerIndex, bet, rules), [ledgerIndex, bet, rules, clock]);
+
+  // Combined ISO-week stake across every profile
+  const otherWeekly = useMemo(
+    () => weeklyStaked(otherLedgers, windowsAt(rules, Date.now()).week_start),
+    [otherLedgers, rules, clock]
+  );
+  const umbrellaWeekly = exposures.weekly_staked + otherWeekly;
+  const umbrellaCap = useMemo(() => umbrellaAt(profiles, Date.now()).umbrella_weekly_cap, [profiles, clock]);
+
+  // History is scanned once per ledger change; the flags for a bet read only the scan
+  const behaviorScan = useMemo(
+    () => behaviorHistory(ledger, rules, Date.now(), cooldown),
+    [ledger, rules, cooldown, clock]
+  );
+  const behavior = useMemo(() => behaviorFor(behaviorScan, rules, bet), [behaviorScan, rules, bet]);
+
+  const beh = useMemo<BehavioralState>(
+    () => ({
+      ...(behOverride ?? behavior.state),
+      cooldown_active: behavior.state.cooldown_active
+    }),
+    [behavior, behOverride]
+  );
+
+  const decision = useMemo(() => {
+    const base = evaluate_v1(Number(bankroll) || 0, rules, bet, exposures, beh);
+    return applyUmbrellaCap(base, bet.stake, umbrellaWeekly, umbrellaCap);
+  }, [bankroll, rules, bet, exposures, beh, umbrellaWeekly, umbrellaCap]);
+
+  // Caps, projections and headroom as the engine evaluated them
+  const checks = decision.trace?.checks ?? [];
+  // Caps on cumulative stake get an open-exposure card beside them
+  const openChecks = useMemo(() => openExposureChecks(bankroll, rules, bet, exposures), [bankroll, rules, bet, exposures]);
+  const withOpen = (cs: RuleCheck[]) => cs.flatMap((c) => [c, ...openChecks.filter((o) => o.code === c.code)]);
+
+  // Largest stake per tier: the same pipeline replayed at other stakes, behavior flags included
+  const stakeLimits = useMemo(
+    () =>
+      solveMaxStake((s) => {
+        const at = { ...bet, stake: s };
+        const state = behOverride ?? behaviorFor(behaviorScan, rules, at).state;
+        const base = evaluate_v1(Number(bankroll) || 0, rules, at, exposures, { ...state, cooldown_active: behavior.state.cooldown_active });
+        return applyUmbrellaCap(base, s, umbrellaWeekly, umbrellaCap);
+      }),
+    [bankroll, rules, bet, exposures, behaviorScan, behavior, behOverride, umbrellaWeekly, umbrellaCap]
+  );
+
+  function updateCooldown(next: CooldownState) {
+    setCooldown(next);
+    persist((s) => s.saveCooldown(next));
+  }
+
+  function updateCapital(next: CapitalState) {
+    setCapital(next);
+    persist((s) => s.saveCapital(next));
+  }
+
+  function updateLedger(entries: LedgerEntry[]) {
+    setLedger(entries);
+    persist((s) => s.saveLedger(entries));
+  }
+
+  // The trail is saved first: the server refuses ledger changes it doesn't record. Carried
+  // capital follows the ledger, which the server carries realized P&L from as it lands
+  function updateAudited(entries: LedgerEntry[], next: LedgerAudit, carried?: CapitalState) {
+    setLedger(entries);
+    setAudit(next);
+    if (carried) setCapital(carried);
+    persist(async (s) => {
+      await s.saveAudit(next);
+      await s.saveLedger(entries);
+      if (carried) await s.saveCapital(carried);
+    });
+  }
+
+  function updateRulesHistory(next: RulesHistory) {
+    setRulesHistory(next);
+    persist((s) => s.saveRulesHistory(next));
+  }
+
+  // Tightening applies now; loosening waits out the delay of the rules in force
+  function fileRules(next: UserRules) {
+    const history = proposeRules(rulesHistory, next, Date.now());
+    updateRulesHistory(history);
+    setDraft(latestRules(history, Date.now()));
+  }
+
+  function cancelPendingRules() {
+    fileRules(effectiveVersion(rulesHistory, Date.now()).rules);
+  }
+
+  function addToLedger(override: OverrideRecord | undefined) {
+    const entry: LedgerEntry = {
+      id: crypto.randomUUID(),
+      ts: Date.now(),
+      stake: bet.stake,
+      ...(multiLeg ? { odds: bet.odds, price: bet.price, legs: bet.legs } : normalizeOdds(oddsFormat, oddsInput)),
+      group1_id: bet.group1_id,
+      group2_id: bet.group2_id,
+      groups: bet.groups,
+      verdict: decision.verdict,
+      reasons: decision.reasons,
+      override,
+      rules_version: rulesVersion.version
+    };
+    updateLedger([entry, ...ledger]);
+    if (decision.cooldown_triggered) updateCooldown(triggerCooldown(cooldown, rules, entry.ts));
+  }
+
+  function toggleMultiLeg(on: boolean) {
+    // Start from the single bet so switching over keeps what was typed
+    if (on && legs.length === 0) {
+      const first: LegDraft = { format: oddsFormat, input: oddsInput, group1, group2, groups: groupValues };
+      setLegs([first, { ...first, input: "" }]);
+    }
+    setMultiLeg(on);
+  }
+
+  function recordBlockedCommit() {
+    updateCooldown(recordCommitAttempt(cooldown, Date.now()));
+  }
+
+  // The result that takes the drawdown to its limit starts a cooldown right away
+  function realize(id: string, update: (e: LedgerEntry, now: number) => LedgerEntry) {
+    const now = Date.now();
+    const next = ledger.map((e) => (e.id === id ? update(e, now) : e));
+    const cd = cooldownOnRealized(cooldown, rules, ledger, next, capital, now);
+    if (cd !== cooldown) updateCooldown(cd);
+    updateLedger(next);
+  }
+
+  function settleEntry(id: string, outcome: Outcome, amount?: number) {
+    if (ledger.find((e) => e.id === id)?.settlement) return; // an outcome is recorded once
+    realize(id, (e, now) => settle(e, outcome, now, amount));
+  }
+  function closeEntry(id: string, stake: number, amount: number) {
+    realize(id, (e, now) => closePart(e, stake, amount, now));
+  }
+
+  // Ledger changes are stamped with the active profile's name
+  function stamp(why: string): AuditStamp {
+    return { at: Date.now(), by: profiles.profiles.find((p) => p.id === profiles.active)?.name ?? profiles.active, why };
+  }
+
+  function correctLedger(id: string, patch: EntryCorrection, why: string) {
+    const next = correctEntry(ledger, audit, id, patch, stamp(why));
+    updateAudited(next.ledger, next.audit);
+  }
+
+  function deleteFromLedger(id: string, why: string) {
+    const next = deleteEntry(ledger, audit, id, stamp(why));
+    updateAudited(next.ledger, next.audit);
+  }
+
+  function undoCommit() {
+    if (!undoable(ledger, Date.now())) return;
+    const next = undoLast(ledger, audit, stamp(""));
+    updateAudited(next.ledger, next.audit);
+  }
+
+  // Archived, not wiped; realized results are carried so a reset can't restore a lost bankroll
+  function resetLedger() {
+    const s = stamp(resetWhy.trim());
+    updateAudited([], archiveEntries(audit, ledger, "reset", s), trimLedger(ledger, 0, capital, s.at).capital);
+    setResetWhy("");
+  }
+
+  // Entries the import replaces stay on the record as corrections
+  function applyImport(entries: LedgerEntry[], importedRules?: UserRules) {
+    updateAudited(entries, recordReplacements(ledger, entries, audit, stamp("replaced by import")));
+    if (importedRules) fileRules(importedRules);
+  }
+
+  return {
+    ledger,
+    audit,
+    resetWhy,
+    setResetWhy,
+    rulesHistory,
+    draft,
+    setDraft,
+    capital,
+    stake,
+    setStake,
+    oddsFormat,
+    setOddsFormat,
+    oddsInput,
+    setOddsInput,
+    group1,
+    setGroup1,
+    group2,
+    setGroup2,
+    groupValues,
+    setGroupValues,
+    multiLeg,
+    legs,
+    setLegs,
+    behOverride,
+    setBehOverride,
+    cooldown,
+    rulesVersion,
+    rules,
+    storageError,
+    profiles,
+    updateProfiles,
+    lastCommit,
+    bankroll,
+    pnl,
+    locked,
+    exposures,
+    behavior,
+    decision,
+    checks,
+    withOpen,
+    stakeLimits,
+    updateCapital,
+    fileRules,
+    cancelPendingRules,
+    addToLedger,
+    toggleMultiLeg,
+    recordBlockedCommit,
+    settleEntry,
+    closeEntry,
+    correctLedger,
+    deleteFromLedger,
+    undoCommit,
+    resetLedger,
+    applyImport
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAPITAL, R, initialHistory, ledgerAnalytics, proposeRules, settle } from "..";
+import { H, MON, UTC_RULES, entry } from "./fixtures";
+
+const LEDGER = [
+  entry("d", MON + 7 * 24 * H + 9 * H, 10, { group2_id: "T2" }),                                        // next Monday 09:00
+  entry("c", MON + 24 * H + 21 * H, 40, { verdict: "HARD_WARN", reasons: [R.DAILY, R.TEAM], override: { tier: "HARD_WARN", justification: "x" } }),
+  entry("b", MON + 24 * H + 20 * H, 30, { verdict: "WARN", reasons: [R.DAILY] }),                           // Tuesday 20:00
+  settle(entry("a", MON + 9 * H, 100, { group1_id: "E2" }), "lost", MON + 10 * H)                           // Monday 09:00
+];
+
+describe("ledgerAnalytics", () => {
+  const now = MON + 7 * 24 * H + 12 * H;
+  const a = ledgerAnalytics(LEDGER, initialHistory(UTC_RULES), DEFAULT_CAPITAL, now);
+
+  it("charts staked against the cap per day and week, at the bankroll of the time", () => {
+    expect(a.daily).toHaveLength(8);
+    expect(a.daily.slice(0, 3)).toEqual([
+      { start: MON, staked: 100, cap: 60 },                 // 6% of 1000
+      { start: MON + 24 * H, staked: 70, cap: 54 },         // after the loss: 6% of 900
+      { start: MON + 48 * H, staked: 0, cap: 54 }
+    ]);
+    expect(a.weekly.map((w) => [w.start, w.staked, w.cap])).toEqual([[MON, 170, 200], [MON + 7 * 24 * H, 10, 180]]);
+  });
+
+  it("uses the caps in force when each window started", () => {
+    const tighter = proposeRules(initialHistory(UTC_RULES), { ...UTC_RULES, daily_pct: 5 }, MON + 12 * H);
+    expect(ledgerAnalytics(LEDGER, tighter, DEFAULT_CAPITAL, now).daily.slice(0, 2).map((d) => d.cap)).toEqual([60, 45]);
+  });
+
+  it("counts verdicts, overrides and reasons", () => {
+    expect(a.verdicts.map((w) => [w.counts, w.override_rate])).toEqual([
+      [{ ALLOW: 1, WARN: 1, HARD_WARN: 1, RED_ALERT: 0 }, 2 / 3],
+      [{ ALLOW: 1, WARN: 0, HARD_WARN: 0, RED_ALERT: 0 }, 0]
+    ]);
+    expect(a).toMatchObject({ bets: 4, overrides: 2, override_rate: 0.5 });
+    expect(a.reasons).toEqual([{ code: R.DAILY, count: 2 }, { code: R.TEAM, count: 1 }]);
+  });
+
+  it("ranks group concentration and buckets by hour of day", () => {
+    expect(a.group1.map((g) => [g.id, g.staked, g.share])).toEqual([["E2", 100, 100 / 180], ["E1", 80, 80 / 180]]);
+    expect(a.group2.map((g) => [g.id, g.bets])).toEqual([["T1", 3], ["T2", 1]]);
+    expect(a.hours[9]).toEqual({ hour: 9, bets: 2, staked: 110, overrides: 0 });
+    expect(a.hours[21]).toEqual({ hour: 21, bets: 1, staked: 40, overrides: 1 });
+  });
+
+  it("is empty without a ledger", () => {
+    expect(ledgerAnalytics([], initialHistory(UTC_RULES), DEFAULT_CAPITAL, now)).toMatchObject({ daily: [], weekly: [], verdicts: [], bets: 0, override_rate: 0 });
+  });
+});
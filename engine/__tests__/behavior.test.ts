@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BEHAVIOR, DEFAULT_RULES, R, analyzeBehavior, behaviorFor, behaviorHistory, evaluate_v1, median, settle } from "..";
+import type { LedgerEntry, ProposedBet } from "..";
+import { H, T as NOW, entry } from "./fixtures";
+
+const M = 60 * 1000;
+
+const ago = (ms: number, stake: number, extra: Partial<LedgerEntry> = {}): LedgerEntry => entry(`${ms}`, NOW - ms, stake, extra);
+const bet = (stake: number): ProposedBet => ({ stake, odds: -110, group1_id: "E1", group2_id: "T1" });
+
+describe("median", () => {
+  it("handles empty, odd and even lengths", () => {
+    expect(median([])).toBe(0);
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+});
+
+describe("analyzeBehavior", () => {
+  it("is quiet for an empty ledger", () => {
+    const a = analyzeBehavior([], DEFAULT_RULES, bet(500), NOW);
+    expect(a.state).toEqual({
+      stake_velocity_spike: false,
+      frequency_spike: false,
+      consecutive_overrides: 0,
+      cooldown_violations: 0,
+      cooldown_active: false,
+      loss_chasing: false,
+      revenge_betting: false,
+      loss_streak: 0
+    });
+  });
+
+  it("flags a stake above the multiple of the trailing median", () => {
+    const ledger = [ago(5 * H, 10), ago(6 * H, 20), ago(7 * H, 30)];
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(40), NOW).state.stake_velocity_spike).toBe(false);
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(41), NOW).state.stake_velocity_spike).toBe(true);
+  });
+
+  it("only looks back stake_spike_lookback bets", () => {
+    const ledger = [ago(1 * H, 100), ago(2 * H, 5), ago(3 * H, 5)];
+    const rules = { ...DEFAULT_RULES, stake_spike_lookback: 1 };
+    expect(analyzeBehavior(ledger, rules, bet(150), NOW).state.stake_velocity_spike).toBe(false);
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(150), NOW).state.stake_velocity_spike).toBe(true);
+  });
+
+  it("flags a burst of bets against a quiet baseline", () => {
+    const burst = [ago(10 * M, 10), ago(20 * M, 10)];
+    expect(analyzeBehavior(burst, DEFAULT_RULES, bet(10), NOW).state.frequency_spike).toBe(true);
+    expect(analyzeBehavior(burst.slice(1), DEFAULT_RULES, bet(10), NOW).state.frequency_spike).toBe(false);
+  });
+
+  it("does not flag a burst that matches a busy baseline", () => {
+    // 2 bets/hour for the past week
+    const busy = Array.from({ length: 7 * 24 * 2 }, (_, i) => ago(i * 30 * M + 5 * M, 10));
+    const a = analyzeBehavior(busy, DEFAULT_RULES, bet(10), NOW);
+    expect(a.recent_bets_1h).toBe(3);
+    expect(a.state.frequency_spike).toBe(false);
+  });
+
+  it("counts the unbroken run of overridden commits", () => {
+    const ledger = [ago(1 * H, 10, { verdict: "WARN" }), ago(2 * H, 10, { verdict: "RED_ALERT" }), ago(3 * H, 10), ago(4 * H, 10, { verdict: "WARN" })];
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(10), NOW).state.consecutive_overrides).toBe(2);
+  });
+
+  it("counts cooldown violations inside the history window", () => {
+    const cd = [R.CD_ACTIVE];
+    const ledger = [ago(1 * H, 10, { verdict: "RED_ALERT", reasons: cd }), ago(6 * 24 * H, 10, { verdict: "RED_ALERT", reasons: cd }), ago(8 * 24 * H, 10, { verdict: "RED_ALERT", reasons: cd })];
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(10), NOW).state.cooldown_violations).toBe(2);
+  });
+
+  it("ignores entries after `now`", () => {
+    const ledger = [ago(-1 * H, 10, { verdict: "WARN" })];
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(10), NOW).state.consecutive_overrides).toBe(0);
+  });
+});
+
+describe("tilt flags", () => {
+  const lost = (ms: number, stake: number, group2_id = "T1") => settle(entry(`l${ms}`, NOW - ms - H, stake, { group2_id }), "lost", NOW - ms);
+  const won = (ms: number, stake: number) => settle(entry(`w${ms}`, NOW - ms - H, stake), "won", NOW - ms);
+
+  it("flags a stake raised past the multiple right after a loss", () => {
+    const ledger = [lost(1 * H, 20, "T9")];
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(30), NOW)).toMatchObject({ last_loss_stake: 20, state: { loss_chasing: false } });
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(31), NOW).state.loss_chasing).toBe(true);
+    // a later win, or a loss outside the tilt window, isn't chased
+    expect(analyzeBehavior([...ledger, won(30 * M, 10)], DEFAULT_RULES, bet(31), NOW).state.loss_chasing).toBe(false);
+    expect(analyzeBehavior([lost(25 * H, 20, "T9")], DEFAULT_RULES, bet(31), NOW).state.loss_chasing).toBe(false);
+  });
+
+  it("flags going back on a group2 that just lost and counts the loss streak", () => {
+    const ledger = [lost(1 * H, 10, "T9"), lost(2 * H, 10), won(3 * H, 10), lost(4 * H, 10)];
+    const a = analyzeBehavior(ledger, DEFAULT_RULES, bet(10), NOW).state;
+    expect(a).toMatchObject({ revenge_betting: true, loss_streak: 2 });
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, { ...bet(10), group2_id: "T2" }, NOW).state.revenge_betting).toBe(false);
+    // unsettled as of now
+    expect(analyzeBehavior(ledger, DEFAULT_RULES, bet(10), NOW - 90 * M).state.loss_streak).toBe(1);
+  });
+
+  it("reads every stake's flags from one history scan", () => {
+    const ledger = [lost(1 * H, 20), won(3 * H, 10), ago(10 * M, 15, { verdict: "WARN" })];
+    const scan = behaviorHistory(ledger, DEFAULT_RULES, NOW);
+    for (const at of [bet(5), bet(31), bet(500), { ...bet(31), group2_id: "T2" }]) {
+      expect(behaviorFor(scan, DEFAULT_RULES, at)).toEqual(analyzeBehavior(ledger, DEFAULT_RULES, at, NOW));
+    }
+  });
+
+  it("amplifies like a stake spike", () => {
+    const exp = { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 };
+    const d = evaluate_v1(1000, DEFAULT_RULES, bet(30), exp, { ...DEFAULT_BEHAVIOR, loss_streak: 3 });
+    expect(d).toMatchObject({ verdict: "HARD_WARN", reasons: [R.UNIT, R.LOSS_STREAK] });
+    expect(d.trace!.decided_by).toBe("violation_spike");
+  });
+});
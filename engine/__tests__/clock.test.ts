@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LOCAL_TIME, MS_1D, MS_7D, computeExposures, isValidTimeZone, resolveTimeZone, startOfDay, startOfWeek, windowsAt } from "..";
+import type { LedgerEntry, TimeModel } from "..";
+
+const utc = (iso: string) => Date.parse(iso);
+const model = (patch: Partial<TimeModel>): TimeModel => ({ ...LOCAL_TIME, ...patch });
+
+describe("clock", () => {
+  it("starts the day at the rollover hour in the configured zone", () => {
+    const ny = model({ timezone: "America/New_York", day_rollover_hour: 5 });
+    // 00:30 EDT still belongs to the previous day
+    expect(startOfDay(utc("2024-05-15T04:30:00Z"), ny)).toBe(utc("2024-05-14T09:00:00Z"));
+    expect(startOfDay(utc("2024-05-15T09:00:00Z"), ny)).toBe(utc("2024-05-15T09:00:00Z"));
+    expect(startOfDay(utc("2024-05-15T04:30:00Z"), model({ timezone: "UTC" }))).toBe(utc("2024-05-15T00:00:00Z"));
+  });
+
+  it("follows DST transitions", () => {
+    const ny = model({ timezone: "America/New_York" });
+    expect(startOfDay(utc("2024-03-10T12:00:00Z"), ny)).toBe(utc("2024-03-10T05:00:00Z")); // midnight EST
+    expect(startOfDay(utc("2024-03-11T12:00:00Z"), ny)).toBe(utc("2024-03-11T04:00:00Z")); // midnight EDT
+  });
+
+  it("starts the week on the configured day", () => {
+    const t = utc("2024-05-15T12:00:00Z"); // Wednesday
+    expect(startOfWeek(t, model({ timezone: "UTC" }))).toBe(utc("2024-05-13T00:00:00Z"));
+    expect(startOfWeek(t, model({ timezone: "UTC", week_start_day: 0 }))).toBe(utc("2024-05-12T00:00:00Z"));
+    expect(startOfWeek(t, model({ timezone: "UTC", week_start_day: 3 }))).toBe(utc("2024-05-15T00:00:00Z"));
+    // Monday 03:00 with a 05:00 rollover is still last week's Sunday
+    expect(startOfWeek(utc("2024-05-13T03:00:00Z"), model({ timezone: "UTC", day_rollover_hour: 5 }))).toBe(utc("2024-05-06T05:00:00Z"));
+  });
+
+  it("uses trailing windows in rolling mode", () => {
+    const t = utc("2024-05-15T12:00:00Z");
+    expect(windowsAt(model({ window_mode: "rolling", timezone: "UTC" }), t)).toEqual({
+      day_start: t - MS_1D,
+      week_start: t - MS_7D,
+      rolling_7d_start: t - MS_7D
+    });
+  });
+
+  it("falls back to the device zone for unknown names", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+    expect(isValidTimeZone("")).toBe(true);
+    expect(resolveTimeZone("Mars/Olympus_Mons")).toBe(resolveTimeZone(""));
+  });
+});
+
+describe("computeExposures time model", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps a late-night bet in the same day with a rollover hour", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(utc("2024-05-15T00:30:00Z"));
+    const ledger: LedgerEntry[] = [
+      { id: "a", ts: utc("2024-05-14T23:00:00Z"), stake: 10, odds: -110, group1_id: "E1", group2_id: "T1", verdict: "ALLOW", reasons: [] }
+    ];
+    expect(computeExposures(ledger, "E1", "T1", model({ timezone: "UTC" })).daily_staked).toBe(0);
+    expect(computeExposures(ledger, "E1", "T1", model({ timezone: "UTC", day_rollover_hour: 5 })).daily_staked).toBe(10);
+    expect(computeExposures(ledger, "E1", "T1", model({ timezone: "UTC", window_mode: "rolling" })).bets_today).toBe(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RULES,
+  NO_COOLDOWN,
+  analyzeBehavior,
+  cooldownDurationMs,
+  cooldownOnCommit,
+  cooldownRemainingMs,
+  cooldownTransitionIssues,
+  isCooldownActive,
+  recordCommitAttempt,
+  triggerCooldown
+} from "..";
+
+const M = 60 * 1000;
+const H = 60 * M;
+const D = 24 * H;
+const T0 = Date.UTC(2024, 4, 15, 12);
+const bet = { stake: 10, odds: -110, group1_id: "E1", group2_id: "T1" };
+
+describe("cooldown", () => {
+  it("starts at the base length and expires on its own", () => {
+    const s = triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0);
+    expect(s.trigger_count).toBe(1);
+    expect(isCooldownActive(s, T0 + 59 * M)).toBe(true);
+    expect(cooldownRemainingMs(s, T0 + 59 * M)).toBe(M);
+    expect(isCooldownActive(s, T0 + 60 * M)).toBe(false);
+  });
+
+  it("escalates repeat triggers inside the window and caps the length", () => {
+    expect([1, 2, 3, 4].map((n) => cooldownDurationMs(DEFAULT_RULES, n) / M)).toEqual([60, 120, 240, 480]);
+    expect(cooldownDurationMs(DEFAULT_RULES, 20)).toBe(72 * H);
+
+    const first = triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0);
+    const second = triggerCooldown(first, DEFAULT_RULES, T0 + 2 * D);
+    expect(second.trigger_count).toBe(2);
+    expect(second.until).toBe(T0 + 2 * D + 120 * M);
+  });
+
+  it("restarts the run after the repeat window", () => {
+    const first = triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0);
+    const later = triggerCooldown(first, DEFAULT_RULES, T0 + 8 * D);
+    expect(later.trigger_count).toBe(1);
+    expect(later.until).toBe(T0 + 8 * D + 60 * M);
+  });
+
+  it("records commit attempts only while active", () => {
+    const s = triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0);
+    const attempted = recordCommitAttempt(s, T0 + 5 * M);
+    expect(attempted.violations).toEqual([T0 + 5 * M]);
+    expect(recordCommitAttempt(s, T0 + 2 * H)).toBe(s);
+  });
+
+  it("refuses commits while active and starts one on a RED_ALERT commit", () => {
+    const idle = cooldownOnCommit(NO_COOLDOWN, DEFAULT_RULES, "HARD_WARN", T0);
+    expect(idle).toEqual({ state: NO_COOLDOWN, blocked: false });
+    const red = cooldownOnCommit(NO_COOLDOWN, DEFAULT_RULES, "RED_ALERT", T0);
+    expect(red).toMatchObject({ blocked: false, state: { started_at: T0, trigger_count: 1 } });
+    expect(cooldownOnCommit(red.state, DEFAULT_RULES, "ALLOW", T0 + M)).toEqual({ state: { ...red.state, violations: [T0 + M] }, blocked: true });
+  });
+
+  it("only lets a stored cooldown move the way the state machine does", () => {
+    const active = recordCommitAttempt(triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0), T0 + M);
+    const paths = (next: typeof active, now = T0 + 2 * M) => cooldownTransitionIssues(active, next, now).map((i) => i.path);
+    expect(paths(recordCommitAttempt(active, T0 + 2 * M))).toEqual([]);
+    expect(paths(triggerCooldown(active, DEFAULT_RULES, T0 + 2 * M))).toEqual([]);
+    expect(paths({ ...active, until: 0 })).toEqual(["until"]);
+    expect(paths(NO_COOLDOWN)).toEqual(["violations", "until", "started_at"]);
+    expect(paths({ ...active, trigger_count: 0 })).toEqual(["trigger_count"]);
+    // once it has run out only the recorded attempts are fixed
+    expect(paths({ ...active, until: 0, trigger_count: 0 }, active.until)).toEqual([]);
+    expect(paths({ ...active, violations: [] }, active.until)).toEqual(["violations"]);
+  });
+
+  it("feeds cooldown_active and cooldown_violations into the derived behavior", () => {
+    const s = recordCommitAttempt(triggerCooldown(NO_COOLDOWN, DEFAULT_RULES, T0), T0 + M);
+    const during = analyzeBehavior([], DEFAULT_RULES, bet, T0 + 2 * M, s).state;
+    expect(during.cooldown_active).toBe(true);
+    expect(during.cooldown_violations).toBe(1);
+
+    const after = analyzeBehavior([], DEFAULT_RULES, bet, T0 + 2 * H, s).state;
+    expect(after.cooldown_active).toBe(false);
+    expect(after.cooldown_violations).toBe(1);
+  });
+});
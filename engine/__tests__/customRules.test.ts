@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_BEHAVIOR, evaluate_v1, loosenedFields, parseCustomRules, positionExposures, settle } from "..";
+import type { CustomRule, Exposures, LedgerEntry, ProposedBet, UserRules } from "..";
+import { H, T as NOW, UTC_RULES, entry } from "./fixtures";
+
+const LONGSHOTS: CustomRule = {
+  code: "LONGSHOTS_PER_WEEK",
+  severity: "violation",
+  when: [{ field: "odds", op: ">", value: 200 }],
+  measure: { agg: "count", window: "week", where: [{ field: "odds", op: ">", value: 200 }] },
+  threshold: 3
+};
+const LIVE: CustomRule = {
+  code: "LIVE_STAKE",
+  severity: "gate",
+  when: [{ field: "groups.market", op: "==", value: "live" }],
+  measure: { agg: "stake" },
+  threshold: 1,
+  unit: "pct_bankroll"
+};
+const CHASING: CustomRule = {
+  code: "CHASING_GROUP2_LOSS",
+  severity: "flag",
+  measure: { agg: "count", window: "day", where: [{ field: "outcome", op: "==", value: "lost" }], match: ["group2_id"] },
+  threshold: 0
+};
+
+const rules: UserRules = {
+  ...UTC_RULES,
+  dimensions: [{ key: "market", label: "Market", window: "day", cap_pct: 100 }],
+  custom_rules: [LONGSHOTS, LIVE, CHASING]
+};
+
+const bet = (patch: Partial<ProposedBet> = {}): ProposedBet => ({ stake: 10, odds: -110, group1_id: "E1", group2_id: "T1", ...patch });
+const EXP: Exposures = { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 };
+
+describe("custom rules", () => {
+  it("joins the pipeline by severity once the measure exceeds the threshold", () => {
+    const exp = { ...EXP, custom: { LONGSHOTS_PER_WEEK: 3, CHASING_GROUP2_LOSS: 0 } };
+    const longshot = evaluate_v1(1000, rules, bet({ odds: 250 }), exp, DEFAULT_BEHAVIOR);
+    expect(longshot.reasons).toEqual(["LONGSHOTS_PER_WEEK", "HIGH_RISK_ODDS_GATE"]);
+    expect(longshot.verdict).toBe("WARN");
+    // `when` doesn't match: the rule doesn't apply
+    expect(evaluate_v1(1000, rules, bet(), exp, DEFAULT_BEHAVIOR).reasons).toEqual([]);
+    expect(evaluate_v1(1000, rules, bet({ stake: 15, groups: { market: "live" } }), exp, DEFAULT_BEHAVIOR)).toMatchObject({
+      verdict: "WARN",
+      reasons: ["LIVE_STAKE"]
+    });
+  });
+
+  it("reports parse and validation errors with paths", () => {
+    expect(parseCustomRules("[{", rules).issues[0].message).toMatch(/^invalid JSON/);
+    expect(parseCustomRules("{}", rules).issues).toEqual([{ path: "", message: "expected an array of rules" }]);
+    const bad = [
+      { ...LONGSHOTS, code: "DAILY_EXPOSURE_CAP_EXCEEDED" },
+      { ...LIVE, when: [{ field: "groups.sport", op: "==", value: "nba" }] },
+      { ...CHASING, measure: { agg: "count", where: [{ field: "group2_id", op: ">", value: "T" }] } }
+    ];
+    expect(parseCustomRules(JSON.stringify(bad), rules).issues.map((x) => x.path)).toEqual([
+      "custom_rules[0].code",
+      "custom_rules[1].when[0].field",
+      "custom_rules[2].measure.where[0].op"
+    ]);
+    expect(parseCustomRules(JSON.stringify(rules.custom_rules), rules)).toEqual({ rules: rules.custom_rules, issues: [] });
+  });
+
+  it("treats a raised threshold or a removed rule as loosening", () => {
+    expect(loosenedFields(rules, { ...rules, custom_rules: [{ ...LONGSHOTS, threshold: 2 }, LIVE, CHASING] })).toEqual([]);
+    expect(loosenedFields(rules, { ...rules, custom_rules: [{ ...LONGSHOTS, threshold: 4 }, LIVE, CHASING] })).toEqual(["custom_rules"]);
+    expect(loosenedFields(rules, { ...rules, custom_rules: [LONGSHOTS, LIVE] })).toEqual(["custom_rules"]);
+  });
+});
+
+describe("custom rule aggregates", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts windowed ledger entries matching the bet's fields", () => {
+    const lost = (ts: number, group2_id: string, odds = -110): LedgerEntry => settle(entry(`${ts}-${group2_id}`, ts, 10, { odds, group2_id }), "lost", ts + H);
+    const ledger = [lost(NOW - 2 * H, "T1"), lost(NOW - 2 * H, "T2", 300), lost(NOW - 30 * H, "T1", 250)];
+    const exp = positionExposures(ledger, bet(), rules);
+    expect(exp.custom).toEqual({ LONGSHOTS_PER_WEEK: 2, CHASING_GROUP2_LOSS: 1 });
+    expect(evaluate_v1(1000, rules, bet(), exp, DEFAULT_BEHAVIOR)).toMatchObject({ verdict: "ALLOW", reasons: ["CHASING_GROUP2_LOSS"] });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_BEHAVIOR,
+  dimensionIssues,
+  dimensionKey,
+  dimensionUsage,
+  evaluate_v1,
+  loosenedFields,
+  positionExposures,
+  R
+} from "..";
+import type { Exposures, ProposedBet, UserRules } from "..";
+import { H, T as NOW, UTC_RULES, entry } from "./fixtures";
+
+const rules: UserRules = {
+  ...UTC_RULES,
+  dimensions: [{ key: "league", label: "League", window: "week", cap_pct: 5 }],
+  cap_overrides: [{ dimension: "group2", value: "TEAM-LAL", cap_pct: 2 }]
+};
+
+const bet = (stake: number, patch: Partial<ProposedBet> = {}): ProposedBet => ({
+  stake,
+  odds: -110,
+  group1_id: "E1",
+  group2_id: "TEAM-LAL",
+  groups: { league: "NBA" },
+  ...patch
+});
+
+const NO_EXP: Exposures = { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 };
+
+describe("grouping dimensions", () => {
+  it("applies a per-value override and a user dimension with its own reason code", () => {
+    const exp: Exposures = { ...NO_EXP, by_dimension: { group1: { E1: 0 }, group2: { "TEAM-LAL": 15 }, league: { NBA: 45 } } };
+    const usage = dimensionUsage(1000, rules, bet(10), exp);
+    expect(usage.map((u) => [u.dimension.key, u.cap, u.overridden])).toEqual([
+      ["group1", 40, false],
+      ["group2", 20, true],
+      ["league", 50, false]
+    ]);
+    expect(evaluate_v1(1000, rules, bet(10), exp, DEFAULT_BEHAVIOR).reasons).toEqual([
+      R.TEAM,
+      "SAME_LEAGUE_CONCENTRATION_CAP_EXCEEDED"
+    ]);
+    // no value in the dimension: not capped by it
+    expect(dimensionUsage(1000, rules, bet(10, { groups: undefined }), exp).map((u) => u.dimension.key)).toEqual(["group1", "group2"]);
+  });
+
+  it("validates keys and overrides", () => {
+    expect(dimensionKey("Book maker", rules)).toBe("book_maker");
+    expect(dimensionKey("League", rules)).toBe("league_2");
+    const bad: UserRules = {
+      ...rules,
+      dimensions: [...rules.dimensions, { key: "team", label: "Team", window: "day", cap_pct: 1 }],
+      cap_overrides: [{ dimension: "sport", value: "NFL", cap_pct: 1 }]
+    };
+    expect(dimensionIssues(bad).map((x) => x.path)).toEqual(["dimensions[1].key", "cap_overrides[0].dimension"]);
+    expect(dimensionIssues(rules)).toEqual([]);
+  });
+
+  it("treats raised or removed caps as loosening and new dimensions as tightening", () => {
+    const added = { ...rules, dimensions: [...rules.dimensions, { key: "sport", label: "Sport", window: "day" as const, cap_pct: 3 }] };
+    expect(loosenedFields(rules, added)).toEqual([]);
+    expect(loosenedFields(added, rules)).toEqual(["dimensions"]);
+    expect(loosenedFields(rules, { ...rules, cap_overrides: [] })).toEqual(["cap_overrides"]);
+    expect(loosenedFields(rules, { ...rules, cap_overrides: [{ dimension: "group2", value: "TEAM-LAL", cap_pct: 1 }] })).toEqual([]);
+    expect(loosenedFields(rules, JSON.parse(JSON.stringify(rules)))).toEqual([]);
+  });
+});
+
+describe("positionExposures", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sums each dimension value over its own window", () => {
+    const ledger = [
+      entry("a", NOW - H, 10, { group2_id: "TEAM-LAL", groups: { league: "NBA" } }),
+      entry("b", NOW - 30 * H, 20, { group2_id: "TEAM-LAL", groups: { league: "NBA" } }), // Tuesday: this week, not today
+      entry("c", NOW - H, 5, { group2_id: "TEAM-BOS", groups: { league: "NHL" } })
+    ];
+    expect(positionExposures(ledger, bet(1), rules).by_dimension).toEqual({
+      group1: { E1: 15 },
+      group2: { "TEAM-LAL": 30 },
+      league: { NBA: 30 }
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BEHAVIOR,
+  DEFAULT_RULES,
+  R,
+  STRICT_POLICY,
+  V1_POLICY,
+  applyUmbrellaCap,
+  evaluate_v1,
+  loosenedFields,
+  parsePolicy,
+  policyIssues
+} from "..";
+import type { BehavioralState, DecisionResult, Exposures, ProposedBet, UserRules } from "..";
+import vectors from "./golden.json";
+
+type GoldenVector = {
+  name: string;
+  input: { bankroll: number; rules: UserRules; bet: ProposedBet; exp: Exposures; beh: BehavioralState };
+  expected: DecisionResult;
+};
+
+const bet: ProposedBet = { stake: 30, odds: -110, group1_id: "E1", group2_id: "T1" };
+const EXP: Exposures = { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 };
+const SPIKE: BehavioralState = { ...DEFAULT_BEHAVIOR, stake_velocity_spike: true };
+
+describe("escalation policy", () => {
+  it("reproduces every golden vector with the v1 preset spelled out", () => {
+    for (const v of vectors as GoldenVector[]) {
+      const { bankroll, rules, bet, exp, beh } = v.input;
+      const { trace, ...decision } = evaluate_v1(bankroll, { ...rules, escalation: V1_POLICY }, bet, exp, beh);
+      expect(decision, v.name).toEqual(v.expected);
+    }
+  });
+
+  it("maps counts and severities through the configured ladder", () => {
+    // one violation (unit): WARN under v1, HARD_WARN under the strict preset
+    expect(evaluate_v1(1000, DEFAULT_RULES, bet, EXP, DEFAULT_BEHAVIOR).verdict).toBe("WARN");
+    expect(evaluate_v1(1000, { ...DEFAULT_RULES, escalation: STRICT_POLICY }, bet, EXP, DEFAULT_BEHAVIOR).verdict).toBe("HARD_WARN");
+
+    // the odds gate reclassified as a violation counts towards the violation tiers and moves in the reasons
+    const rules = { ...DEFAULT_RULES, escalation: { ...V1_POLICY, severities: { [R.ODDS]: "violation" as const } } };
+    expect(evaluate_v1(1000, rules, { ...bet, odds: 300 }, EXP, DEFAULT_BEHAVIOR)).toMatchObject({
+      verdict: "HARD_WARN",
+      reasons: [R.UNIT, R.ODDS]
+    });
+  });
+
+  it("names the step that produced the verdict", () => {
+    const rules = DEFAULT_RULES;
+    expect(evaluate_v1(1000, rules, bet, EXP, SPIKE).trace).toMatchObject({
+      base: "WARN",
+      decided_by: "violation_spike",
+      amplifications: [{ id: "violation_spike", from: "WARN", to: "HARD_WARN" }]
+    });
+
+    const weekly = evaluate_v1(1000, rules, bet, { ...EXP, weekly_staked: 190 }, SPIKE);
+    expect(weekly.verdict).toBe("RED_ALERT");
+    expect(weekly.trace).toMatchObject({
+      decided_by: "weekly_cap",
+      decided_by_label: "Weekly cap exceeded",
+      amplifications: [{ id: "weekly_cap", to: "RED_ALERT" }, { id: "violation_spike", from: "RED_ALERT", to: "RED_ALERT" }]
+    });
+
+    const clean = evaluate_v1(1000, rules, { ...bet, stake: 10 }, EXP, DEFAULT_BEHAVIOR);
+    expect(clean.trace).toMatchObject({ decided_by: "base", decided_by_label: "Base tier (ALLOW)" });
+    const umbrella = applyUmbrellaCap(clean, 10, 95, 100);
+    expect(umbrella.verdict).toBe("RED_ALERT");
+    expect(umbrella.trace).toMatchObject({ decided_by: "umbrella_cap", amplifications: [{ id: "umbrella_cap", from: "ALLOW", to: "RED_ALERT" }] });
+  });
+
+  it("validates policies and treats any change as loosening", () => {
+    const bad = {
+      ...V1_POLICY,
+      base: [{ verdict: "WARN" as const }],
+      escalations: [V1_POLICY.escalations[0], { ...V1_POLICY.escalations[1], id: "weekly_cap", verdict: undefined }]
+    };
+    expect(policyIssues({ escalation: bad }).map((x) => x.path)).toEqual([
+      "escalation.base[0]",
+      "escalation.escalations[1].id",
+      "escalation.escalations[1].verdict"
+    ]);
+    expect(parsePolicy("{").issues[0].message).toMatch(/^invalid JSON/);
+    expect(parsePolicy(JSON.stringify(STRICT_POLICY))).toEqual({ policy: STRICT_POLICY, issues: [] });
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, escalation: STRICT_POLICY })).toEqual(["escalation"]);
+    expect(loosenedFields(DEFAULT_RULES, JSON.parse(JSON.stringify(DEFAULT_RULES)))).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { computeExposures, startOfISOWeekLocal, startOfLocalDay } from "..";
+import type { LedgerEntry } from "..";
+import { H, T as NOW, UTC_RULES, entry } from "./fixtures";
+
+describe("time boundaries", () => {
+  it("snaps to local midnight and Monday", () => {
+    // Wednesday 2024-05-15 12:00 in the device timezone
+    const local = new Date(2024, 4, 15, 12);
+    expect(startOfLocalDay(local)).toBe(new Date(2024, 4, 15).getTime());
+    expect(startOfISOWeekLocal(local)).toBe(new Date(2024, 4, 13).getTime());
+    expect(startOfISOWeekLocal(new Date(2024, 4, 19, 23))).toBe(new Date(2024, 4, 13).getTime());
+  });
+});
+
+describe("computeExposures", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("buckets stakes into day, ISO week, group1 and rolling 7d group2", () => {
+    const ledger = [
+      entry("a", NOW - 1 * H, 10),                                       // today, same groups
+      entry("b", NOW - 2 * H, 5, { group1_id: "E2", group2_id: "T2" }),  // today, other groups
+      entry("c", NOW - 30 * H, 20),                                      // Tuesday: week + 7d
+      entry("d", NOW - 6 * 24 * H, 40),                                  // last Thursday: 7d only
+      entry("e", NOW - 8 * 24 * H, 80)                                   // outside every window
+    ];
+    expect(computeExposures(ledger, "E1", "T1", UTC_RULES)).toEqual({
+      daily_staked: 15,
+      weekly_staked: 35,
+      same_group1_staked: 10,
+      same_group2_7d_staked: 70,
+      bets_today: 2
+    });
+  });
+
+  it("returns zeros for an empty ledger", () => {
+    expect(computeExposures([], "E1", "T1", UTC_RULES)).toEqual({
+      daily_staked: 0,
+      weekly_staked: 0,
+      same_group1_staked: 0,
+      same_group2_7d_staked: 0,
+      bets_today: 0
+    });
+  });
+
+  it("attributes a multi-leg entry to every group its legs touch and reports the most exposed group", () => {
+    const parlay: LedgerEntry = entry("p", NOW - H, 30, {
+      legs: [
+        { odds: -110, group1_id: "E1", group2_id: "T1" },
+        { odds: -110, group1_id: "E2", group2_id: "T1" },
+        { odds: 120, group1_id: "E3", group2_id: "T3" }
+      ]
+    });
+    const ledger = [parlay, entry("s", NOW - H, 5, { group1_id: "E2", group2_id: "T2" })];
+
+    expect(computeExposures(ledger, "E3", "T3", UTC_RULES)).toMatchObject({ same_group1_staked: 30, same_group2_7d_staked: 30 });
+    // counted once per entry even when two legs share a group
+    expect(computeExposures(ledger, "E9", "T1", UTC_RULES).same_group2_7d_staked).toBe(30);
+    expect(computeExposures(ledger, ["E1", "E2"], ["T2", "T9"], UTC_RULES)).toMatchObject({ same_group1_staked: 35, same_group2_7d_staked: 5 });
+  });
+
+  it("takes windows as of an earlier time and ignores later entries", () => {
+    const ledger = [entry("a", NOW - 1 * H, 10), entry("b", NOW - 30 * H, 20), entry("c", NOW - 6 * 24 * H, 40)];
+    // as of Tuesday 05:00 the Tuesday and Wednesday entries haven't happened yet
+    expect(computeExposures(ledger, "E1", "T1", UTC_RULES, NOW - 31 * H)).toEqual({
+      daily_staked: 0,
+      weekly_staked: 0,
+      same_group1_staked: 0,
+      same_group2_7d_staked: 40,
+      bets_today: 0
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { DEFAULT_RULES } from "..";
+import type { LedgerEntry, UserRules } from "..";
+
+/** ---------- Shared test fixtures ---------- */
+export const H = 60 * 60 * 1000;
+export const D = 24 * H;
+
+// Wednesday 2024-05-15 12:00 UTC; tests that read day / week windows pair it with UTC_RULES
+export const T = Date.UTC(2024, 4, 15, 12);
+// Monday 2024-05-13 00:00 UTC
+export const MON = Date.UTC(2024, 4, 13);
+
+/** DEFAULT_RULES with windows in UTC, so calendar tests don't depend on the device timezone. */
+export const UTC_RULES: UserRules = { ...DEFAULT_RULES, timezone: "UTC" };
+
+/** A committed ALLOW at -110 on E1 / T1; `extra` overrides any field. */
+export function entry(id: string, ts: number, stake = 10, extra: Partial<LedgerEntry> = {}): LedgerEntry {
+  return { id, ts, stake, odds: -110, group1_id: "E1", group2_id: "T1", verdict: "ALLOW", reasons: [], ...extra };
+}
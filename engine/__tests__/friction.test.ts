@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, OVERRIDE_PHRASE, frictionOutstanding, frictionStep, overrideIssues, overrideRecord } from "..";
+
+const idle = { acknowledged: false, justification: "", waited_ms: 0, confirmation: "" };
+const reason = "Line moved; sized down from plan already.";
+const done = { acknowledged: true, justification: reason, waited_ms: 10_000, confirmation: OVERRIDE_PHRASE };
+
+describe("friction", () => {
+  it("maps each tier to its step", () => {
+    expect(["ALLOW", "WARN", "HARD_WARN", "RED_ALERT"].map((v) => frictionStep(v as never))).toEqual([
+      "NONE",
+      "ACKNOWLEDGE",
+      "JUSTIFY_AND_WAIT",
+      "OVERRIDE"
+    ]);
+  });
+
+  it("lets ALLOW through untouched", () => {
+    expect(frictionOutstanding("ALLOW", DEFAULT_RULES, idle)).toEqual([]);
+    expect(overrideRecord("ALLOW", done)).toBeUndefined();
+  });
+
+  it("requires acknowledgment for WARN", () => {
+    expect(frictionOutstanding("WARN", DEFAULT_RULES, idle)).toEqual(["acknowledge the warning"]);
+    expect(frictionOutstanding("WARN", DEFAULT_RULES, { ...idle, acknowledged: true })).toEqual([]);
+    expect(overrideRecord("WARN", done)).toEqual({ tier: "WARN", justification: "" });
+  });
+
+  it("requires justification and the countdown for HARD_WARN", () => {
+    expect(frictionOutstanding("HARD_WARN", DEFAULT_RULES, { ...idle, justification: "tilt", waited_ms: 2_500 })).toEqual([
+      "justification (4/20 chars)",
+      "wait 8s"
+    ]);
+    expect(frictionOutstanding("HARD_WARN", DEFAULT_RULES, { ...done, confirmation: "" })).toEqual([]);
+  });
+
+  it("blocks RED_ALERT until the override phrase is typed", () => {
+    expect(frictionOutstanding("RED_ALERT", DEFAULT_RULES, { ...done, confirmation: "override" })).toEqual([`type ${OVERRIDE_PHRASE}`]);
+    expect(frictionOutstanding("RED_ALERT", DEFAULT_RULES, done)).toEqual([]);
+    expect(overrideRecord("RED_ALERT", done)).toEqual({ tier: "RED_ALERT", justification: reason });
+  });
+
+  it("checks committed override records", () => {
+    expect(overrideIssues("ALLOW", undefined)).toEqual([]);
+    expect(overrideIssues("WARN", undefined)).toEqual([{ path: "override", message: "is required to commit a WARN verdict" }]);
+    expect(overrideIssues("WARN", { tier: "WARN", justification: "" })).toEqual([]);
+    expect(overrideIssues("RED_ALERT", { tier: "HARD_WARN", justification: " " })).toEqual([
+      { path: "override.tier", message: "must match verdict RED_ALERT" },
+      { path: "override.justification", message: "is required to override RED_ALERT" }
+    ]);
+  });
+});
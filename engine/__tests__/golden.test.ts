@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { evaluate_v1, validate } from "..";
+import type { BehavioralState, DecisionResult, Exposures, ProposedBet, UserRules } from "..";
+import vectors from "./golden.json";
+
+type GoldenVector = {
+  name: string;
+  input: { bankroll: number; rules: UserRules; bet: ProposedBet; exp: Exposures; beh: BehavioralState };
+  expected: DecisionResult;
+};
+
+describe("evaluate_v1 golden vectors", () => {
+  for (const v of vectors as GoldenVector[]) {
+    it(v.name, () => {
+      const { bankroll, rules, bet, exp, beh } = v.input;
+      const { trace, ...decision } = evaluate_v1(bankroll, rules, bet, exp, beh);
+      expect(decision).toEqual(v.expected);
+      expect(validate("DecisionTrace", trace)).toEqual([]);
+    });
+  }
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_AUDIT,
+  R,
+  UNDO_WINDOW_MS,
+  archiveEntries,
+  auditTransitionIssues,
+  closePart,
+  correctEntry,
+  correctionIssues,
+  deleteEntry,
+  entryHistory,
+  filterLedger,
+  ledgerTransitionIssues,
+  realizedChangeIssues,
+  recordReplacements,
+  settle,
+  sortLedger,
+  undoLast,
+  undoable
+} from "..";
+import type { LedgerEntry } from "..";
+import { H, T, entry } from "./fixtures";
+
+const by = "Main";
+
+describe("corrections and deletions", () => {
+  const ledger = [entry("b", T - H, 20), entry("a", T - 2 * H)];
+
+  it("keep the entry as it was in a tombstone", () => {
+    const corrected = correctEntry(ledger, EMPTY_AUDIT, "a", { stake: 15, group2_id: "T2" }, { at: T, by, why: "typo" });
+    expect(corrected.ledger.map((e) => [e.id, e.stake, e.group2_id])).toEqual([["b", 20, "T1"], ["a", 15, "T2"]]);
+    expect(corrected.audit.tombstones).toEqual([{ at: T, by, why: "typo", action: "correct", before: ledger[1], after: corrected.ledger[1] }]);
+
+    const deleted = deleteEntry(corrected.ledger, corrected.audit, "a", { at: T + 1, by, why: "duplicate" });
+    expect(deleted.ledger.map((e) => e.id)).toEqual(["b"]);
+    expect(entryHistory(deleted.audit, "a").map((t) => [t.action, t.before.stake])).toEqual([["correct", 10], ["delete", 15]]);
+  });
+
+  it("require a reason and valid values", () => {
+    expect(() => deleteEntry(ledger, EMPTY_AUDIT, "a", { at: T, by, why: " " })).toThrow();
+    expect(() => correctEntry(ledger, EMPTY_AUDIT, "zz", { stake: 5 }, { at: T, by, why: "x" })).toThrow();
+    const parlay = closePart(entry("p", T, 10, { legs: [] }), 4, 5, T);
+    expect(correctionIssues({ ...parlay, legs: [{ odds: 100, group1_id: "E1", group2_id: "T1" }] }, { stake: 3, odds: 150, group1_id: "" }, "").map((i) => i.path)).toEqual([
+      "why",
+      "stake",
+      "odds",
+      "group1_id"
+    ]);
+    expect(correctionIssues(ledger[0], { odds: 0, price: 0 }, "x").map((i) => i.path)).toEqual(["odds"]);
+  });
+
+  it("leave the stake, odds and presence of a realized entry alone", () => {
+    const lost = settle(entry("a", T - 2 * H, 200), "lost", T);
+    expect(correctionIssues(lost, { stake: 1, odds: 150, group2_id: "T2" }, "x").map((i) => i.path)).toEqual(["stake", "odds"]);
+    expect(correctEntry([lost], EMPTY_AUDIT, "a", { group2_id: "T2" }, { at: T, by, why: "typo" }).ledger[0].group2_id).toBe("T2");
+    expect(() => deleteEntry([lost], EMPTY_AUDIT, "a", { at: T, by, why: "oops" })).toThrow(/realized/);
+    expect(() => deleteEntry([closePart(entry("b", T), 4, 5, T)], EMPTY_AUDIT, "b", { at: T, by, why: "oops" })).toThrow(/realized/);
+  });
+});
+
+describe("undo window", () => {
+  it("covers only the newest open commit for a short time", () => {
+    const ledger = [entry("b", T), entry("a", T - H)];
+    expect(undoable(ledger, T + UNDO_WINDOW_MS)?.id).toBe("b");
+    expect(undoable(ledger, T + UNDO_WINDOW_MS + 1)).toBeUndefined();
+    expect(undoable([{ ...ledger[0], settlement: { outcome: "won", settled_at: T } }, ledger[1]], T)).toBeUndefined();
+
+    const undone = undoLast(ledger, EMPTY_AUDIT, { at: T + 1000, by, why: "" });
+    expect(undone.ledger.map((e) => e.id)).toEqual(["a"]);
+    expect(undone.audit.tombstones[0]).toMatchObject({ action: "undo", why: "undo last commit", before: { id: "b" } });
+    expect(() => undoLast(ledger, EMPTY_AUDIT, { at: T + UNDO_WINDOW_MS + 1, by, why: "" })).toThrow();
+  });
+});
+
+describe("audit trail", () => {
+  it("archives resets and only ever grows", () => {
+    const audit = archiveEntries(EMPTY_AUDIT, [entry("a", T)], "reset", { at: T, by, why: "new season" });
+    expect(archiveEntries(audit, [], "trim", { at: T, by, why: "x" })).toBe(audit);
+    expect(auditTransitionIssues(EMPTY_AUDIT, audit)).toEqual([]);
+    expect(auditTransitionIssues(audit, EMPTY_AUDIT)).toEqual([{ path: "archives", message: "the audit trail cannot be shortened" }]);
+    const altered = { ...audit, archives: [{ ...audit.archives[0], why: "oops" }] };
+    expect(auditTransitionIssues(audit, altered).map((i) => i.path)).toEqual(["archives[0]"]);
+  });
+
+  it("only lets a ledger write change what the trail records", () => {
+    const ledger = [entry("c", T), entry("b", T - H, 20), entry("a", T - 2 * H)];
+    const stamp = { at: T, by, why: "typo" };
+    const corrected = correctEntry(ledger, EMPTY_AUDIT, "b", { stake: 25 }, stamp);
+    const deleted = deleteEntry(corrected.ledger, corrected.audit, "a", stamp);
+    expect(ledgerTransitionIssues(ledger, deleted.ledger, deleted.audit)).toEqual([]);
+    expect(ledgerTransitionIssues(ledger, deleted.ledger, EMPTY_AUDIT)).toEqual([
+      { path: "b", message: "changed without a correction tombstone" },
+      { path: "a", message: "removed without a tombstone or archive" }
+    ]);
+    // settling, closing and new commits need no record; a reset needs its archive
+    const realized = [entry("d", T + H), closePart(ledger[0], 5, 6, T), settle(ledger[1], "won", T), ledger[2]];
+    expect(ledgerTransitionIssues(ledger, realized, EMPTY_AUDIT)).toEqual([]);
+    expect(ledgerTransitionIssues(ledger, [], archiveEntries(EMPTY_AUDIT, ledger, "reset", stamp))).toEqual([]);
+    expect(ledgerTransitionIssues([settle(ledger[1], "won", T)], [settle(ledger[1], "lost", T)], EMPTY_AUDIT)).toHaveLength(1);
+  });
+
+  it("refuses writes that rewrite a realized result, tombstone or not", () => {
+    const lost = settle(entry("a", T - 2 * H, 200), "lost", T);
+    const stamp = { at: T, by, why: "oops" };
+    const deleted = { tombstones: [{ ...stamp, action: "delete" as const, before: lost }], archives: [] };
+    expect(ledgerTransitionIssues([lost], [], deleted)).toEqual([{ path: "a", message: "has a realized result and can only leave through an archive" }]);
+    expect(ledgerTransitionIssues([lost], [], archiveEntries(EMPTY_AUDIT, [lost], "reset", stamp))).toEqual([]);
+
+    const cheaper = { ...lost, stake: 1 };
+    const corrected = recordReplacements([lost], [cheaper], EMPTY_AUDIT, stamp);
+    expect(ledgerTransitionIssues([lost], [cheaper], corrected)).toEqual([{ path: "a.stake", message: "is fixed once a result is realized" }]);
+    const resettled = { ...lost, settlement: { outcome: "won" as const, settled_at: T } };
+    expect(realizedChangeIssues(lost, resettled).map((i) => i.path)).toEqual(["settlement"]);
+    const regrouped = { ...lost, group2_id: "T2" };
+    expect(ledgerTransitionIssues([lost], [regrouped], recordReplacements([lost], [regrouped], EMPTY_AUDIT, stamp))).toEqual([]);
+  });
+
+  it("records entries an import replaces as corrections", () => {
+    const ledger = [entry("b", T - H, 20), entry("a", T - 2 * H)];
+    const imported = [entry("c", T), { ...ledger[0], stake: 200 }, ledger[1]];
+    const audit = recordReplacements(ledger, imported, EMPTY_AUDIT, { at: T, by, why: "replaced by import" });
+    expect(audit.tombstones.map((t) => [t.action, t.before.stake, t.after!.stake])).toEqual([["correct", 20, 200]]);
+    expect(ledgerTransitionIssues(ledger, imported, audit)).toEqual([]);
+    expect(recordReplacements(ledger, ledger, EMPTY_AUDIT, { at: T, by, why: "x" })).toBe(EMPTY_AUDIT);
+  });
+});
+
+describe("browsing", () => {
+  const ledger = [
+    entry("c", T, 30, { verdict: "WARN", reasons: [R.DAILY], group2_id: "Lakers" }),
+    entry("b", T - 30 * H, 50, { verdict: "RED_ALERT", reasons: [R.WEEKLY] }),
+    entry("a", T - 60 * H, 30, { groups: { league: "NBA" } })
+  ];
+
+  it("filters by date range, verdict, reason code and group id", () => {
+    const ids = (f: Parameters<typeof filterLedger>[1]) => filterLedger(ledger, f).map((e) => e.id);
+    expect(ids({ from: T - 31 * H, to: T - H })).toEqual(["b"]);
+    expect(ids({ verdicts: ["WARN", "RED_ALERT"] })).toEqual(["c", "b"]);
+    expect(ids({ reason: R.DAILY })).toEqual(["c"]);
+    expect(ids({ group: "lak" })).toEqual(["c"]);
+    expect(ids({ group: "nba" })).toEqual(["a"]);
+    expect(ids({})).toEqual(["c", "b", "a"]);
+  });
+
+  it("sorts stably in either direction", () => {
+    expect(sortLedger(ledger, { key: "stake", dir: "asc" }).map((e) => e.id)).toEqual(["c", "a", "b"]);
+    expect(sortLedger(ledger, { key: "verdict", dir: "desc" }).map((e) => e.id)).toEqual(["b", "c", "a"]);
+    expect(sortLedger(ledger, { key: "ts", dir: "asc" }).map((e) => e.id)).toEqual(["a", "b", "c"]);
+  });
+});
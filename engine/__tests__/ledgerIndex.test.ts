@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildLedgerIndex, closePart, comboBet, indexedExposures, positionExposures, settle, syncLedgerIndex } from "..";
+import type { Exposures, LedgerEntry, LedgerIndex, ProposedBet, UserRules } from "..";
+
+import { H, T as NOW, UTC_RULES, entry } from "./fixtures";
+
+// Entry n sits in groups E{n % 3} / T{n % 4} and alternates leagues
+const nth = (n: number, ago: number, stake: number): LedgerEntry =>
+  entry(`e${n}`, NOW - ago, stake, { odds: 100, group1_id: `E${n % 3}`, group2_id: `T${n % 4}`, groups: { league: n % 2 ? "NBA" : "NFL" } });
+
+// A few weeks of history with settlements, partial closes and a parlay, newest first
+const LEDGER: LedgerEntry[] = [
+  nth(0, 1 * H, 25),
+  closePart(nth(1, 3 * H, 40), 10, 15, NOW - 2 * H),
+  settle(nth(2, 5 * H, 30), "lost", NOW - 4 * H),
+  { ...nth(3, 20 * H, 12), legs: [{ odds: 100, group1_id: "E0", group2_id: "T1" }, { odds: 120, group1_id: "E2", group2_id: "T3" }] },
+  settle(nth(4, 30 * H, 50), "won", NOW - 26 * H),
+  settle(nth(5, 50 * H, 80), "lost", NOW + 1 * H), // settles after NOW
+  nth(6, 6 * 24 * H, 60),
+  settle(nth(7, 20 * 24 * H, 100), "lost", NOW - 19 * 24 * H)
+];
+
+const RULES: UserRules = {
+  ...UTC_RULES,
+  dimensions: [{ key: "league", label: "League", window: "week", cap_pct: 10 }],
+  custom_rules: [{ code: "NBA_DAY", severity: "flag", measure: { agg: "sum_stake", window: "day", match: ["groups.league"] }, threshold: 100 }]
+};
+
+const BETS: ProposedBet[] = [
+  { stake: 10, odds: -110, group1_id: "E0", group2_id: "T1", groups: { league: "NBA" } },
+  { stake: 10, odds: -110, group1_id: "nowhere", group2_id: "T2" },
+  comboBet(10, [{ odds: 100, group1_id: "E1", group2_id: "T0" }, { odds: 100, group1_id: "E2", group2_id: "T3" }])
+];
+
+describe("indexedExposures", () => {
+  it("matches a full ledger scan", () => {
+    const index = buildLedgerIndex(LEDGER);
+    for (const bet of BETS) {
+      for (const asOf of [NOW, NOW - 3.5 * H, NOW + 2 * H, NOW - 7 * 24 * H]) {
+        expect(indexedExposures(index, bet, RULES, asOf)).toEqual(positionExposures(LEDGER, bet, RULES, asOf));
+      }
+    }
+  });
+
+  it("also matches under rolling windows", () => {
+    const rolling = { ...RULES, window_mode: "rolling" as const };
+    expect(indexedExposures(buildLedgerIndex(LEDGER), BETS[0], rolling, NOW)).toEqual(positionExposures(LEDGER, BETS[0], rolling, NOW));
+  });
+});
+
+describe("syncLedgerIndex", () => {
+  it("appends new commits without rebuilding and rebuilds on any other change", () => {
+    const index = buildLedgerIndex(LEDGER.slice(1));
+    const next = [nth(9, 0, 5), ...LEDGER.slice(1)];
+    const synced = syncLedgerIndex(index, next);
+    expect(synced.entries).toBe(index.entries);
+    expect(syncLedgerIndex(synced, next)).toBe(synced);
+    expect(indexedExposures(synced, BETS[0], RULES, NOW)).toEqual(positionExposures(next, BETS[0], RULES, NOW));
+
+    const settled = next.map((e) => (e.id === "e9" ? settle(e, "won", NOW) : e));
+    const rebuilt = syncLedgerIndex(synced, settled);
+    expect(rebuilt.entries).not.toBe(synced.entries);
+    expect(indexedExposures(rebuilt, BETS[0], RULES, NOW)).toEqual(positionExposures(settled, BETS[0], RULES, NOW));
+
+    // a back-dated commit lands out of order, so the index is rebuilt
+    expect(syncLedgerIndex(rebuilt, [nth(10, 9 * H, 5), ...settled]).entries).not.toBe(rebuilt.entries);
+  });
+
+  it("hands out a new index on every commit so exposures memoized on it recompute", () => {
+    // The page memoizes exposures on the index reference
+    let memo: { index?: LedgerIndex; exposures?: Exposures } = {};
+    const exposuresOf = (index: LedgerIndex) =>
+      memo.index === index ? memo.exposures! : (memo = { index, exposures: indexedExposures(index, BETS[0], RULES, NOW) }).exposures!;
+
+    const before = syncLedgerIndex(undefined, LEDGER);
+    const daily = exposuresOf(before).daily_staked;
+    const after = syncLedgerIndex(before, [nth(9, 0, 5), ...LEDGER]);
+    expect(after).not.toBe(before);
+    expect(exposuresOf(after).daily_staked).toBe(daily + 5);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { betGroups, betPrice, comboBet, combinedPrice } from "..";
+import type { Leg } from "..";
+
+const legs: Leg[] = [
+  { odds: 100, price: 2, group1_id: "E1", group2_id: "T1" },
+  { odds: 150, group1_id: "E2", group2_id: "T1" }
+];
+
+describe("multi-leg positions", () => {
+  it("multiplies leg prices and falls back to American odds per leg", () => {
+    expect(combinedPrice(legs)).toBe(5);
+    expect(combinedPrice([...legs, { odds: 0, group1_id: "E3", group2_id: "T3" }])).toBeNaN();
+  });
+
+  it("builds a combo bet whose price and odds reflect every leg", () => {
+    const bet = comboBet(10, legs);
+    expect(bet).toMatchObject({ stake: 10, price: 5, odds: 400, group1_id: "E1", group2_id: "T1" });
+    expect(betPrice(bet)).toBe(5);
+    expect(comboBet(10, [{ odds: 0, group1_id: "E", group2_id: "T" }])).toMatchObject({ price: 0, odds: 0 });
+  });
+
+  it("lists the distinct groups touched", () => {
+    expect(betGroups(comboBet(10, legs))).toEqual({ group1: ["E1", "E2"], group2: ["T1"] });
+    expect(betGroups({ group1_id: "E", group2_id: "T" })).toEqual({ group1: ["E"], group2: ["T"] });
+  });
+});
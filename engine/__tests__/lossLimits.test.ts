@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BEHAVIOR,
+  DEFAULT_CAPITAL,
+  NO_COOLDOWN,
+  R,
+  buildLedgerIndex,
+  cooldownOnRealized,
+  deriveBankroll,
+  evaluate_v1,
+  indexedExposures,
+  isCooldownActive,
+  loosenedFields,
+  positionExposures,
+  realizedLosses,
+  settle,
+  trimLedger,
+  windowsAt
+} from "..";
+import type { Exposures, LedgerEntry, ProposedBet } from "..";
+import { H, T, UTC_RULES, entry } from "./fixtures";
+
+const W = { day_start: T - 12 * H, week_start: T - 60 * H, rolling_7d_start: T - 168 * H };
+
+// Placed at even money well before this week, so only its settlement moves the windows
+const placed = (id: string, stake: number): LedgerEntry => entry(id, T - 100 * H, stake, { odds: 100 });
+
+const bet: ProposedBet = { stake: 10, odds: -110, group1_id: "E1", group2_id: "T1" };
+const EXP: Exposures = { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 };
+
+describe("realizedLosses", () => {
+  it("nets settlements per window and measures drawdown from the running peak", () => {
+    const ledger = [
+      settle(placed("a", 100), "won", T - 90 * H),  // +100: peak
+      settle(placed("b", 80), "lost", T - 50 * H),  // this week
+      settle(placed("c", 30), "lost", T - 2 * H),   // today
+      settle(placed("d", 10), "won", T - 1 * H),    // today
+      settle(placed("e", 50), "lost", T + 1 * H)    // not yet settled as of T
+    ];
+    expect(realizedLosses(ledger, W, T)).toEqual({ daily_loss: 20, weekly_loss: 100, drawdown: 100 });
+    expect(realizedLosses([settle(placed("a", 100), "won", T - H)], W, T)).toEqual({ daily_loss: 0, weekly_loss: 0, drawdown: 0 });
+  });
+
+  it("keeps the loss limits and the drawdown through a reset", () => {
+    const ledger = [settle(placed("b", 300), "lost", T - 3 * H), settle(placed("a", 100), "won", T - 6 * H)];
+    const before = realizedLosses(ledger, W, T);
+    expect(before).toEqual({ daily_loss: 200, weekly_loss: 200, drawdown: 300 });
+
+    const reset = trimLedger(ledger, 0, DEFAULT_CAPITAL, T);
+    expect(reset.capital).toMatchObject({ carried_pnl: -200, carried_peak: 100 });
+    expect(realizedLosses(reset.ledger, W, T, reset.capital)).toEqual(before);
+
+    // the limits still trip afterwards, from the full scan and from the index alike
+    const rules = { ...UTC_RULES, daily_loss_pct: 0, weekly_loss_pct: 0 };
+    const exp = positionExposures(reset.ledger, bet, rules, T, reset.capital);
+    expect(indexedExposures(buildLedgerIndex(reset.ledger, reset.capital), bet, rules, T)).toEqual(exp);
+    const bankroll = deriveBankroll(reset.capital.starting_capital, reset.ledger, reset.capital.carried_pnl);
+    expect(evaluate_v1(bankroll, rules, bet, exp, DEFAULT_BEHAVIOR)).toMatchObject({ verdict: "RED_ALERT", reasons: [R.DRAWDOWN] });
+
+    // window losses age out like any other; a trim long after keeps only the peak
+    const later = T + 9 * 24 * H;
+    const old = trimLedger(ledger, 0, DEFAULT_CAPITAL, later).capital;
+    expect(old.carried_events).toEqual([]);
+    expect(realizedLosses([], windowsAt(UTC_RULES, later), later, old)).toEqual({ daily_loss: 0, weekly_loss: 0, drawdown: 300 });
+
+    // carried gains only raise the peak the drawdown is measured from
+    expect(realizedLosses([settle(placed("c", 40), "lost", T - H)], W, T, { carried_pnl: 100 }).drawdown).toBe(40);
+  });
+});
+
+describe("cooldownOnRealized", () => {
+  it("starts a cooldown with the settlement that reaches the max drawdown", () => {
+    const rules = { ...UTC_RULES, max_drawdown_pct: 20 };
+    const open = [placed("b", 150), settle(placed("a", 100), "lost", T - 6 * H)];
+    const lost = [settle(open[0], "lost", T), open[1]];
+    // 250 down from 1000 is 25% of the bankroll before it
+    const started = cooldownOnRealized(NO_COOLDOWN, rules, open, lost, DEFAULT_CAPITAL, T);
+    expect(started).toMatchObject({ started_at: T, trigger_count: 1 });
+    expect(isCooldownActive(started, T + 1)).toBe(true);
+    // already past the limit, or not reaching it: nothing new
+    expect(cooldownOnRealized(NO_COOLDOWN, rules, lost, lost, DEFAULT_CAPITAL, T)).toBe(NO_COOLDOWN);
+    const pushed = [settle(open[0], "push", T), open[1]];
+    expect(cooldownOnRealized(NO_COOLDOWN, rules, open, pushed, DEFAULT_CAPITAL, T)).toBe(NO_COOLDOWN);
+  });
+});
+
+describe("loss limits", () => {
+  it("trip on reaching a % of the bankroll before the loss", () => {
+    // 5% of (950 + 50) = 50
+    const d = evaluate_v1(950, UTC_RULES, bet, { ...EXP, daily_loss: 50, weekly_loss: 50 }, DEFAULT_BEHAVIOR);
+    expect(d).toMatchObject({ verdict: "WARN", reasons: [R.DAILY_LOSS] });
+    expect(d.trace!.checks.find((c) => c.code === R.DAILY_LOSS)).toMatchObject({ cap: 50, current: 50, projected: 50, headroom: 0, passed: false });
+
+    expect(evaluate_v1(951, UTC_RULES, bet, { ...EXP, daily_loss: 49 }, DEFAULT_BEHAVIOR).verdict).toBe("ALLOW");
+    const off = { ...UTC_RULES, daily_loss_pct: 0 };
+    expect(evaluate_v1(950, off, bet, { ...EXP, daily_loss: 50 }, DEFAULT_BEHAVIOR).trace!.checks.map((c) => c.code)).not.toContain(R.DAILY_LOSS);
+  });
+
+  it("forces RED_ALERT and a cooldown at the max drawdown", () => {
+    const d = evaluate_v1(800, { ...UTC_RULES, daily_loss_pct: 0, weekly_loss_pct: 0 }, bet, { ...EXP, drawdown: 200 }, DEFAULT_BEHAVIOR);
+    expect(d).toMatchObject({ verdict: "RED_ALERT", reasons: [R.DRAWDOWN], cooldown_triggered: true });
+    expect(d.trace).toMatchObject({
+      base: "WARN",
+      decided_by: "max_drawdown",
+      amplifications: [{ id: "max_drawdown", from: "WARN", to: "RED_ALERT" }]
+    });
+  });
+
+  it("treats raising or switching off a limit as loosening", () => {
+    expect(loosenedFields(UTC_RULES, { ...UTC_RULES, daily_loss_pct: 8, weekly_loss_pct: 0, max_drawdown_pct: 10 })).toEqual([
+      "daily_loss_pct",
+      "weekly_loss_pct"
+    ]);
+  });
+});
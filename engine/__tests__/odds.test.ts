@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { americanToDecimal, decimalToAmerican, formatOdds, normalizeOdds, parseOdds } from "..";
+
+describe("parseOdds", () => {
+  it("normalizes every format to a decimal price", () => {
+    expect(parseOdds("american", "+250")).toBe(3.5);
+    expect(parseOdds("american", "-200")).toBe(1.5);
+    expect(parseOdds("decimal", "3.5")).toBe(3.5);
+    expect(parseOdds("fractional", "5/2")).toBe(3.5);
+    expect(parseOdds("fractional", "1-2")).toBe(1.5);
+    expect(parseOdds("fractional", "evens")).toBe(2);
+    expect(parseOdds("hongkong", "2.5")).toBe(3.5);
+  });
+
+  it("rejects malformed or impossible odds", () => {
+    expect(parseOdds("american", "0")).toBeNull();
+    expect(parseOdds("american", "-110.5")).toBeNull();
+    expect(parseOdds("american", "")).toBeNull();
+    expect(parseOdds("decimal", "1")).toBeNull();
+    expect(parseOdds("decimal", "abc")).toBeNull();
+    expect(parseOdds("fractional", "5/0")).toBeNull();
+    expect(parseOdds("fractional", "5:2")).toBeNull();
+    expect(parseOdds("hongkong", "0")).toBeNull();
+  });
+});
+
+describe("conversions", () => {
+  it("round-trips american odds", () => {
+    for (const a of [-400, -110, 100, 150, 250]) expect(decimalToAmerican(americanToDecimal(a))).toBeCloseTo(a);
+  });
+
+  it("formats a price in each format", () => {
+    expect(formatOdds(3.5, "american")).toBe("+250");
+    expect(formatOdds(1.5, "american")).toBe("-200");
+    expect(formatOdds(3.5, "decimal")).toBe("3.50");
+    expect(formatOdds(3.5, "fractional")).toBe("5/2");
+    expect(formatOdds(1 + 10 / 11, "fractional")).toBe("10/11");
+    expect(formatOdds(3.5, "hongkong")).toBe("2.50");
+    expect(formatOdds(1, "decimal")).toBe("—");
+  });
+});
+
+describe("normalizeOdds", () => {
+  it("keeps the original input alongside the normalized value", () => {
+    expect(normalizeOdds("fractional", " 5/2 ")).toEqual({ odds: 250, price: 3.5, odds_format: "fractional", odds_input: "5/2" });
+    expect(normalizeOdds("american", "-110")).toMatchObject({ odds: -110, odds_format: "american" });
+  });
+
+  it("maps invalid input to odds 0 / price 0", () => {
+    expect(normalizeOdds("decimal", "0.9")).toEqual({ odds: 0, price: 0, odds_format: "decimal", odds_input: "0.9" });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BEHAVIOR,
+  R,
+  capMeasureIssues,
+  closePart,
+  entryPnl,
+  evaluate_v1,
+  loosenedFields,
+  openExposureChecks,
+  openStake,
+  positionExposures,
+  positionState,
+  settle
+} from "..";
+import type { LedgerEntry, ProposedBet } from "..";
+import { H, T as NOW, UTC_RULES, entry } from "./fixtures";
+
+// Even-money entries placed `ms` before NOW
+const ago = (id: string, ms: number, stake: number, group2_id = "T1"): LedgerEntry => entry(id, NOW - ms, stake, { odds: 100, group2_id });
+
+const bet: ProposedBet = { stake: 10, odds: -110, group1_id: "E1", group2_id: "T1" };
+
+describe("position lifecycle", () => {
+  it("moves from open through partially closed to closed", () => {
+    const e = ago("a", 3 * H, 100);
+    const part = closePart(e, 40, 50, NOW - 2 * H);
+    expect([positionState(e), positionState(part), positionState(part, NOW - 2.5 * H)]).toEqual(["open", "partially_closed", "open"]);
+    expect(openStake(part)).toBe(60);
+    expect(positionState(closePart(part, 60, 0, NOW - H))).toBe("closed");
+    expect(openStake(settle(part, "lost", NOW))).toBe(0);
+    expect(() => closePart(part, 61, 0, NOW)).toThrow();
+    expect(() => closePart(part, 10, -1, NOW)).toThrow();
+  });
+
+  it("realizes P&L on each close and settles the rest", () => {
+    const part = closePart(ago("a", 3 * H, 100), 40, 50, NOW - 2 * H); // +10
+    expect(entryPnl(part)).toBe(10);
+    expect(entryPnl(settle(part, "won", NOW))).toBe(70);   // +10, then 60 at evens
+    expect(entryPnl(settle(part, "lost", NOW))).toBe(-50); // +10, then -60
+  });
+});
+
+describe("open exposure", () => {
+  const ledger = [
+    closePart(ago("a", 1 * H, 100), 70, 80, NOW - H / 2), // 30 still open
+    settle(ago("b", 2 * H, 50), "won", NOW - H),          // closed
+    ago("c", 3 * H, 20, "T2"),                            // open
+    ago("d", 30 * H, 40)                                  // open, Tuesday: week only
+  ];
+
+  it("measures stake still at risk alongside cumulative stake", () => {
+    const exp = positionExposures(ledger, bet, UTC_RULES, NOW);
+    expect(exp).toMatchObject({ daily_staked: 170, weekly_staked: 210, open_daily: 50, open_weekly: 90, open_total: 90 });
+    expect(exp.open_by_dimension).toEqual({ group1: { E1: 50 }, group2: { T1: 70 } });
+    // as of before the partial close, all of "a" was at risk
+    expect(positionExposures(ledger, bet, UTC_RULES, NOW - H / 2 - 1).open_daily).toBe(120);
+  });
+
+  it("lets each cap choose its measure", () => {
+    const exp = positionExposures(ledger, bet, UTC_RULES, NOW);
+    expect(evaluate_v1(1000, UTC_RULES, bet, exp, DEFAULT_BEHAVIOR).reasons).toEqual([R.DAILY, R.WEEKLY, R.EVENT, R.TEAM]);
+
+    const rules = { ...UTC_RULES, cap_measures: { daily: "open" as const, group2: "open" as const } };
+    const d = evaluate_v1(1000, rules, bet, exp, DEFAULT_BEHAVIOR);
+    expect(d.reasons).toEqual([R.WEEKLY, R.EVENT]);
+    expect(d.trace!.checks.find((c) => c.code === R.DAILY)).toMatchObject({ label: "Daily open exposure", current: 50, projected: 60 });
+    expect(d.trace!.checks.find((c) => c.code === R.TEAM)).toMatchObject({ label: "Same Group2 open concentration (rolling 7d)", current: 70, passed: true });
+  });
+
+  it("reports open exposure beside the caps that measure stake", () => {
+    const exp = positionExposures(ledger, bet, UTC_RULES, NOW);
+    const rules = { ...UTC_RULES, cap_measures: { daily: "open" as const, group2: "open" as const } };
+    expect(openExposureChecks(1000, rules, bet, exp).map((c) => [c.code, c.current, c.projected, c.contributes])).toEqual([
+      [R.WEEKLY, 90, 100, null],
+      [R.EVENT, 50, 60, null]
+    ]);
+    expect(openExposureChecks(1000, UTC_RULES, bet, exp).map((c) => c.label)).toEqual([
+      "Daily open exposure",
+      "Weekly open exposure",
+      "Same Group1 open concentration (today)",
+      "Same Group2 open concentration (rolling 7d)"
+    ]);
+  });
+
+  it("validates measures and treats moving a cap onto open exposure as loosening", () => {
+    expect(capMeasureIssues({ ...UTC_RULES, cap_measures: { daily: "open", league: "open", weekly: "peak" as never } }).map((i) => i.path)).toEqual([
+      "cap_measures.league",
+      "cap_measures.weekly"
+    ]);
+    const open = { ...UTC_RULES, cap_measures: { weekly: "open" as const } };
+    expect(loosenedFields(UTC_RULES, open)).toEqual(["cap_measures"]);
+    expect(loosenedFields(open, UTC_RULES)).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PROFILES, R, applyUmbrellaCap, profileId, profilesIssues, proposeUmbrellaCap, umbrellaAt, weeklyStaked } from "..";
+import type { DecisionResult, LedgerEntry } from "..";
+
+const allow: DecisionResult = { verdict: "ALLOW", reasons: [], friction_required: false, cooldown_triggered: false };
+
+describe("profiles", () => {
+  it("checks ids are unique and the active profile exists", () => {
+    expect(profilesIssues(DEFAULT_PROFILES)).toEqual([]);
+    const state = { ...DEFAULT_PROFILES, profiles: [{ id: "a", name: "A" }, { id: "a", name: "B" }], active: "x" };
+    expect(profilesIssues(state).map((x) => x.path)).toEqual(["profiles[1].id", "active"]);
+    expect(profilesIssues({ ...DEFAULT_PROFILES, profiles: [] })[0].path).toBe("profiles");
+  });
+
+  it("slugs ids from names without clashing", () => {
+    expect(profileId("Fantasy League!", [])).toBe("fantasy-league");
+    expect(profileId("Sports", ["sports", "sports-2"])).toBe("sports-3");
+    expect(profileId("  ", [])).toBe("profile");
+  });
+
+  it("sums this week's stakes", () => {
+    const e = (ts: number, stake: number) => ({ ts, stake }) as LedgerEntry;
+    expect(weeklyStaked([e(100, 5), e(50, 7), e(200, 1)], 100)).toBe(6);
+  });
+});
+
+describe("umbrella cap changes", () => {
+  const H = 60 * 60 * 1000;
+  const capped = { ...DEFAULT_PROFILES, umbrella_weekly_cap: 500 };
+
+  it("tighten at once and loosen after the delay", () => {
+    expect(proposeUmbrellaCap(capped, 300, 0, 24)).toEqual({ ...capped, umbrella_weekly_cap: 300 });
+    const raised = proposeUmbrellaCap(capped, 800, 0, 24);
+    expect(raised).toEqual({ ...capped, umbrella_pending: { cap: 800, effective_at: 24 * H } });
+    expect(umbrellaAt(raised, 24 * H - 1)).toBe(raised);
+    expect(umbrellaAt(raised, 24 * H)).toEqual({ ...capped, umbrella_weekly_cap: 800 });
+    expect(proposeUmbrellaCap(capped, 0, 0, 24).umbrella_pending).toEqual({ cap: 0, effective_at: 24 * H });
+    expect(proposeUmbrellaCap(DEFAULT_PROFILES, 500, 0, 24).umbrella_weekly_cap).toBe(500);
+  });
+
+  it("keep a re-filed loosening's time and drop it on a tightening", () => {
+    const raised = proposeUmbrellaCap(capped, 800, 0, 24);
+    expect(proposeUmbrellaCap(raised, 800, 10 * H, 24)).toEqual(raised);
+    expect(proposeUmbrellaCap(raised, 900, 10 * H, 24).umbrella_pending).toEqual({ cap: 900, effective_at: 34 * H });
+    expect(proposeUmbrellaCap(raised, 400, 10 * H, 24)).toEqual({ ...capped, umbrella_weekly_cap: 400 });
+  });
+});
+
+describe("applyUmbrellaCap", () => {
+  it("is off at 0 and passes through under the cap", () => {
+    expect(applyUmbrellaCap(allow, 50, 1000, 0)).toBe(allow);
+    expect(applyUmbrellaCap(allow, 50, 50, 100)).toBe(allow);
+  });
+
+  it("raises RED_ALERT and lists the reason after cap violations", () => {
+    const warn: DecisionResult = { verdict: "WARN", reasons: [R.DAILY, R.ODDS, R.STAKE_SPIKE], friction_required: true, cooldown_triggered: false };
+    expect(applyUmbrellaCap(warn, 51, 50, 100)).toEqual({
+      verdict: "RED_ALERT",
+      reasons: [R.DAILY, R.UMBRELLA, R.ODDS, R.STAKE_SPIKE],
+      friction_required: true,
+      cooldown_triggered: true
+    });
+  });
+
+  it("leaves the cooldown hard stop alone", () => {
+    const cd: DecisionResult = { verdict: "RED_ALERT", reasons: [R.CD_ACTIVE], friction_required: true, cooldown_triggered: true };
+    expect(applyUmbrellaCap(cd, 500, 500, 100)).toBe(cd);
+  });
+});
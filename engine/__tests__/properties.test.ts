@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, R, evaluate_v1, rank } from "..";
+import type { BehavioralState, Exposures, ProposedBet, UserRules } from "..";
+
+// Seeded PRNG (mulberry32) so every run explores the same cases.
+function prng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Case = { bankroll: number; rules: UserRules; bet: ProposedBet; exp: Exposures; beh: BehavioralState };
+
+function genCase(rnd: () => number): Case {
+  const int = (lo: number, hi: number) => lo + Math.floor(rnd() * (hi - lo + 1));
+  const oddsPool = [-300, -110, 100, 150, 249, 250, 400, 0];
+  return {
+    bankroll: int(0, 5000),
+    rules: {
+      ...DEFAULT_RULES,
+      unit_pct: int(1, 10),
+      daily_pct: int(1, 30),
+      weekly_pct: int(5, 80),
+      group1_pct: int(1, 20),
+      group2_pct: int(1, 30),
+      freq_cap: int(1, 10),
+      odds_gate: int(100, 500)
+    },
+    bet: { stake: int(0, 400), odds: oddsPool[int(0, oddsPool.length - 1)], group1_id: "E", group2_id: "T" },
+    exp: {
+      daily_staked: int(0, 500),
+      weekly_staked: int(0, 1500),
+      same_group1_staked: int(0, 300),
+      same_group2_7d_staked: int(0, 500),
+      bets_today: int(0, 10)
+    },
+    beh: {
+      stake_velocity_spike: rnd() < 0.3,
+      frequency_spike: rnd() < 0.3,
+      consecutive_overrides: int(0, 4),
+      cooldown_violations: int(0, 2),
+      cooldown_active: rnd() < 0.05
+    }
+  };
+}
+
+const RUNS = 2000;
+const run = (c: Case) => evaluate_v1(c.bankroll, c.rules, c.bet, c.exp, c.beh);
+
+function forAll(seed: number, check: (c: Case, rnd: () => number) => void) {
+  const rnd = prng(seed);
+  for (let i = 0; i < RUNS; i++) check(genCase(rnd), rnd);
+}
+
+describe("evaluate_v1 invariants", () => {
+  it("raising the stake never lowers the verdict", () => {
+    forAll(1, (c, rnd) => {
+      const higher = { ...c, bet: { ...c.bet, stake: c.bet.stake + 1 + Math.floor(rnd() * 200) } };
+      expect(rank(run(higher).verdict)).toBeGreaterThanOrEqual(rank(run(c).verdict));
+    });
+  });
+
+  it("adding prior exposure never lowers the verdict", () => {
+    forAll(2, (c, rnd) => {
+      const bump = Math.floor(rnd() * 100);
+      const heavier = {
+        ...c,
+        exp: {
+          daily_staked: c.exp.daily_staked + bump,
+          weekly_staked: c.exp.weekly_staked + bump,
+          same_group1_staked: c.exp.same_group1_staked + bump,
+          same_group2_7d_staked: c.exp.same_group2_7d_staked + bump,
+          bets_today: c.exp.bets_today + 1
+        }
+      };
+      expect(rank(run(heavier).verdict)).toBeGreaterThanOrEqual(rank(run(c).verdict));
+    });
+  });
+
+  it("raising the bankroll never raises the verdict", () => {
+    forAll(3, (c, rnd) => {
+      const richer = { ...c, bankroll: c.bankroll + Math.floor(rnd() * 5000) };
+      expect(rank(run(richer).verdict)).toBeLessThanOrEqual(rank(run(c).verdict));
+    });
+  });
+
+  it("is deterministic and does not mutate its inputs", () => {
+    forAll(4, (c) => {
+      const snapshot = structuredClone(c);
+      const first = run(c);
+      expect(run(c)).toEqual(first);
+      expect(c).toEqual(snapshot);
+    });
+  });
+
+  it("derives friction and cooldown from the verdict", () => {
+    forAll(5, (c) => {
+      const d = run(c);
+      expect(d.friction_required).toBe(d.verdict !== "ALLOW");
+      expect(d.cooldown_triggered).toBe(d.verdict === "RED_ALERT");
+    });
+  });
+
+  it("emits reasons in canonical order without duplicates", () => {
+    const order: string[] = Object.values(R);
+    forAll(6, (c) => {
+      const idx = run(c).reasons.map((r) => order.indexOf(r));
+      expect(idx.every((i) => i >= 0)).toBe(true);
+      expect([...idx].sort((a, b) => a - b)).toEqual(idx);
+      expect(new Set(idx).size).toBe(idx.length);
+    });
+  });
+
+  it("cooldown_active always yields a lone COOLDOWN_ACTIVE RED_ALERT", () => {
+    forAll(7, (c) => {
+      const d = run({ ...c, beh: { ...c.beh, cooldown_active: true } });
+      expect(d.verdict).toBe("RED_ALERT");
+      expect(d.reasons).toEqual([R.CD_ACTIVE]);
+    });
+  });
+
+  it("a clean bet under default rules is ALLOW", () => {
+    const d = evaluate_v1(
+      1000,
+      DEFAULT_RULES,
+      { stake: 10, odds: -110, group1_id: "E", group2_id: "T" },
+      { daily_staked: 0, weekly_staked: 0, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 0 },
+      { stake_velocity_spike: false, frequency_spike: false, consecutive_overrides: 0, cooldown_violations: 0, cooldown_active: false }
+    );
+    expect(d.verdict).toBe("ALLOW");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAPITAL, R, closePart, replayLedger } from "..";
+import type { LedgerEntry } from "..";
+import { H, MON, UTC_RULES, entry } from "./fixtures";
+
+// Monday 2024-05-13 10:00 UTC
+const T0 = MON + 10 * H;
+
+// Entry n sits alone in groups En / Tn
+const nth = (n: number, ts: number, stake = 20): LedgerEntry => entry(`e${n}`, ts, stake, { group1_id: `E${n}`, group2_id: `T${n}` });
+
+const LEDGER = [nth(1, T0), nth(2, T0 + H), nth(3, T0 + 2 * H)];
+
+describe("replayLedger", () => {
+  it("reports the verdict distribution before and after and the entries that flip", () => {
+    // newest-first, as stored
+    const ledger = [...LEDGER].reverse();
+    expect(replayLedger(ledger, UTC_RULES, DEFAULT_CAPITAL).flips).toEqual([]);
+
+    const report = replayLedger(ledger, { ...UTC_RULES, daily_pct: 5 }, DEFAULT_CAPITAL);
+    expect(report.rows.map((r) => r.after)).toEqual(["ALLOW", "ALLOW", "WARN"]);
+    expect(report.before).toEqual({ ALLOW: 3, WARN: 0, HARD_WARN: 0, RED_ALERT: 0 });
+    expect(report.after).toEqual({ ALLOW: 2, WARN: 1, HARD_WARN: 0, RED_ALERT: 0 });
+    expect(report.flips.map((r) => r.entry.id)).toEqual(["e3"]);
+    expect(report.flips[0].reasons).toEqual([R.DAILY]);
+    expect(report).toMatchObject({ tightened: 1, loosened: 0 });
+  });
+
+  it("measures each entry against the bankroll as of its own time", () => {
+    const ledger = [
+      { ...LEDGER[0], settlement: { outcome: "lost" as const, settled_at: T0 + H / 2 } },
+      { ...LEDGER[1], settlement: { outcome: "lost" as const, settled_at: T0 + 3 * H } },
+      LEDGER[2]
+    ];
+    expect(replayLedger(ledger, UTC_RULES, DEFAULT_CAPITAL).rows.map((r) => r.bankroll)).toEqual([1000, 980, 980]);
+  });
+
+  it("replays cooldowns triggered under the candidate rules", () => {
+    const ledger = [...LEDGER, nth(4, T0 + 2.5 * H, 1)];
+    const report = replayLedger(ledger, { ...UTC_RULES, weekly_pct: 5 }, DEFAULT_CAPITAL);
+    expect(report.rows.map((r) => r.after)).toEqual(["ALLOW", "ALLOW", "RED_ALERT", "RED_ALERT"]);
+    expect(report.rows[2].reasons).toContain(R.WEEKLY);
+    expect(report.rows[3].reasons).toEqual([R.CD_ACTIVE]);
+  });
+
+  it("counts only what was still open at each entry for caps on open exposure", () => {
+    const ledger = [nth(2, T0 + H), closePart(nth(1, T0), 20, 25, T0 + H / 2)];
+    const daily = { ...UTC_RULES, daily_pct: 3 };
+    expect(replayLedger(ledger, daily, DEFAULT_CAPITAL).rows.map((r) => r.after)).toEqual(["ALLOW", "WARN"]);
+    expect(replayLedger(ledger, { ...daily, cap_measures: { daily: "open" } }, DEFAULT_CAPITAL).rows.map((r) => r.after)).toEqual(["ALLOW", "ALLOW"]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, effectiveVersion, historyTransitionIssues, initialHistory, latestRules, loosenedFields, pendingVersions, proposeRules } from "..";
+
+const H = 60 * 60 * 1000;
+const T = Date.UTC(2024, 4, 15, 12);
+
+describe("loosenedFields", () => {
+  it("knows which direction loosens each rule", () => {
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, weekly_pct: 80, unit_pct: 1 })).toEqual(["weekly_pct"]);
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, odds_gate: 500 })).toEqual(["odds_gate"]);
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, odds_gate_prob: 0.1 })).toEqual(["odds_gate_prob"]);
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, friction_delay_sec: 0, loosening_delay_hours: 1 })).toEqual(["friction_delay_sec", "loosening_delay_hours"]);
+    expect(loosenedFields(DEFAULT_RULES, { ...DEFAULT_RULES, odds_gate_mode: "decimal" })).toEqual(["odds_gate_mode"]);
+  });
+});
+
+describe("proposeRules", () => {
+  const h0 = initialHistory(DEFAULT_RULES);
+
+  it("applies tightening immediately", () => {
+    const h = proposeRules(h0, { ...DEFAULT_RULES, weekly_pct: 10 }, T);
+    expect(effectiveVersion(h, T)).toMatchObject({ version: 2, effective_at: T });
+    expect(pendingVersions(h, T)).toEqual([]);
+  });
+
+  it("holds loosening for the delay while tightening in the same change applies now", () => {
+    const h = proposeRules(h0, { ...DEFAULT_RULES, weekly_pct: 80, unit_pct: 1 }, T);
+    expect(effectiveVersion(h, T).rules).toMatchObject({ weekly_pct: 20, unit_pct: 1 });
+    expect(pendingVersions(h, T).map((v) => [v.version, v.effective_at])).toEqual([[3, T + 24 * H]]);
+    expect(latestRules(h, T).weekly_pct).toBe(80);
+    expect(effectiveVersion(h, T + 24 * H).rules).toMatchObject({ weekly_pct: 80, unit_pct: 1 });
+  });
+
+  it("supersedes pending changes, keeping the timer unless something loosens further", () => {
+    const h1 = proposeRules(h0, { ...DEFAULT_RULES, weekly_pct: 80 }, T);
+    const h2 = proposeRules(h1, { ...DEFAULT_RULES, weekly_pct: 80, daily_pct: 5 }, T + H);
+    expect(h2.versions[1].superseded_at).toBe(T + H);
+    expect(pendingVersions(h2, T + H).map((v) => v.effective_at)).toEqual([T + 24 * H]);
+
+    const h3 = proposeRules(h2, { ...DEFAULT_RULES, weekly_pct: 90, daily_pct: 5 }, T + 2 * H);
+    expect(pendingVersions(h3, T + 2 * H).map((v) => v.effective_at)).toEqual([T + 26 * H]);
+
+    // Reverting cancels the pending change
+    const h4 = proposeRules(h3, effectiveVersion(h3, T + 3 * H).rules, T + 3 * H);
+    expect(pendingVersions(h4, T + 3 * H)).toEqual([]);
+    expect(effectiveVersion(h4, T + 48 * H).rules.weekly_pct).toBe(20);
+  });
+});
+
+describe("historyTransitionIssues", () => {
+  const h0 = initialHistory(DEFAULT_RULES);
+
+  it("accepts histories produced by proposeRules", () => {
+    const h1 = proposeRules(h0, { ...DEFAULT_RULES, weekly_pct: 80, unit_pct: 1 }, T);
+    expect(historyTransitionIssues(h0, h1, T)).toEqual([]);
+    expect(historyTransitionIssues(h1, proposeRules(h1, { ...latestRules(h1, T), daily_pct: 5 }, T + H), T + H)).toEqual([]);
+  });
+
+  it("rejects an immediate loosening, rewritten history and superseding what is in force", () => {
+    const loose = { versions: [...h0.versions, { version: 2, rules: { ...DEFAULT_RULES, weekly_pct: 80 }, created_at: T, effective_at: T }] };
+    expect(historyTransitionIssues(h0, loose, T).map((x) => x.path)).toEqual(["versions[1].effective_at"]);
+    expect(historyTransitionIssues(loose, h0, T)[0].message).toBe("history cannot be shortened");
+    expect(historyTransitionIssues(h0, { versions: [{ ...h0.versions[0], superseded_at: T }] }, T)[0].path).toBe("versions[0].superseded_at");
+  });
+});
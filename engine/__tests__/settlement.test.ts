@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAPITAL, americanProfit, capitalLocked, capitalTransitionIssues, deriveBankroll, entryPnl, settle, trimLedger } from "..";
+import { T, entry } from "./fixtures";
+
+describe("americanProfit", () => {
+  it("pays underdogs stake x odds/100 and favourites stake x 100/|odds|", () => {
+    expect(americanProfit(100, 150)).toBe(150);
+    expect(americanProfit(110, -110)).toBeCloseTo(100);
+    expect(americanProfit(50, 100)).toBe(50);
+    expect(americanProfit(50, 0)).toBe(0);
+  });
+});
+
+describe("settlement", () => {
+  it("computes P&L per outcome", () => {
+    const e = entry("a", T, 100, { odds: 200 });
+    expect(entryPnl(e)).toBe(0);
+    expect(entryPnl(settle(e, "won", T))).toBe(200);
+    expect(entryPnl(settle(e, "lost", T))).toBe(-100);
+    expect(entryPnl(settle(e, "push", T))).toBe(0);
+    expect(entryPnl(settle(e, "void", T))).toBe(0);
+    expect(entryPnl(settle(e, "cashed_out", T, 140))).toBe(40);
+  });
+
+  it("requires an amount to cash out", () => {
+    expect(() => settle(entry("a", T, 10, { odds: 100 }), "cashed_out", T)).toThrow();
+  });
+
+  it("settles an entry only once", () => {
+    expect(() => settle(settle(entry("a", T, 10, { odds: 100 }), "won", T), "lost", T)).toThrow("already settled");
+  });
+
+  it("derives the bankroll from starting capital and realized P&L", () => {
+    const ledger = [settle(entry("a", T, 100, { odds: 150 }), "won", T), settle(entry("b", T, 50, { odds: -110 }), "lost", T), entry("c", T, 500, { odds: 100 })];
+    expect(deriveBankroll(1000, ledger)).toBe(1100);
+    expect(capitalLocked(DEFAULT_CAPITAL, ledger)).toBe(true);
+    expect(capitalLocked(DEFAULT_CAPITAL, [entry("c", T, 500, { odds: 100 })])).toBe(false);
+  });
+
+  it("carries realized P&L of trimmed entries", () => {
+    const ledger = [entry("new", T, 10, { odds: 100 }), settle(entry("old", T, 100, { odds: 100 }), "lost", T)];
+    const { ledger: kept, capital } = trimLedger(ledger, 1, DEFAULT_CAPITAL);
+    expect(kept.map((e) => e.id)).toEqual(["new"]);
+    expect(capital.carried_pnl).toBe(-100);
+    expect(deriveBankroll(capital.starting_capital, kept, capital.carried_pnl)).toBe(deriveBankroll(1000, ledger));
+    expect(capitalLocked(capital, kept)).toBe(true);
+    // nothing realized among the dropped entries: nothing to carry
+    expect(trimLedger([entry("b", T, 10, { odds: 100 }), entry("a", T, 10, { odds: 100 })], 1, DEFAULT_CAPITAL, T).capital).toBe(DEFAULT_CAPITAL);
+  });
+
+  it("keeps stored capital writes off the carried P&L and the locked starting capital", () => {
+    const open = [entry("c", T, 500, { odds: 100 })];
+    const settled = [settle(entry("a", T, 100, { odds: 150 }), "won", T)];
+    const raised = { ...DEFAULT_CAPITAL, starting_capital: 5000 };
+    expect(capitalTransitionIssues(DEFAULT_CAPITAL, raised, open)).toEqual([]);
+    expect(capitalTransitionIssues(DEFAULT_CAPITAL, raised, settled).map((i) => i.path)).toEqual(["starting_capital"]);
+    expect(capitalTransitionIssues(DEFAULT_CAPITAL, { ...DEFAULT_CAPITAL, carried_pnl: 500 }, open).map((i) => i.path)).toEqual(["carried_pnl"]);
+    const reset = trimLedger(settled, 0, DEFAULT_CAPITAL, T).capital;
+    expect(capitalTransitionIssues(reset, { ...reset, carried_events: [] }, []).map((i) => i.path)).toEqual(["carried_pnl"]);
+    expect(capitalTransitionIssues(reset, { ...reset }, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BEHAVIOR, DEFAULT_RULES, R, applyUmbrellaCap, evaluate_v1, rank, solveMaxStake } from "..";
+import type { BehavioralState, Exposures, ProposedBet } from "..";
+
+const bet: ProposedBet = { stake: 0, odds: -110, group1_id: "E1", group2_id: "T1" };
+const exp: Exposures = { daily_staked: 45.5, weekly_staked: 150, same_group1_staked: 0, same_group2_7d_staked: 0, bets_today: 1 };
+const decide = (beh: BehavioralState = DEFAULT_BEHAVIOR) => (stake: number) => evaluate_v1(1000, DEFAULT_RULES, { ...bet, stake }, exp, beh);
+
+const summary = (limits: ReturnType<typeof solveMaxStake>) => limits.map((l) => [l.tier, l.max_stake, l.binding.map((c) => c.code)]);
+
+describe("solveMaxStake", () => {
+  it("finds the largest stake per tier and the constraint that binds it", () => {
+    // daily headroom 14.50 < unit cap 20 < group1 cap 40 < weekly headroom 50
+    expect(summary(solveMaxStake(decide()))).toEqual([
+      ["ALLOW", 14.5, [R.DAILY]],
+      ["WARN", 20, [R.UNIT]],
+      ["HARD_WARN", 50, [R.WEEKLY]]
+    ]);
+    for (const l of solveMaxStake(decide())) {
+      expect(rank(decide()(l.max_stake!).verdict)).toBeLessThanOrEqual(rank(l.tier));
+      expect(rank(decide()(l.max_stake! + 0.01).verdict)).toBeGreaterThan(rank(l.tier));
+    }
+  });
+
+  it("includes steps applied after evaluation and reports tiers out of reach", () => {
+    const umbrella = (stake: number) => applyUmbrellaCap(decide()(stake), stake, 390, 400);
+    expect(solveMaxStake(umbrella)[0]).toMatchObject({ max_stake: 10, binding: [{ code: R.UMBRELLA }] });
+
+    const cooling = solveMaxStake(decide({ ...DEFAULT_BEHAVIOR, cooldown_active: true }));
+    expect(cooling.map((l) => l.max_stake)).toEqual([null, null, null]);
+  });
+
+  it("bisects stake-dependent limits that aren't money caps", () => {
+    // a stand-in stake spike above 12.34
+    const spiky = (stake: number) => decide(stake > 12.34 ? { ...DEFAULT_BEHAVIOR, stake_velocity_spike: true, consecutive_overrides: 3 } : DEFAULT_BEHAVIOR)(stake);
+    expect(summary(solveMaxStake(spiky))[0]).toEqual(["ALLOW", 12.34, [R.STAKE_SPIKE, R.CONS_OVR]]);
+  });
+});
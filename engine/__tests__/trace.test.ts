@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_BEHAVIOR, DEFAULT_RULES, R, applyUmbrellaCap, evaluate_v1 } from "..";
+import type { Exposures, ProposedBet, RuleCheck, UserRules } from "..";
+
+const rules: UserRules = { ...DEFAULT_RULES, cap_overrides: [{ dimension: "group2", value: "T1", cap_pct: 2 }] };
+const bet: ProposedBet = { stake: 15, odds: 300, group1_id: "E1", group2_id: "T1" };
+const exp: Exposures = { daily_staked: 50, weekly_staked: 100, same_group1_staked: 0, same_group2_7d_staked: 10, bets_today: 1 };
+
+const byCode = (checks: RuleCheck[]) => Object.fromEntries(checks.map((c) => [c.code, c]));
+
+describe("decision trace", () => {
+  it("reports every rule with its cap, projection, headroom and contribution", () => {
+    const d = evaluate_v1(1000, rules, bet, exp, DEFAULT_BEHAVIOR);
+    expect(d.reasons).toEqual([R.DAILY, R.TEAM, R.ODDS]);
+    const checks = d.trace!.checks;
+    expect(checks.map((c) => c.code)).toEqual([R.UNIT, R.DAILY, R.WEEKLY, R.EVENT, R.TEAM, R.FREQ, R.DAILY_LOSS, R.WEEKLY_LOSS, R.DRAWDOWN, R.ODDS, R.STAKE_SPIKE, R.FREQ_SPIKE, R.CONS_OVR, R.CD_HIST, R.LOSS_CHASE, R.REVENGE, R.LOSS_STREAK]);
+
+    const c = byCode(checks);
+    expect(c[R.UNIT]).toEqual({
+      code: R.UNIT,
+      label: "Unit size",
+      unit: "money",
+      cap: 20,
+      cap_pct: 2,
+      projected: 15,
+      headroom: 5,
+      passed: true,
+      contributes: null
+    });
+    expect(c[R.DAILY]).toMatchObject({ cap: 60, current: 50, projected: 65, headroom: -5, passed: false, contributes: "violation" });
+    expect(c[R.TEAM]).toMatchObject({ cap: 20, cap_pct: 2, note: "override for T1", current: 10, projected: 25, contributes: "violation" });
+    expect(c[R.ODDS]).toMatchObject({ unit: "price", cap: 3.5, projected: 4, passed: false, contributes: "gate" });
+    expect(c[R.STAKE_SPIKE]).toEqual({ code: R.STAKE_SPIKE, label: "Stake velocity spike", unit: "flag", passed: true, contributes: null });
+    expect(d.trace).toMatchObject({ base: "HARD_WARN", amplifications: [], decided_by: "base" });
+  });
+
+  it("still measures every rule under a cooldown hard stop", () => {
+    const d = evaluate_v1(1000, rules, bet, exp, { ...DEFAULT_BEHAVIOR, cooldown_active: true });
+    expect(d.reasons).toEqual([R.CD_ACTIVE]);
+    expect(d.trace!.decided_by).toBe("cooldown_active");
+    expect(d.trace!.checks[0]).toMatchObject({ code: R.CD_ACTIVE, passed: false });
+    expect(byCode(d.trace!.checks)[R.DAILY]).toMatchObject({ passed: false, contributes: null });
+  });
+
+  it("adds the umbrella check after the weekly cap, passing or not", () => {
+    const d = evaluate_v1(1000, rules, { ...bet, odds: -110, stake: 5 }, { ...exp, same_group2_7d_staked: 0 }, DEFAULT_BEHAVIOR);
+    const under = applyUmbrellaCap(d, 5, 300, 400);
+    expect(under.verdict).toBe("ALLOW");
+    expect(under.trace!.checks[3]).toMatchObject({ code: R.UMBRELLA, current: 300, projected: 305, headroom: 95, passed: true });
+
+    const over = applyUmbrellaCap(d, 5, 398, 400);
+    expect(over.trace!.checks[3]).toMatchObject({ code: R.UMBRELLA, passed: false, contributes: "violation" });
+    expect(over.trace!.decided_by).toBe("umbrella_cap");
+  });
+});
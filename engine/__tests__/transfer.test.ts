@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, applyLedgerPatch, applyMerge, diffLedger, exportJson, exportLedgerCsv, exportRulesCsv, parseCsv, parseImport, planMerge, settle, toCsv } from "..";
+import type { LedgerEntry } from "..";
+import { T, entry } from "./fixtures";
+
+const ledger: LedgerEntry[] = [
+  { ...entry("b", T + 1000, 40), verdict: "HARD_WARN", reasons: ["UNIT_OVER", "DAILY_OVER"], override: { tier: "HARD_WARN", justification: 'said "fine", again\nreally' }, rules_version: 3 },
+  settle({ ...entry("a", T, 10), price: 2.5, odds_format: "decimal", odds_input: "2.5", odds: 150 }, "cashed_out", T + 5000, 12),
+  { ...entry("p", T - 1000, 5), price: 3.64, odds: 264, legs: [{ odds: -110, group1_id: "E1", group2_id: "T1" }, { odds: 100, price: 2, odds_format: "decimal", odds_input: "2", group1_id: "E2", group2_id: "T2" }] }
+];
+
+describe("csv", () => {
+  it("round-trips quotes, commas and newlines", () => {
+    const rows = [["a", 'b "q"', "c,d"], ["line1\nline2", "", "x"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe("export / import", () => {
+  it("round-trips the ledger and rules through JSON", () => {
+    const parsed = parseImport(exportJson(ledger, { ...DEFAULT_RULES, unit_pct: 3 }, T));
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.entries).toEqual(ledger);
+    expect(parsed.rules?.unit_pct).toBe(3);
+  });
+
+  it("round-trips the ledger and rules through CSV", () => {
+    expect(parseImport(exportLedgerCsv(ledger))).toEqual({ entries: ledger, rules: undefined, issues: [] });
+    expect(parseImport(exportRulesCsv(DEFAULT_RULES)).rules).toEqual(DEFAULT_RULES);
+  });
+
+  it("rejects invalid rows with row-level issues and keeps the rest", () => {
+    const doc = JSON.parse(exportJson(ledger, DEFAULT_RULES, T));
+    doc.entries[1].stake = -5;
+    const parsed = parseImport(JSON.stringify(doc));
+    expect(parsed.entries.map((e) => e.id)).toEqual(["b", "p"]);
+    expect(parsed.issues).toEqual([{ row: 2, path: "stake", message: "must be >= 0" }]);
+  });
+
+  it("refuses unknown versions", () => {
+    const doc = { ...JSON.parse(exportJson(ledger, DEFAULT_RULES, T)), version: 99 };
+    const parsed = parseImport(JSON.stringify(doc));
+    expect(parsed.entries).toEqual([]);
+    expect(parsed.issues[0].path).toBe("version");
+  });
+});
+
+describe("merge", () => {
+  const current = [entry("b", T + 1000, 40), entry("a", T, 10)];
+
+  it("dedupes by id and reports conflicting fields", () => {
+    const incoming = [entry("a", T, 10), { ...entry("b", T + 1000, 45) }, entry("c", T + 2000, 5), entry("c", T + 2000, 6)];
+    const plan = planMerge(current, incoming);
+    expect(plan.added.map((e) => e.id)).toEqual(["c"]);
+    expect(plan.unchanged).toEqual(["a"]);
+    expect(plan.conflicts.map((c) => [c.id, c.fields])).toEqual([["b", ["stake"]]]);
+
+    expect(applyMerge(current, plan).map((e) => [e.id, e.stake])).toEqual([["c", 5], ["b", 40], ["a", 10]]);
+    expect(applyMerge(current, plan, { b: "incoming" }).map((e) => e.stake)).toEqual([5, 45, 10]);
+  });
+});
+
+describe("incremental saves", () => {
+  it("sends only what changed and rebuilds the same ledger from it", () => {
+    const a = entry("a", T, 10), b = entry("b", T + 1000, 40), c = entry("c", T + 2000, 5);
+    const prev = [b, a];
+    const next = [c, settle(b, "won", T + 3000)];
+    const patch = diffLedger(prev, next);
+    expect(patch.put.map((e) => e.id)).toEqual(["c", "b"]);
+    expect(patch.remove).toEqual(["a"]);
+    expect(applyLedgerPatch(prev, patch)).toEqual(next);
+    expect(diffLedger(next, next)).toEqual({ put: [], remove: [] });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, SCHEMAS, validate } from "..";
+import vectors from "./golden.json";
+
+const bet = { stake: 10, odds: -110, group1_id: "EVENT-1", group2_id: "TEAM-1" };
+
+describe("validate", () => {
+  it("accepts every golden vector input", () => {
+    for (const v of vectors) {
+      const { bankroll, rules, bet, beh } = v.input;
+      expect(validate("EvaluateRequest", { bankroll, rules, bet, beh })).toEqual([]);
+      expect(validate("Exposures", v.input.exp)).toEqual([]);
+      expect(validate("DecisionResult", v.expected)).toEqual([]);
+    }
+  });
+
+  it("reports every issue with a dotted path", () => {
+    const issues = validate("EvaluateRequest", {
+      bankroll: -1,
+      rules: { ...DEFAULT_RULES, daily_pct: "6" },
+      bet: { ...bet, group2_id: undefined },
+      extra: true
+    });
+    expect(issues).toEqual([
+      { path: "bankroll", message: "must be >= 0" },
+      { path: "rules.daily_pct", message: "expected number, got string" },
+      { path: "bet.group2_id", message: "is required" },
+      { path: "extra", message: "is not a recognised field" }
+    ]);
+  });
+
+  it("checks enums, integers and array items", () => {
+    const issues = validate("LedgerEntry", {
+      id: "",
+      ts: 1.5,
+      ...bet,
+      verdict: "MAYBE",
+      reasons: ["OK", 3]
+    });
+    expect(issues).toEqual([
+      { path: "id", message: "must be at least 1 characters" },
+      { path: "ts", message: "expected integer" },
+      { path: "verdict", message: "must be one of ALLOW, WARN, HARD_WARN, RED_ALERT" },
+      { path: "reasons[1]", message: "expected string, got number" }
+    ]);
+  });
+
+  it("leaves a commit's id, time and results to the server", () => {
+    const commit = { ...bet, verdict: "ALLOW", reasons: [] };
+    expect(validate("LedgerCommit", commit)).toEqual([]);
+    expect(validate("LedgerCommit", { ...commit, id: "x", ts: 1, settlement: { outcome: "won", settled_at: 1 } }).map((i) => i.path)).toEqual([
+      "id",
+      "ts",
+      "settlement"
+    ]);
+  });
+
+  it("rejects non-objects at the root", () => {
+    expect(validate("ProposedBet", null)).toEqual([{ path: "", message: "expected object, got null" }]);
+  });
+
+  it("only references schemas that exist", () => {
+    const refs = JSON.stringify(SCHEMAS).match(/#\/components\/schemas\/\w+/g) ?? [];
+    for (const r of refs) expect(SCHEMAS[r.split("/").pop() as string]).toBeDefined();
+  });
+});
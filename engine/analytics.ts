@@ -0,0 +1,138 @@
+import { MS_1D, MS_7D, hourOfDay, startOfDay, startOfWeek } from "./clock";
+import { isOverride } from "./behavior";
+import { positionValues } from "./dimensions";
+import type { VerdictCounts } from "./replay";
+import { effectiveVersion } from "./rulesHistory";
+import type { RulesHistory } from "./rulesHistory";
+import type { CapitalState } from "./settlement";
+import { pnlEvents } from "./settlement";
+import type { LedgerEntry, UserRules } from "./types";
+
+/** ---------- Analytics (history views derived from the ledger) ---------- */
+/** Staked in one day or week window against the cap in force when it started. */
+export type CapPoint = { start: number; staked: number; cap: number };
+
+export type VerdictWeek = { start: number; counts: VerdictCounts; override_rate: number };
+
+export type ReasonCount = { code: string; count: number };
+
+export type GroupShare = { id: string; staked: number; share: number; bets: number };
+
+export type HourBucket = { hour: number; bets: number; staked: number; overrides: number };
+
+export type LedgerAnalytics = {
+  daily: CapPoint[];
+  weekly: CapPoint[];
+  verdicts: VerdictWeek[];
+  reasons: ReasonCount[];   // most frequent first
+  group1: GroupShare[];     // largest first
+  group2: GroupShare[];
+  bets: number;
+  overrides: number;        // committed through a non-ALLOW verdict
+  override_rate: number;
+  hours: HourBucket[];      // 0-23 in the rules' timezone
+};
+
+const noVerdicts = (): VerdictCounts => ({ ALLOW: 0, WARN: 0, HARD_WARN: 0, RED_ALERT: 0 });
+
+// Window starts from the first entry through `now`. `step` lands inside the next window
+// whatever the DST change: days run 23-25h, weeks 167-169h.
+function windowStarts(first: number, now: number, start: (t: number) => number, step: number): number[] {
+  const out: number[] = [];
+  for (let s = start(first); s <= now; s = start(s + step)) out.push(s);
+  return out;
+}
+
+// Bankroll just before each of a series of ascending instants
+function bankrollWalk(capital: CapitalState, events: { at: number; pnl: number }[]): (t: number) => number {
+  let k = 0, realized = 0;
+  return (t) => {
+    while (k < events.length && events[k].at < t) realized += events[k++].pnl;
+    return capital.starting_capital + capital.carried_pnl + realized;
+  };
+}
+
+function bucketOf(starts: number[], ts: number): number {
+  let lo = 0, hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (starts[mid] <= ts) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+function shares(ledger: LedgerEntry[], key: "group1" | "group2", total: number, top: number): GroupShare[] {
+  const by = new Map<string, GroupShare>();
+  for (const e of ledger) {
+    for (const id of positionValues(e, key)) {
+      const g = by.get(id) ?? { id, staked: 0, share: 0, bets: 0 };
+      g.staked += e.stake;
+      g.bets += 1;
+      by.set(id, g);
+    }
+  }
+  return [...by.values()]
+    .map((g) => ({ ...g, share: total > 0 ? g.staked / total : 0 }))
+    .sort((a, b) => b.staked - a.staked || a.id.localeCompare(b.id))
+    .slice(0, top);
+}
+
+/**
+ * Everything the analytics view charts. Days and weeks follow the time model of the rules in
+ * force at `now`; each window's cap uses the rules and the bankroll (starting capital, carried
+ * P&L and P&L realized before it) as they stood when the window started.
+ */
+export function ledgerAnalytics(ledger: LedgerEntry[], history: RulesHistory, capital: CapitalState, now: number = Date.now(), top = 10): LedgerAnalytics {
+  const model: UserRules = effectiveVersion(history, now).rules;
+  const first = ledger.reduce((m, e) => Math.min(m, e.ts), Infinity);
+  const last = Math.max(now, first);
+  const days = Number.isFinite(first) ? windowStarts(first, last, (t) => startOfDay(t, model), MS_1D + MS_1D / 12) : [];
+  const weeks = Number.isFinite(first) ? windowStarts(first, last, (t) => startOfWeek(t, model), MS_7D + MS_1D) : [];
+
+  const events = ledger.flatMap(pnlEvents).sort((a, b) => a.at - b.at);
+  const series = (starts: number[], pct: (r: UserRules) => number): CapPoint[] => {
+    const bankrollAt = bankrollWalk(capital, events);
+    return starts.map((start) => ({ start, staked: 0, cap: bankrollAt(start) * (pct(effectiveVersion(history, start).rules) / 100) }));
+  };
+  const daily = series(days, (r) => r.daily_pct);
+  const weekly = series(weeks, (r) => r.weekly_pct);
+  const verdicts: VerdictWeek[] = weeks.map((start) => ({ start, counts: noVerdicts(), override_rate: 0 }));
+  const weekOverrides = weeks.map(() => 0);
+
+  const reasons = new Map<string, number>();
+  const hours: HourBucket[] = Array.from({ length: 24 }, (_, hour) => ({ hour, bets: 0, staked: 0, overrides: 0 }));
+  let total = 0, overrides = 0;
+  for (const e of ledger) {
+    const d = bucketOf(days, e.ts), w = bucketOf(weeks, e.ts);
+    const over = isOverride(e);
+    daily[d].staked += e.stake;
+    weekly[w].staked += e.stake;
+    verdicts[w].counts[e.verdict] += 1;
+    if (over) weekOverrides[w] += 1;
+    for (const code of e.reasons) reasons.set(code, (reasons.get(code) ?? 0) + 1);
+    const h = hours[hourOfDay(e.ts, model)];
+    h.bets += 1;
+    h.staked += e.stake;
+    if (over) h.overrides += 1;
+    total += e.stake;
+    if (over) overrides += 1;
+  }
+  verdicts.forEach((v, i) => {
+    const n = Object.values(v.counts).reduce((a, b) => a + b, 0);
+    v.override_rate = n > 0 ? weekOverrides[i] / n : 0;
+  });
+
+  return {
+    daily,
+    weekly,
+    verdicts,
+    reasons: [...reasons].map(([code, count]) => ({ code, count })).sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)),
+    group1: shares(ledger, "group1", total, top),
+    group2: shares(ledger, "group2", total, top),
+    bets: ledger.length,
+    overrides,
+    override_rate: ledger.length > 0 ? overrides / ledger.length : 0,
+    hours
+  };
+}
@@ -0,0 +1,157 @@
+import { NO_COOLDOWN, isCooldownActive } from "./cooldown";
+import type { CooldownState } from "./cooldown";
+import { positionValues } from "./dimensions";
+import { R } from "./reasons";
+import { entryPnl } from "./settlement";
+import type { BehavioralState, LedgerEntry, ProposedBet, UserRules } from "./types";
+
+/** ---------- Behavior analyzer (derives BehavioralState from the ledger) ---------- */
+export type BehaviorAnalysis = {
+  state: BehavioralState;
+  stake_median: number;     // trailing median over stake_spike_lookback bets (0 = no history)
+  recent_bets_1h: number;   // bets in the last hour, incl. the proposed one
+  baseline_per_hour: number; // bets/hour over the rest of the trailing 7d
+  last_loss_stake: number;  // stake of the latest settlement if it lost within tilt_window_hours (0 = none)
+};
+
+const MS_1H = 60 * 60 * 1000;
+const MS_1D = 24 * MS_1H;
+const BASELINE_HOURS = 7 * 24 - 1;
+
+export function median(xs: number[]): number {
+  if (xs.length === 0) return 0;
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+/** A commit made against a non-ALLOW verdict (entries predating override records count too). */
+export function isOverride(e: LedgerEntry): boolean {
+  return e.override !== undefined || e.verdict !== "ALLOW";
+}
+
+/** A commit made while a cooldown was active. */
+export function isCooldownViolation(e: LedgerEntry): boolean {
+  return e.reasons.includes(R.CD_ACTIVE);
+}
+
+/** What the behavior flags read from history, scanned once per ledger / rules / cooldown change. */
+export type BehaviorHistory = {
+  now: number;
+  stake_median: number;
+  recent_bets_1h: number;
+  baseline_per_hour: number;
+  consecutive_overrides: number;
+  cooldown_violations: number;
+  cooldown_active: boolean;
+  last_loss_stake: number;
+  loss_group2: string[];    // group2 values of losses settled within tilt_window_hours
+  loss_streak: number;
+};
+
+export function behaviorHistory(
+  ledger: LedgerEntry[],
+  rules: UserRules,
+  now: number,
+  cooldown: CooldownState = NO_COOLDOWN
+): BehaviorHistory {
+  const past = ledger.filter((e) => e.ts <= now).sort((a, b) => b.ts - a.ts);
+  // Tilt: settled history as of now, newest settlement first
+  const settled = past
+    .filter((e) => e.settlement && e.settlement.settled_at <= now)
+    .sort((a, b) => b.settlement!.settled_at - a.settlement!.settled_at);
+  return scanBehavior(newestFirst(past), newestFirst(settled), rules, now, cooldown);
+}
+
+/** Entries newest first, read by position so a caller can hand over part of a longer array. */
+export type NewestFirst = { length: number; at: (i: number) => LedgerEntry };
+
+function newestFirst(xs: LedgerEntry[]): NewestFirst {
+  return { length: xs.length, at: (i) => xs[i] };
+}
+
+/**
+ * behaviorHistory over `past` (committed by `now`, newest first) and `settled` (settled by
+ * `now`, newest settlement first). Only the entries inside the look-back windows are read,
+ * plus the runs of overrides and losses that end at `now`.
+ */
+export function scanBehavior(past: NewestFirst, settled: NewestFirst, rules: UserRules, now: number, cooldown: CooldownState = NO_COOLDOWN): BehaviorHistory {
+  // Trailing median stake
+  const lookback: number[] = [];
+  for (let i = 0; i < Math.min(past.length, Math.max(0, Math.floor(rules.stake_spike_lookback))); i++) lookback.push(past.at(i).stake);
+  const stake_median = median(lookback);
+
+  // Frequency: last hour vs. the preceding 7d baseline
+  const hourStart = now - MS_1H;
+  const baselineStart = now - 7 * MS_1D;
+  let recent = 1;
+  let baseline = 0;
+  for (let i = 0; i < past.length && past.at(i).ts >= baselineStart; i++) {
+    if (past.at(i).ts >= hourStart) recent += 1;
+    else baseline += 1;
+  }
+
+  // Overrides: unbroken run of overridden commits, newest first
+  let consecutive_overrides = 0;
+  while (consecutive_overrides < past.length && isOverride(past.at(consecutive_overrides))) consecutive_overrides += 1;
+
+  const historyStart = now - rules.cooldown_history_days * MS_1D;
+  let cooldown_violations = cooldown.violations.filter((t) => t >= historyStart && t <= now).length;
+  for (let i = 0; i < past.length && past.at(i).ts >= historyStart; i++) if (isCooldownViolation(past.at(i))) cooldown_violations += 1;
+
+  const tiltStart = now - rules.tilt_window_hours * MS_1H;
+  const recentLosses: LedgerEntry[] = [];
+  for (let i = 0; i < settled.length && settled.at(i).settlement!.settled_at >= tiltStart; i++) {
+    if (entryPnl(settled.at(i)) < 0) recentLosses.push(settled.at(i));
+  }
+  let loss_streak = 0;
+  for (let i = 0; i < settled.length; i++) {
+    const pnl = entryPnl(settled.at(i));
+    if (pnl > 0) break;
+    if (pnl < 0) loss_streak += 1;
+  }
+
+  return {
+    now,
+    stake_median,
+    recent_bets_1h: recent,
+    baseline_per_hour: baseline / BASELINE_HOURS,
+    consecutive_overrides,
+    cooldown_violations,
+    cooldown_active: isCooldownActive(cooldown, now),
+    last_loss_stake: settled.length > 0 && recentLosses[0] === settled.at(0) ? settled.at(0).stake : 0,
+    loss_group2: [...new Set(recentLosses.flatMap((e) => positionValues(e, "group2")))],
+    loss_streak
+  };
+}
+
+/** The flags for one proposed bet over a scanned history: no ledger access, cheap per stake. */
+export function behaviorFor(h: BehaviorHistory, rules: UserRules, bet: ProposedBet): BehaviorAnalysis {
+  const group2 = positionValues(bet, "group2");
+  return {
+    state: {
+      stake_velocity_spike: h.stake_median > 0 && bet.stake > rules.stake_spike_multiple * h.stake_median,
+      frequency_spike: h.recent_bets_1h >= rules.freq_spike_min_bets && h.recent_bets_1h > rules.freq_spike_multiple * h.baseline_per_hour,
+      consecutive_overrides: h.consecutive_overrides,
+      cooldown_violations: h.cooldown_violations,
+      cooldown_active: h.cooldown_active,
+      loss_chasing: rules.loss_chase_multiple > 0 && h.last_loss_stake > 0 && bet.stake > rules.loss_chase_multiple * h.last_loss_stake,
+      revenge_betting: h.loss_group2.some((v) => group2.includes(v)),
+      loss_streak: h.loss_streak
+    },
+    stake_median: h.stake_median,
+    recent_bets_1h: h.recent_bets_1h,
+    baseline_per_hour: h.baseline_per_hour,
+    last_loss_stake: h.last_loss_stake
+  };
+}
+
+export function analyzeBehavior(
+  ledger: LedgerEntry[],
+  rules: UserRules,
+  bet: ProposedBet,
+  now: number,
+  cooldown: CooldownState = NO_COOLDOWN
+): BehaviorAnalysis {
+  return behaviorFor(behaviorHistory(ledger, rules, now, cooldown), rules, bet);
+}
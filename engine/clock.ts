@@ -0,0 +1,135 @@
+import type { UserRules } from "./types";
+
+/** ---------- Clock: day / week boundaries under the user's time model ---------- */
+export type TimeModel = Pick<UserRules, "timezone" | "day_rollover_hour" | "week_start_day" | "window_mode">;
+
+/** Device timezone, midnight rollover, Monday weeks, calendar windows (the v1 behaviour). */
+export const LOCAL_TIME: TimeModel = { timezone: "", day_rollover_hour: 0, week_start_day: 1, window_mode: "calendar" };
+
+export type TimeWindows = {
+  day_start: number;        // start of the current day window
+  week_start: number;       // start of the current week window
+  rolling_7d_start: number; // always now - 7d
+};
+
+const MS_1H = 60 * 60 * 1000;
+export const MS_1D = 24 * MS_1H;
+export const MS_7D = 7 * MS_1D;
+
+type WallClock = { y: number; m: number; d: number; h: number; min: number; s: number }; // m is 0-based
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(zone: string): Intl.DateTimeFormat {
+  let f = formatters.get(zone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatters.set(zone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(tz: string): boolean {
+  if (!tz) return true; // empty = device timezone
+  try {
+    formatter(tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The IANA zone a model resolves to; empty or unknown names fall back to the device's. */
+export function resolveTimeZone(tz: string): string {
+  return tz && isValidTimeZone(tz) ? tz : Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function wallClock(ts: number, zone: string): WallClock {
+  const parts: Record<string, number> = {};
+  for (const p of formatter(zone).formatToParts(ts)) if (p.type !== "literal") parts[p.type] = Number(p.value);
+  return { y: parts.year, m: parts.month - 1, d: parts.day, h: parts.hour, min: parts.minute, s: parts.second };
+}
+
+function offsetAt(ts: number, zone: string): number {
+  const w = wallClock(ts, zone);
+  return Date.UTC(w.y, w.m, w.d, w.h, w.min, w.s) - (ts - (((ts % 1000) + 1000) % 1000));
+}
+
+/**
+ * Instant at which `zone` reads y-m-d h:00. Day overflow (d = 0, d = 32) is normalised
+ * as Date.UTC does. Inside a DST gap the result lands within the hour either side.
+ */
+function zonedTime(zone: string, y: number, m: number, d: number, h: number): number {
+  const guess = Date.UTC(y, m, d, h);
+  const t = guess - offsetAt(guess, zone);
+  const o = offsetAt(t, zone);
+  return guess - o === t ? t : guess - o;
+}
+
+function rolloverHour(t: TimeModel): number {
+  return Math.min(23, Math.max(0, Math.floor(t.day_rollover_hour) || 0));
+}
+
+/** Wall-clock hour (0-23) of `ts` in the model's zone. */
+export function hourOfDay(ts: number, t: TimeModel = LOCAL_TIME): number {
+  return wallClock(ts, resolveTimeZone(t.timezone)).h;
+}
+
+/** Calendar date (in `zone`) of the day window containing `now`. */
+function dayOf(now: number, zone: string, hour: number): { y: number; m: number; d: number } {
+  const w = wallClock(now, zone);
+  return { y: w.y, m: w.m, d: w.h < hour ? w.d - 1 : w.d };
+}
+
+/** Start of the calendar day containing `now`: the most recent rollover hour in the model's zone. */
+export function startOfDay(now: number, t: TimeModel = LOCAL_TIME): number {
+  const zone = resolveTimeZone(t.timezone);
+  const hour = rolloverHour(t);
+  const { y, m, d } = dayOf(now, zone, hour);
+  return zonedTime(zone, y, m, d, hour);
+}
+
+/** Start of the calendar week containing `now`: its first day's rollover hour. */
+export function startOfWeek(now: number, t: TimeModel = LOCAL_TIME): number {
+  const zone = resolveTimeZone(t.timezone);
+  const hour = rolloverHour(t);
+  const { y, m, d } = dayOf(now, zone, hour);
+  const first = ((Math.floor(t.week_start_day) % 7) + 7) % 7 || 0;
+  const back = (new Date(Date.UTC(y, m, d)).getUTCDay() - first + 7) % 7;
+  return zonedTime(zone, y, m, d - back, hour);
+}
+
+/** Every exposure window at `now`: calendar boundaries, or trailing 24h / 7d in rolling mode. */
+export function windowsAt(t: TimeModel, now: number): TimeWindows {
+  const rolling = t.window_mode === "rolling";
+  return {
+    day_start: rolling ? now - MS_1D : startOfDay(now, t),
+    week_start: rolling ? now - MS_7D : startOfWeek(now, t),
+    rolling_7d_start: now - MS_7D
+  };
+}
+
+/** Human summary of the model, for settings and captions. */
+export function describeTimeModel(t: TimeModel): string {
+  if (t.window_mode === "rolling") return "rolling 24h / 7d";
+  const day = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][((Math.floor(t.week_start_day) % 7) + 7) % 7 || 0];
+  const hour = String(rolloverHour(t)).padStart(2, "0");
+  return `days from ${hour}:00, weeks from ${day} • ${resolveTimeZone(t.timezone)}`;
+}
+
+// v1 names, kept for callers outside the engine
+export function startOfLocalDay(d: Date): number {
+  return startOfDay(d.getTime());
+}
+export function startOfISOWeekLocal(d: Date): number {
+  return startOfWeek(d.getTime());
+}
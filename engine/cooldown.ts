@@ -0,0 +1,86 @@
+import { windowsAt } from "./clock";
+import { deriveBankroll, drawdownReached, realizedLosses } from "./settlement";
+import type { CapitalState } from "./settlement";
+import type { LedgerEntry, UserRules, Verdict } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Cooldown state machine (persisted by the caller) ---------- */
+export type CooldownState = {
+  started_at: number;    // epoch ms of the current/last cooldown start (0 = never)
+  until: number;         // epoch ms the cooldown expires; active while now < until
+  trigger_count: number; // consecutive triggers inside the repeat window
+  violations: number[];  // epoch ms of commit attempts made while active
+};
+
+export const NO_COOLDOWN: CooldownState = { started_at: 0, until: 0, trigger_count: 0, violations: [] };
+
+const MS_1M = 60 * 1000;
+const MS_1D = 24 * 60 * MS_1M;
+
+export function isCooldownActive(s: CooldownState, now: number): boolean {
+  return now < s.until;
+}
+
+export function cooldownRemainingMs(s: CooldownState, now: number): number {
+  return Math.max(0, s.until - now);
+}
+
+/** Duration of the n-th trigger (1-based) in a repeat run, capped at cooldown_max_hours. */
+export function cooldownDurationMs(rules: UserRules, n: number): number {
+  const minutes = rules.cooldown_minutes * Math.pow(Math.max(1, rules.cooldown_escalation), Math.max(0, n - 1));
+  return Math.min(minutes * MS_1M, rules.cooldown_max_hours * 60 * MS_1M);
+}
+
+/**
+ * Start (or extend) a cooldown. A trigger within cooldown_repeat_window_days of the
+ * previous start escalates; an older one restarts the run at the base length.
+ */
+export function triggerCooldown(s: CooldownState, rules: UserRules, now: number): CooldownState {
+  const repeat = s.started_at > 0 && now - s.started_at <= rules.cooldown_repeat_window_days * MS_1D;
+  const trigger_count = repeat ? s.trigger_count + 1 : 1;
+  const until = Math.max(s.until, now + cooldownDurationMs(rules, trigger_count));
+  return { ...s, started_at: now, until, trigger_count };
+}
+
+/** Record a commit attempt; only attempts made during an active cooldown count. */
+export function recordCommitAttempt(s: CooldownState, now: number): CooldownState {
+  if (!isCooldownActive(s, now)) return s;
+  return { ...s, violations: [...s.violations, now] };
+}
+
+/**
+ * A stored cooldown may only move the way the state machine moves it: recorded attempts are
+ * never dropped, and an active cooldown is neither shortened nor stepped back down its
+ * escalation (a later trigger may restart the count).
+ */
+export function cooldownTransitionIssues(prev: CooldownState, next: CooldownState, now: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!prev.violations.every((t, i) => next.violations[i] === t)) issues.push({ path: "violations", message: "recorded attempts cannot be dropped" });
+  if (!isCooldownActive(prev, now)) return issues;
+  if (next.until < prev.until) issues.push({ path: "until", message: "an active cooldown cannot be shortened" });
+  if (next.started_at < prev.started_at) issues.push({ path: "started_at", message: "cannot move back while a cooldown is active" });
+  else if (next.started_at === prev.started_at && next.trigger_count < prev.trigger_count) {
+    issues.push({ path: "trigger_count", message: "cannot be lowered while a cooldown is active" });
+  }
+  return issues;
+}
+
+/**
+ * A commit as the ledger API sees it: refused (and recorded as a violation) while a cooldown
+ * is active; a RED_ALERT commit otherwise starts one, as committing through it does on the page.
+ */
+export function cooldownOnCommit(s: CooldownState, rules: UserRules, verdict: Verdict, now: number): { state: CooldownState; blocked: boolean } {
+  if (isCooldownActive(s, now)) return { state: recordCommitAttempt(s, now), blocked: true };
+  return { state: verdict === "RED_ALERT" ? triggerCooldown(s, rules, now) : s, blocked: false };
+}
+
+/**
+ * Recording a settlement or close (`prev` -> `next`): the one that takes the realized drawdown
+ * to max_drawdown_pct starts a cooldown there and then, instead of waiting for the next commit.
+ */
+export function cooldownOnRealized(s: CooldownState, rules: UserRules, prev: LedgerEntry[], next: LedgerEntry[], capital: CapitalState, now: number): CooldownState {
+  const w = windowsAt(rules, now);
+  const reached = (ledger: LedgerEntry[]) =>
+    drawdownReached(rules, deriveBankroll(capital.starting_capital, ledger, capital.carried_pnl), realizedLosses(ledger, w, now, capital).drawdown);
+  return reached(next) && !reached(prev) ? triggerCooldown(s, rules, now) : s;
+}
@@ -0,0 +1,160 @@
+import { windowsAt } from "./clock";
+import { isConcentrationReason, positionValues } from "./dimensions";
+import { betPrice } from "./odds";
+import { R } from "./reasons";
+import type { CustomRule, DimensionWindow, Exposures, LedgerEntry, ProposedBet, RuleField, RuleOp, RulePredicate, UserRules } from "./types";
+import { validate } from "./validate";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Custom rules (declarative predicates and windowed aggregates) ---------- */
+const NUMERIC_FIELDS: RuleField[] = ["stake", "odds", "price", "legs"];
+const TEXT_FIELDS: RuleField[] = ["group1_id", "group2_id", "outcome", "verdict"];
+const ORDERING_OPS: RuleOp[] = [">", ">=", "<", "<="];
+
+// A proposed bet or a committed entry; bets have no verdict and read as outcome "open"
+type Position = ProposedBet & Partial<Pick<LedgerEntry, "verdict" | "settlement">>;
+
+/** Group fields can hold several values on a multi-leg position. */
+function fieldValues(x: Position, field: RuleField): (number | string)[] {
+  switch (field) {
+    case "stake": return [x.stake];
+    case "odds": return [x.odds];
+    case "price": return [betPrice(x)];
+    case "legs": return [x.legs?.length || 1];
+    case "outcome": return [x.settlement?.outcome ?? "open"];
+    case "verdict": return [x.verdict ?? ""];
+    case "group1_id": return positionValues(x, "group1");
+    case "group2_id": return positionValues(x, "group2");
+    default: return positionValues(x, field.slice("groups.".length));
+  }
+}
+
+function compare(a: number | string, op: RuleOp, b: RulePredicate["value"]): boolean {
+  switch (op) {
+    case "==": return a === b;
+    case "!=": return a !== b;
+    case ">": return a > b;
+    case ">=": return a >= b;
+    case "<": return a < b;
+    case "<=": return a <= b;
+    case "in": return Array.isArray(b) && b.includes(a);
+  }
+}
+
+/** True when any of the field's values satisfies the predicate (none may equal it, for !=). */
+export function predicateHolds(x: Position, p: RulePredicate): boolean {
+  const values = fieldValues(x, p.field);
+  return p.op === "!=" ? values.every((v) => compare(v, p.op, p.value)) : values.some((v) => compare(v, p.op, p.value));
+}
+
+function counts(x: Position, rule: CustomRule, bet: ProposedBet): boolean {
+  const m = rule.measure;
+  return (
+    (m.where ?? []).every((p) => predicateHolds(x, p)) &&
+    (m.match ?? []).every((f) => fieldValues(x, f).some((v) => fieldValues(bet, f).includes(v)))
+  );
+}
+
+/** Ledger part of every windowed custom rule, by code; the bet itself is added at evaluation. */
+export function customAggregates(ledger: LedgerEntry[], bet: ProposedBet, rules: UserRules, now: number): Record<string, number> {
+  const w = windowsAt(rules, now);
+  const start: Record<DimensionWindow, number> = { day: w.day_start, week: w.week_start, rolling_7d: w.rolling_7d_start };
+  const out: Record<string, number> = {};
+  for (const rule of rules.custom_rules ?? []) {
+    if (rule.measure.agg === "stake") continue;
+    let total = 0;
+    for (const e of ledger) {
+      if (e.ts < start[rule.measure.window ?? "day"] || !counts(e, rule, bet)) continue;
+      total += rule.measure.agg === "count" ? 1 : e.stake;
+    }
+    out[rule.code] = total;
+  }
+  return out;
+}
+
+export type CustomRuleResult = {
+  rule: CustomRule;
+  current: number; // ledger part of the measure (0 for "stake")
+  value: number;   // measure including the proposed bet
+  limit: number;   // threshold in bankroll currency (or a count)
+  fired: boolean;
+};
+
+/** Every custom rule whose `when` matches the bet, in definition order. */
+export function customRuleResults(bankroll: number, rules: UserRules, bet: ProposedBet, exp: Exposures): CustomRuleResult[] {
+  const out: CustomRuleResult[] = [];
+  for (const rule of rules.custom_rules ?? []) {
+    if (!(rule.when ?? []).every((p) => predicateHolds(bet, p))) continue;
+    const m = rule.measure;
+    const own = counts(bet, rule, bet) ? (m.agg === "count" ? 1 : bet.stake) : 0;
+    const current = m.agg === "stake" ? 0 : exp.custom?.[rule.code] ?? 0;
+    const value = m.agg === "stake" ? bet.stake : current + own;
+    const limit = rule.unit === "pct_bankroll" ? bankroll * (rule.threshold / 100) : rule.threshold;
+    out.push({ rule, current, value, limit, fired: value > limit });
+  }
+  return out;
+}
+
+/** A rule removed or its threshold raised; any other edit to a rule also counts as loosening. */
+export function customRulesLoosened(from: UserRules, to: UserRules): boolean {
+  const shape = (r: CustomRule) => JSON.stringify({ ...r, threshold: 0, description: "" });
+  return (from.custom_rules ?? []).some((r) => {
+    const n = (to.custom_rules ?? []).find((x) => x.code === r.code);
+    return !n || shape(n) !== shape(r) || n.threshold > r.threshold;
+  });
+}
+
+function fieldIssues(field: string, dims: string[], path: string): ValidationIssue[] {
+  if ((NUMERIC_FIELDS as string[]).includes(field) || (TEXT_FIELDS as string[]).includes(field)) return [];
+  if (field.startsWith("groups.") && dims.includes(field.slice("groups.".length))) return [];
+  return [{ path, message: `unknown field "${field}"` }];
+}
+
+function predicateIssues(p: RulePredicate, dims: string[], path: string): ValidationIssue[] {
+  const issues = fieldIssues(p.field, dims, `${path}.field`);
+  const numeric = (NUMERIC_FIELDS as string[]).includes(p.field);
+  const values = Array.isArray(p.value) ? p.value : [p.value];
+  if (p.op === "in" && !Array.isArray(p.value)) issues.push({ path: `${path}.value`, message: "\"in\" needs an array" });
+  else if (p.op !== "in" && Array.isArray(p.value)) issues.push({ path: `${path}.value`, message: `"${p.op}" needs a single value` });
+  else if (ORDERING_OPS.includes(p.op) && !numeric) issues.push({ path: `${path}.op`, message: `"${p.op}" only applies to ${NUMERIC_FIELDS.join(", ")}` });
+  else if (values.some((v) => typeof v !== (numeric ? "number" : "string"))) {
+    issues.push({ path: `${path}.value`, message: `"${p.field}" compares against ${numeric ? "numbers" : "strings"}` });
+  }
+  return issues;
+}
+
+/** Schema and semantic checks (fields, operators, codes) for `rules.custom_rules`. */
+export function customRuleIssues(rules: Pick<UserRules, "dimensions" | "custom_rules">): ValidationIssue[] {
+  const dims = (rules.dimensions ?? []).map((d) => d.key);
+  const builtin: string[] = Object.values(R);
+  const seen = new Set<string>();
+  const issues: ValidationIssue[] = [];
+  (rules.custom_rules ?? []).forEach((rule, i) => {
+    const path = `custom_rules[${i}]`;
+    const schemaIssues = validate("CustomRule", rule, path);
+    if (schemaIssues.length > 0) return void issues.push(...schemaIssues);
+
+    if (!/^[A-Z][A-Z0-9_]*$/.test(rule.code)) issues.push({ path: `${path}.code`, message: "use UPPER_SNAKE_CASE" });
+    else if (builtin.includes(rule.code) || isConcentrationReason(rule.code)) issues.push({ path: `${path}.code`, message: `"${rule.code}" is a built-in reason code` });
+    else if (seen.has(rule.code)) issues.push({ path: `${path}.code`, message: `duplicate code "${rule.code}"` });
+    seen.add(rule.code);
+
+    (rule.when ?? []).forEach((p, j) => issues.push(...predicateIssues(p, dims, `${path}.when[${j}]`)));
+    (rule.measure.where ?? []).forEach((p, j) => issues.push(...predicateIssues(p, dims, `${path}.measure.where[${j}]`)));
+    (rule.measure.match ?? []).forEach((f, j) => issues.push(...fieldIssues(f, dims, `${path}.measure.match[${j}]`)));
+  });
+  return issues;
+}
+
+/** Parse the settings text: a JSON array of rules, checked against `rules`' dimensions. */
+export function parseCustomRules(text: string, rules: Pick<UserRules, "dimensions">): { rules?: CustomRule[]; issues: ValidationIssue[] } {
+  let raw: unknown;
+  try {
+    raw = text.trim() === "" ? [] : JSON.parse(text);
+  } catch (err) {
+    return { issues: [{ path: "", message: `invalid JSON: ${(err as Error).message}` }] };
+  }
+  if (!Array.isArray(raw)) return { issues: [{ path: "", message: "expected an array of rules" }] };
+  const issues = customRuleIssues({ dimensions: rules.dimensions, custom_rules: raw });
+  return issues.length > 0 ? { issues } : { rules: raw as CustomRule[], issues };
+}
@@ -0,0 +1,153 @@
+import { capMeasure } from "./positions";
+import { R } from "./reasons";
+import type { DimensionWindow, ExposureMeasure, Exposures, GroupDimension, Leg, ProposedBet, UserRules } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Grouping dimensions (concentration caps) ---------- */
+export const DIMENSION_WINDOWS: readonly DimensionWindow[] = ["day", "week", "rolling_7d"];
+export const DIMENSION_WINDOW_LABEL: Record<DimensionWindow, string> = {
+  day: "today",
+  week: "this week",
+  rolling_7d: "rolling 7d"
+};
+
+const BUILTIN_KEYS = ["group1", "group2"];
+// Custom keys that would collide with the built-ins' reason codes
+const RESERVED_KEYS = [...BUILTIN_KEYS, "event", "team"];
+
+type Grouped = Pick<ProposedBet, "group1_id" | "group2_id" | "groups">;
+
+/** group1 (today), group2 (rolling 7d), then the user's dimensions, in evaluation order. */
+export function allDimensions(rules: Pick<UserRules, "group1_pct" | "group2_pct" | "dimensions">): GroupDimension[] {
+  return [
+    { key: "group1", label: "Group1", window: "day", cap_pct: rules.group1_pct },
+    { key: "group2", label: "Group2", window: "rolling_7d", cap_pct: rules.group2_pct },
+    ...(rules.dimensions ?? [])
+  ];
+}
+
+/** Built-ins keep their v1 codes; user dimensions get SAME_<KEY>_CONCENTRATION_CAP_EXCEEDED. */
+export function dimensionReason(key: string): string {
+  if (key === "group1") return R.EVENT;
+  if (key === "group2") return R.TEAM;
+  return `SAME_${key.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}_CONCENTRATION_CAP_EXCEEDED`;
+}
+
+export function isConcentrationReason(code: string): boolean {
+  return /^SAME_[A-Z0-9_]+_CONCENTRATION_CAP_EXCEEDED$/.test(code);
+}
+
+/** Key for a new dimension named `label`, unique among `rules`' dimensions. */
+export function dimensionKey(label: string, rules: Pick<UserRules, "dimensions">): string {
+  const taken = [...RESERVED_KEYS, ...rules.dimensions.map((d) => d.key)];
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "dimension";
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+export function groupValue(x: Grouped, key: string): string {
+  if (key === "group1") return x.group1_id;
+  if (key === "group2") return x.group2_id;
+  return x.groups?.[key] ?? "";
+}
+
+/** Trimmed user-dimension values with blanks dropped; undefined when none are set. */
+export function compactGroups(groups: Record<string, string> | undefined): Record<string, string> | undefined {
+  const set = Object.entries(groups ?? {}).map(([k, v]) => [k, v.trim()]).filter(([, v]) => v !== "");
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+}
+
+/**
+ * Distinct trimmed values a position has in one dimension (every leg's for a multi-leg
+ * position). A position without a value in a user dimension is not capped by it.
+ */
+export function positionValues(x: Grouped & { legs?: Leg[] }, key: string): string[] {
+  const parts: Grouped[] = x.legs?.length ? x.legs : [x];
+  const values = [...new Set(parts.map((p) => groupValue(p, key).trim()))];
+  return BUILTIN_KEYS.includes(key) ? values : values.filter((v) => v !== "");
+}
+
+/** Cap % for one value: its override if any, else the dimension default. */
+export function capPct(rules: Pick<UserRules, "cap_overrides">, dim: GroupDimension, value: string): number {
+  const o = (rules.cap_overrides ?? []).find((c) => c.dimension === dim.key && c.value === value);
+  return o ? o.cap_pct : dim.cap_pct;
+}
+
+export type DimensionUsage = {
+  dimension: GroupDimension;
+  value: string;    // the position's most constrained value in this dimension
+  staked: number;   // already staked on it in the dimension's window (still open, for the open measure)
+  measure: ExposureMeasure;
+  cap_pct: number;
+  cap: number;
+  overridden: boolean;
+  reason: string;
+};
+
+/**
+ * Usage of every dimension the position has a value in, reporting its tightest value
+ * (least headroom). Without `exp.by_dimension` the built-ins fall back to the v1
+ * exposure fields.
+ */
+export function dimensionUsage(bankroll: number, rules: UserRules, bet: ProposedBet, exp: Exposures): DimensionUsage[] {
+  const legacy: Record<string, number> = { group1: exp.same_group1_staked, group2: exp.same_group2_7d_staked };
+  const out: DimensionUsage[] = [];
+  for (const dimension of allDimensions(rules)) {
+    const measure = capMeasure(rules, dimension.key);
+    let best: DimensionUsage | undefined;
+    for (const value of positionValues(bet, dimension.key)) {
+      const open = measure === "open" ? exp.open_by_dimension?.[dimension.key]?.[value] : undefined;
+      const staked = open ?? exp.by_dimension?.[dimension.key]?.[value] ?? legacy[dimension.key] ?? 0;
+      const pct = capPct(rules, dimension, value);
+      const cap = bankroll * (pct / 100);
+      if (!best || cap - staked < best.cap - best.staked) {
+        best = { dimension, value, staked, measure, cap_pct: pct, cap, overridden: pct !== dimension.cap_pct, reason: dimensionReason(dimension.key) };
+      }
+    }
+    if (best) out.push(best);
+  }
+  return out;
+}
+
+/** A dimension removed, its cap raised or its window changed. */
+export function dimensionsLoosened(from: UserRules, to: UserRules): boolean {
+  return (from.dimensions ?? []).some((d) => {
+    const n = (to.dimensions ?? []).find((x) => x.key === d.key);
+    return !n || n.cap_pct > d.cap_pct || n.window !== d.window;
+  });
+}
+
+/** An overridden value whose effective cap rises (override raised, removed, or added above the default). */
+export function overridesLoosened(from: UserRules, to: UserRules): boolean {
+  const dimsFrom = allDimensions(from);
+  const dimsTo = allDimensions(to);
+  return [...(from.cap_overrides ?? []), ...(to.cap_overrides ?? [])].some((o) => {
+    const a = dimsFrom.find((d) => d.key === o.dimension);
+    const b = dimsTo.find((d) => d.key === o.dimension);
+    return a !== undefined && b !== undefined && capPct(to, b, o.value) > capPct(from, a, o.value);
+  });
+}
+
+/** Structural checks the schema can't express. */
+export function dimensionIssues(rules: Pick<UserRules, "group1_pct" | "group2_pct" | "dimensions" | "cap_overrides">): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  rules.dimensions.forEach((d, i) => {
+    if (!/^[a-z0-9_]+$/.test(d.key)) issues.push({ path: `dimensions[${i}].key`, message: "use lowercase letters, digits and _" });
+    else if (RESERVED_KEYS.includes(d.key)) issues.push({ path: `dimensions[${i}].key`, message: `"${d.key}" is reserved` });
+    else if (seen.has(d.key)) issues.push({ path: `dimensions[${i}].key`, message: `duplicate key "${d.key}"` });
+    seen.add(d.key);
+    if (!d.label.trim()) issues.push({ path: `dimensions[${i}].label`, message: "required" });
+  });
+  const keys = allDimensions(rules).map((d) => d.key);
+  const pairs = new Set<string>();
+  rules.cap_overrides.forEach((o, i) => {
+    if (!keys.includes(o.dimension)) issues.push({ path: `cap_overrides[${i}].dimension`, message: `unknown dimension "${o.dimension}"` });
+    if (!o.value.trim()) issues.push({ path: `cap_overrides[${i}].value`, message: "required" });
+    const pair = `${o.dimension}\u0000${o.value}`;
+    if (pairs.has(pair)) issues.push({ path: `cap_overrides[${i}]`, message: "duplicate override" });
+    pairs.add(pair);
+  });
+  return issues;
+}
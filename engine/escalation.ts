@@ -0,0 +1,157 @@
+import { R } from "./reasons";
+import { TIERS, escalateOneTier, maxTier } from "./tiers";
+import type {
+  AppliedStep,
+  BehavioralState,
+  EscalationPolicy,
+  EscalationStep,
+  PolicyCondition,
+  RuleSeverity,
+  UserRules,
+  Verdict
+} from "./types";
+import { validate } from "./validate";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Escalation policy ---------- */
+/** v1's literal mapping and amplifications, as a policy. */
+export const V1_POLICY: EscalationPolicy = {
+  severities: {},
+  base: [
+    { verdict: "WARN", min_violations: 1, min_gates: 1 },
+    { verdict: "HARD_WARN", min_violations: 2 }
+  ],
+  escalations: [
+    { id: "weekly_cap", label: "Weekly cap exceeded", when: { reasons: [R.WEEKLY] }, action: "set", verdict: "RED_ALERT" },
+    { id: "override_streak", label: "3+ consecutive overrides", when: { min_consecutive_overrides: 3 }, action: "set", verdict: "RED_ALERT" },
+    {
+      id: "cooldown_history",
+      label: "Violation with cooldown violations on record",
+      when: { min_violations: 1, min_cooldown_violations: 1 },
+      action: "set",
+      verdict: "RED_ALERT"
+    },
+    { id: "violation_spike", label: "Violation during a stake / frequency spike", when: { min_violations: 1, spike: true }, action: "escalate" },
+    { id: "odds_spike", label: "Odds gate during a stake / frequency spike", when: { reasons: [R.ODDS], spike: true }, action: "at_least", verdict: "HARD_WARN" }
+  ]
+};
+
+/** Any violation is a HARD_WARN, flags warn, and two overrides in a row are enough for RED_ALERT. */
+export const STRICT_POLICY: EscalationPolicy = {
+  severities: {},
+  base: [
+    { verdict: "WARN", min_gates: 1, min_flags: 1 },
+    { verdict: "HARD_WARN", min_violations: 1 },
+    { verdict: "RED_ALERT", min_violations: 3 }
+  ],
+  escalations: V1_POLICY.escalations.map((s) =>
+    s.id === "override_streak" ? { ...s, label: "2+ consecutive overrides", when: { min_consecutive_overrides: 2 } } : s
+  )
+};
+
+export const POLICY_PRESETS: Record<string, EscalationPolicy> = { v1: V1_POLICY, strict: STRICT_POLICY };
+
+export type ReasonsBySeverity = Record<RuleSeverity, string[]>;
+
+// Outcome-aware flags amplify like a stake / frequency spike
+const TILT: string[] = [R.LOSS_CHASE, R.REVENGE, R.LOSS_STREAK];
+
+function holds(c: PolicyCondition, found: ReasonsBySeverity, beh: BehavioralState): boolean {
+  const all = [...found.violation, ...found.gate, ...found.flag];
+  const spike = beh.stake_velocity_spike || beh.frequency_spike || TILT.some((r) => all.includes(r));
+  return (
+    (c.reasons === undefined || c.reasons.some((r) => all.includes(r))) &&
+    found.violation.length >= (c.min_violations ?? 0) &&
+    found.gate.length >= (c.min_gates ?? 0) &&
+    found.flag.length >= (c.min_flags ?? 0) &&
+    (c.spike === undefined || c.spike === spike) &&
+    beh.consecutive_overrides >= (c.min_consecutive_overrides ?? 0) &&
+    beh.cooldown_violations >= (c.min_cooldown_violations ?? 0)
+  );
+}
+
+function step(s: EscalationStep, v: Verdict): Verdict {
+  if (s.action === "escalate") return escalateOneTier(v);
+  if (s.action === "at_least") return maxTier(v, s.verdict ?? v);
+  return s.verdict ?? v;
+}
+
+export type PolicyOutcome = {
+  base: Verdict;
+  verdict: Verdict;
+  applied: AppliedStep[];
+  decided_by: string; // id of the last step that changed the verdict, or "base"
+  decided_by_label: string;
+};
+
+export function applyPolicy(policy: EscalationPolicy, found: ReasonsBySeverity, beh: BehavioralState): PolicyOutcome {
+  const count = { violation: found.violation.length, gate: found.gate.length, flag: found.flag.length };
+  let base: Verdict = "ALLOW";
+  for (const t of policy.base) {
+    const reached =
+      (t.min_violations !== undefined && count.violation >= t.min_violations) ||
+      (t.min_gates !== undefined && count.gate >= t.min_gates) ||
+      (t.min_flags !== undefined && count.flag >= t.min_flags);
+    if (reached) base = maxTier(base, t.verdict);
+  }
+
+  let verdict = base;
+  let decided_by = "base";
+  const applied: AppliedStep[] = [];
+  for (const s of policy.escalations) {
+    if (!holds(s.when, found, beh)) continue;
+    const to = step(s, verdict);
+    applied.push({ id: s.id, label: s.label, from: verdict, to });
+    if (to !== verdict) decided_by = s.id;
+    verdict = to;
+  }
+  const by = applied.find((s) => s.id === decided_by);
+  return { base, verdict, applied, decided_by, decided_by_label: by ? by.label : `Base tier (${base})` };
+}
+
+/** Schema and semantic checks for `rules.escalation`. */
+export function policyIssues(rules: Pick<UserRules, "escalation">): ValidationIssue[] {
+  if (rules.escalation === undefined) return [];
+  const issues = validate("EscalationPolicy", rules.escalation, "escalation");
+  if (issues.length > 0) return issues;
+
+  const p = rules.escalation;
+  for (const [code, severity] of Object.entries(p.severities)) {
+    if (!["violation", "gate", "flag"].includes(severity)) {
+      issues.push({ path: `escalation.severities.${code}`, message: "must be one of violation, gate, flag" });
+    }
+  }
+  p.base.forEach((t, i) => {
+    if (t.min_violations === undefined && t.min_gates === undefined && t.min_flags === undefined) {
+      issues.push({ path: `escalation.base[${i}]`, message: "needs min_violations, min_gates or min_flags" });
+    }
+  });
+  const seen = new Set<string>();
+  p.escalations.forEach((s, i) => {
+    const path = `escalation.escalations[${i}]`;
+    if (seen.has(s.id)) issues.push({ path: `${path}.id`, message: `duplicate id "${s.id}"` });
+    seen.add(s.id);
+    if (s.action !== "escalate" && !TIERS.includes(s.verdict as Verdict)) {
+      issues.push({ path: `${path}.verdict`, message: `"${s.action}" needs a verdict` });
+    }
+  });
+  return issues;
+}
+
+/** Parse the settings text: one policy object. */
+export function parsePolicy(text: string): { policy?: EscalationPolicy; issues: ValidationIssue[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { issues: [{ path: "", message: `invalid JSON: ${(err as Error).message}` }] };
+  }
+  const issues = policyIssues({ escalation: raw as EscalationPolicy });
+  return issues.length > 0 ? { issues } : { policy: raw as EscalationPolicy, issues };
+}
+
+/** The preset a policy matches, if any. */
+export function policyPreset(policy: EscalationPolicy): string | undefined {
+  const json = JSON.stringify(policy);
+  return Object.keys(POLICY_PRESETS).find((k) => JSON.stringify(POLICY_PRESETS[k]) === json);
+}
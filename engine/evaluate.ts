@@ -0,0 +1,173 @@
+import { customRuleResults } from "./customRules";
+import { DIMENSION_WINDOW_LABEL, allDimensions, dimensionUsage } from "./dimensions";
+import { V1_POLICY, applyPolicy } from "./escalation";
+import type { ReasonsBySeverity } from "./escalation";
+import { isMultiLeg } from "./legs";
+import { betPrice, oddsGateFires, oddsGatePrice } from "./odds";
+import { capMeasure } from "./positions";
+import { R } from "./reasons";
+import type { BehavioralState, DecisionResult, Exposures, ProposedBet, RuleCheck, RuleSeverity, UserRules } from "./types";
+
+type Measure = Pick<RuleCheck, "unit" | "cap_pct" | "current" | "note"> & { cap: number; projected: number };
+
+/** ---------- Engine (v1, deterministic) ---------- */
+export function evaluate_v1(
+  bankroll: number,
+  rules: UserRules,
+  bet: ProposedBet,
+  exp: Exposures,
+  beh: BehavioralState
+): DecisionResult {
+  const B = bankroll;
+  const S = bet.stake;
+  const policy = rules.escalation ?? V1_POLICY;
+
+  // Every check in evaluation order (stable); a failure counts with its policy severity
+  const checks: RuleCheck[] = [];
+  function check(code: string, label: string, severity: RuleSeverity, failed: boolean, m: Measure | Pick<RuleCheck, "unit">) {
+    // Invalid odds have no price to report
+    const measured = "cap" in m && Number.isFinite(m.projected) ? { ...m, headroom: m.cap - m.projected } : { unit: m.unit };
+    checks.push({ code, label, ...measured, passed: !failed, contributes: failed ? policy.severities[code] ?? severity : null });
+  }
+  // Cap comparisons strict >
+  function cap(code: string, label: string, m: Measure) {
+    check(code, label, "violation", m.projected > m.cap, m);
+  }
+
+  cap(R.UNIT, "Unit size", { unit: "money", cap: B * (rules.unit_pct / 100), cap_pct: rules.unit_pct, projected: S });
+  // Window caps measure cumulative stake or, per rules.cap_measures, stake still open
+  const openDaily = capMeasure(rules, "daily") === "open";
+  const openWeekly = capMeasure(rules, "weekly") === "open";
+  const daily = openDaily ? exp.open_daily ?? exp.daily_staked : exp.daily_staked;
+  const weekly = openWeekly ? exp.open_weekly ?? exp.weekly_staked : exp.weekly_staked;
+  cap(R.DAILY, openDaily ? "Daily open exposure" : "Daily exposure", { unit: "money", cap: B * (rules.daily_pct / 100), cap_pct: rules.daily_pct, current: daily, projected: daily + S });
+  cap(R.WEEKLY, openWeekly ? "Weekly open exposure" : "Weekly exposure", { unit: "money", cap: B * (rules.weekly_pct / 100), cap_pct: rules.weekly_pct, current: weekly, projected: weekly + S });
+  // Concentration: group1, group2, then user dimensions; any value over its cap trips the dimension
+  for (const u of dimensionUsage(B, rules, bet, exp)) {
+    const open = u.measure === "open" ? "open " : "";
+    cap(u.reason, `Same ${u.dimension.label} ${open}concentration (${DIMENSION_WINDOW_LABEL[u.dimension.window]})`, {
+      unit: "money",
+      cap: u.cap,
+      cap_pct: u.cap_pct,
+      current: u.staked,
+      projected: u.staked + S,
+      note: u.overridden ? `override for ${u.value}` : undefined
+    });
+  }
+  cap(R.FREQ, "Action frequency", { unit: "count", cap: rules.freq_cap, current: exp.bets_today, projected: exp.bets_today + 1 });
+  // Multi-leg structure (single bets are covered by the odds gate)
+  if (isMultiLeg(bet)) {
+    cap(R.LEGS, "Legs per parlay", { unit: "count", cap: rules.max_legs, projected: bet.legs!.length });
+    cap(R.COMBO_PRICE, "Combined parlay price", { unit: "price", cap: rules.max_combined_price, projected: betPrice(bet) });
+  }
+
+  // Loss limits on realized P&L (0 = off), % of the bankroll before the loss; a stop-loss
+  // trips on reaching its limit
+  function lossLimit(code: string, label: string, pct: number, loss = 0) {
+    if (!(pct > 0)) return;
+    const m: Measure = { unit: "money", cap: (B + loss) * (pct / 100), cap_pct: pct, current: loss, projected: loss };
+    check(code, label, "violation", loss >= m.cap, m);
+  }
+  lossLimit(R.DAILY_LOSS, "Daily loss limit", rules.daily_loss_pct, exp.daily_loss);
+  lossLimit(R.WEEKLY_LOSS, "Weekly loss limit", rules.weekly_loss_pct, exp.weekly_loss);
+  lossLimit(R.DRAWDOWN, "Max drawdown from peak", rules.max_drawdown_pct, exp.drawdown);
+
+  // Odds gate: long odds (combined price for multi-leg) per rules.odds_gate_mode OR invalid odds triggers
+  check(R.ODDS, "Odds gate", "gate", oddsGateFires(bet, rules), { unit: "price", cap: oddsGatePrice(rules), projected: betPrice(bet) });
+
+  // Behavior flags (canonical order)
+  check(R.STAKE_SPIKE, "Stake velocity spike", "flag", beh.stake_velocity_spike, { unit: "flag" });
+  check(R.FREQ_SPIKE, "Frequency spike", "flag", beh.frequency_spike, { unit: "flag" });
+  check(R.CONS_OVR, "Consecutive overrides", "flag", beh.consecutive_overrides >= 2, { unit: "flag" });
+  check(R.CD_HIST, "Cooldown violation history", "flag", beh.cooldown_violations >= 1, { unit: "flag" });
+  check(R.LOSS_CHASE, "Loss chasing", "flag", !!beh.loss_chasing, { unit: "flag" });
+  check(R.REVENGE, "Revenge betting (same group2)", "flag", !!beh.revenge_betting, { unit: "flag" });
+  if (rules.loss_streak_min > 0) {
+    const streak = beh.loss_streak ?? 0;
+    check(R.LOSS_STREAK, "Loss streak", "flag", streak >= rules.loss_streak_min, { unit: "count", cap: rules.loss_streak_min, projected: streak });
+  }
+
+  // Custom rules join the built-ins of their severity, after them, in definition order
+  for (const c of customRuleResults(B, rules, bet, exp)) {
+    const unit = c.rule.measure.agg === "count" ? "count" : "money";
+    const cap_pct = c.rule.unit === "pct_bankroll" ? c.rule.threshold : undefined;
+    const current = c.rule.measure.agg === "stake" ? undefined : c.current;
+    check(c.rule.code, c.rule.description || c.rule.code, c.rule.severity, c.fired, { unit, cap: c.limit, cap_pct, current, projected: c.value });
+  }
+
+  // 1) Cooldown hard stop: checks still run so usage can be shown, but only the stop is reported
+  if (beh.cooldown_active) {
+    for (const c of checks) c.contributes = null;
+    const stop: RuleCheck = { code: R.CD_ACTIVE, label: "Cooldown active", unit: "flag", passed: false, contributes: null };
+    return {
+      verdict: "RED_ALERT",
+      reasons: [R.CD_ACTIVE],
+      friction_required: true,
+      cooldown_triggered: true,
+      trace: { checks: [stop, ...checks], base: "RED_ALERT", amplifications: [], decided_by: "cooldown_active", decided_by_label: "Cooldown hard stop" }
+    };
+  }
+
+  // Base tier and amplifications come from the policy (v1's by default)
+  const found: ReasonsBySeverity = { violation: [], gate: [], flag: [] };
+  for (const c of checks) if (c.contributes) found[c.contributes].push(c.code);
+  const outcome = applyPolicy(policy, found, beh);
+
+  // Max drawdown forces RED_ALERT (and so a cooldown) whatever the policy
+  let { verdict, decided_by, decided_by_label } = outcome;
+  const amplifications = [...outcome.applied];
+  if (checks.some((c) => c.code === R.DRAWDOWN && c.contributes)) {
+    const label = "Max drawdown reached";
+    amplifications.push({ id: "max_drawdown", label, from: verdict, to: "RED_ALERT" });
+    if (verdict !== "RED_ALERT") {
+      verdict = "RED_ALERT";
+      decided_by = "max_drawdown";
+      decided_by_label = label;
+    }
+  }
+  const reasons = [...found.violation, ...found.gate, ...found.flag];
+  const friction_required = verdict !== "ALLOW";
+  const cooldown_triggered = verdict === "RED_ALERT";
+  const trace = {
+    checks,
+    base: outcome.base,
+    amplifications,
+    decided_by,
+    decided_by_label
+  };
+
+  return { verdict, reasons, friction_required, cooldown_triggered, trace };
+}
+
+/**
+ * The window caps measured on stake still open, for the caps that measure cumulative stake
+ * (a cap on the open measure already reports it). For display next to those checks; they
+ * never count toward the verdict.
+ */
+export function openExposureChecks(bankroll: number, rules: UserRules, bet: ProposedBet, exp: Exposures): RuleCheck[] {
+  const S = bet.stake;
+  const out: RuleCheck[] = [];
+  function open(code: string, label: string, m: Omit<Measure, "unit" | "projected"> & { current: number }) {
+    const projected = m.current + S;
+    out.push({ code, label, unit: "money", ...m, projected, headroom: m.cap - projected, passed: projected <= m.cap, contributes: null });
+  }
+
+  if (exp.open_daily !== undefined && capMeasure(rules, "daily") === "staked") {
+    open(R.DAILY, "Daily open exposure", { cap: bankroll * (rules.daily_pct / 100), cap_pct: rules.daily_pct, current: exp.open_daily });
+  }
+  if (exp.open_weekly !== undefined && capMeasure(rules, "weekly") === "staked") {
+    open(R.WEEKLY, "Weekly open exposure", { cap: bankroll * (rules.weekly_pct / 100), cap_pct: rules.weekly_pct, current: exp.open_weekly });
+  }
+  if (!exp.open_by_dimension) return out;
+  const onOpen = { ...rules, cap_measures: Object.fromEntries(allDimensions(rules).map((d) => [d.key, "open" as const])) };
+  for (const u of dimensionUsage(bankroll, onOpen, bet, exp)) {
+    if (capMeasure(rules, u.dimension.key) !== "staked") continue;
+    open(u.reason, `Same ${u.dimension.label} open concentration (${DIMENSION_WINDOW_LABEL[u.dimension.window]})`, {
+      cap: u.cap,
+      cap_pct: u.cap_pct,
+      current: u.staked,
+      note: u.overridden ? `override for ${u.value}` : undefined
+    });
+  }
+  return out;
+}
@@ -0,0 +1,100 @@
+import { LOCAL_TIME, windowsAt } from "./clock";
+import type { TimeModel } from "./clock";
+import { customAggregates } from "./customRules";
+import { allDimensions, positionValues } from "./dimensions";
+import { entryTouches } from "./legs";
+import { openStake } from "./positions";
+import { NO_CARRY, realizedLosses } from "./settlement";
+import type { CarriedPnl } from "./settlement";
+import type { DimensionWindow, Exposures, LedgerEntry, ProposedBet, UserRules } from "./types";
+
+/** ---------- Ledger / exposures ---------- */
+/**
+ * Exposure of the ledger relative to a proposed position. A ledger entry counts toward
+ * every group any of its legs touches; for a position touching several groups the
+ * concentration figures are those of its most-exposed group. Day and week windows
+ * follow the time model (pass the rules); group2 concentration is always rolling 7d.
+ * Windows are taken as of `asOf`; entries after it are ignored.
+ */
+export function computeExposures(
+  ledger: LedgerEntry[],
+  group1_id: string | string[],
+  group2_id: string | string[],
+  time: TimeModel = LOCAL_TIME,
+  asOf: number = Date.now()
+): Exposures {
+  const { day_start: dayStart, week_start: weekStart, rolling_7d_start: t7 } = windowsAt(time, asOf);
+  const g1s = typeof group1_id === "string" ? [group1_id] : group1_id;
+  const g2s = typeof group2_id === "string" ? [group2_id] : group2_id;
+
+  let daily = 0, weekly = 0, betsToday = 0;
+  const sameG1 = g1s.map(() => 0);
+  const sameG2 = g2s.map(() => 0);
+
+  for (const e of ledger) {
+    if (e.ts > asOf) continue;
+    if (e.ts >= dayStart) {
+      daily += e.stake;
+      betsToday += 1;
+      g1s.forEach((g, i) => { if (entryTouches(e, "group1_id", g)) sameG1[i] += e.stake; });
+    }
+    if (e.ts >= weekStart) weekly += e.stake;
+    if (e.ts >= t7) g2s.forEach((g, i) => { if (entryTouches(e, "group2_id", g)) sameG2[i] += e.stake; });
+  }
+
+  return {
+    daily_staked: daily,
+    weekly_staked: weekly,
+    same_group1_staked: Math.max(0, ...sameG1),
+    same_group2_7d_staked: Math.max(0, ...sameG2),
+    bets_today: betsToday
+  };
+}
+
+/**
+ * Exposures for a proposed position under `rules`: the figures above plus, for every
+ * dimension, what is already staked on each of the position's values in its window,
+ * the ledger aggregate behind each custom rule, the realized losses the loss limits
+ * measure, and the open measure (stake still at risk at `asOf`) of the day, week and
+ * dimension figures. `asOf` as for computeExposures.
+ */
+export function positionExposures(ledger: LedgerEntry[], bet: ProposedBet, rules: UserRules, asOf: number = Date.now(), carried: CarriedPnl = NO_CARRY): Exposures {
+  const past = ledger.filter((e) => e.ts <= asOf);
+  const w = windowsAt(rules, asOf);
+  const start: Record<DimensionWindow, number> = { day: w.day_start, week: w.week_start, rolling_7d: w.rolling_7d_start };
+  const open = new Map(past.map((e) => [e, openStake(e, asOf)]));
+  const by_dimension: Record<string, Record<string, number>> = {};
+  const open_by_dimension: Record<string, Record<string, number>> = {};
+  for (const d of allDimensions(rules)) {
+    const values = positionValues(bet, d.key);
+    const staked = new Map(values.map((v) => [v, 0]));
+    const atRisk = new Map(values.map((v) => [v, 0]));
+    for (const e of past) {
+      if (e.ts < start[d.window]) continue;
+      for (const v of positionValues(e, d.key)) {
+        if (!staked.has(v)) continue;
+        staked.set(v, staked.get(v)! + e.stake);
+        atRisk.set(v, atRisk.get(v)! + open.get(e)!);
+      }
+    }
+    by_dimension[d.key] = Object.fromEntries(staked);
+    open_by_dimension[d.key] = Object.fromEntries(atRisk);
+  }
+  let open_daily = 0, open_weekly = 0, open_total = 0;
+  for (const [e, o] of open) {
+    if (e.ts >= start.day) open_daily += o;
+    if (e.ts >= start.week) open_weekly += o;
+    open_total += o;
+  }
+  const exp = computeExposures(past, positionValues(bet, "group1"), positionValues(bet, "group2"), rules, asOf);
+  return {
+    ...exp,
+    by_dimension,
+    custom: customAggregates(past, bet, rules, asOf),
+    ...realizedLosses(past, w, asOf, carried),
+    open_daily,
+    open_weekly,
+    open_by_dimension,
+    open_total
+  };
+}
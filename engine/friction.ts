@@ -0,0 +1,54 @@
+import type { OverrideRecord, UserRules, Verdict } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Friction (what it takes to commit each tier) ---------- */
+export type FrictionStep = "NONE" | "ACKNOWLEDGE" | "JUSTIFY_AND_WAIT" | "OVERRIDE";
+
+export const OVERRIDE_PHRASE = "OVERRIDE";
+
+export type FrictionInput = {
+  acknowledged: boolean;
+  justification: string;
+  waited_ms: number;       // time since the current verdict was first shown
+  confirmation: string;    // must equal OVERRIDE_PHRASE for RED_ALERT
+};
+
+export function frictionStep(v: Verdict): FrictionStep {
+  return v === "ALLOW" ? "NONE" : v === "WARN" ? "ACKNOWLEDGE" : v === "HARD_WARN" ? "JUSTIFY_AND_WAIT" : "OVERRIDE";
+}
+
+/** Requirements still unmet for committing at verdict `v`; empty = commit may proceed. */
+export function frictionOutstanding(v: Verdict, rules: UserRules, input: FrictionInput): string[] {
+  const step = frictionStep(v);
+  const missing: string[] = [];
+  if (step === "NONE") return missing;
+
+  if (step === "ACKNOWLEDGE") {
+    if (!input.acknowledged) missing.push("acknowledge the warning");
+    return missing;
+  }
+
+  const chars = input.justification.trim().length;
+  if (chars < rules.justification_min_chars) missing.push(`justification (${chars}/${rules.justification_min_chars} chars)`);
+  const remaining = Math.ceil((rules.friction_delay_sec * 1000 - input.waited_ms) / 1000);
+  if (remaining > 0) missing.push(`wait ${remaining}s`);
+  if (step === "OVERRIDE" && input.confirmation.trim() !== OVERRIDE_PHRASE) missing.push(`type ${OVERRIDE_PHRASE}`);
+  return missing;
+}
+
+export function overrideRecord(v: Verdict, input: FrictionInput): OverrideRecord | undefined {
+  if (v === "ALLOW") return undefined;
+  return { tier: v, justification: v === "WARN" ? "" : input.justification.trim() };
+}
+
+/** Server-side check that a committed entry carries the override its verdict requires. */
+export function overrideIssues(v: Verdict, override: OverrideRecord | undefined): ValidationIssue[] {
+  if (v === "ALLOW") return override ? [{ path: "override", message: "must be omitted for ALLOW" }] : [];
+  if (!override) return [{ path: "override", message: `is required to commit a ${v} verdict` }];
+  const issues: ValidationIssue[] = [];
+  if (override.tier !== v) issues.push({ path: "override.tier", message: `must match verdict ${v}` });
+  if (frictionStep(v) !== "ACKNOWLEDGE" && override.justification.trim() === "") {
+    issues.push({ path: "override.justification", message: `is required to override ${v}` });
+  }
+  return issues;
+}
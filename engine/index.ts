@@ -0,0 +1,162 @@
+/**
+ * RISK-REDUX engine — framework-free, deterministic.
+ * Safe to import from client pages, route handlers and tests alike.
+ */
+export * from "./types";
+export { R } from "./reasons";
+export type { ReasonCode } from "./reasons";
+export { DEFAULT_RULES, DEFAULT_BEHAVIOR, rulesIssues } from "./rules";
+export { TIERS, rank, maxTier, escalateOneTier } from "./tiers";
+export {
+  ODDS_FORMATS,
+  isValidAmericanOdds,
+  isValidPrice,
+  americanToDecimal,
+  decimalToAmerican,
+  impliedProbability,
+  parseOdds,
+  formatOdds,
+  combinedPrice,
+  betPrice,
+  oddsGateFires,
+  oddsGatePrice,
+  describeOddsGate,
+  normalizeOdds
+} from "./odds";
+export type { NormalizedOdds } from "./odds";
+export { evaluate_v1, openExposureChecks } from "./evaluate";
+export { SOLVED_TIERS, solveMaxStake } from "./solver";
+export type { StakeLimit } from "./solver";
+export { replayLedger } from "./replay";
+export { ledgerAnalytics } from "./analytics";
+export type { CapPoint, VerdictWeek, ReasonCount, GroupShare, HourBucket, LedgerAnalytics } from "./analytics";
+export type { ReplayRow, ReplayReport, VerdictCounts } from "./replay";
+export { isMultiLeg, betGroups, comboBet, entryTouches } from "./legs";
+export { computeExposures, positionExposures } from "./exposures";
+export { buildLedgerIndex, syncLedgerIndex, indexedExposures } from "./ledgerIndex";
+export type { LedgerIndex } from "./ledgerIndex";
+export {
+  DIMENSION_WINDOWS,
+  DIMENSION_WINDOW_LABEL,
+  allDimensions,
+  dimensionReason,
+  isConcentrationReason,
+  dimensionKey,
+  groupValue,
+  compactGroups,
+  positionValues,
+  capPct,
+  dimensionUsage,
+  dimensionsLoosened,
+  overridesLoosened,
+  dimensionIssues
+} from "./dimensions";
+export type { DimensionUsage } from "./dimensions";
+export {
+  predicateHolds,
+  customAggregates,
+  customRuleResults,
+  customRulesLoosened,
+  customRuleIssues,
+  parseCustomRules
+} from "./customRules";
+export type { CustomRuleResult } from "./customRules";
+export {
+  V1_POLICY,
+  STRICT_POLICY,
+  POLICY_PRESETS,
+  applyPolicy,
+  policyIssues,
+  parsePolicy,
+  policyPreset
+} from "./escalation";
+export type { ReasonsBySeverity, PolicyOutcome } from "./escalation";
+export {
+  LOCAL_TIME,
+  MS_1D,
+  MS_7D,
+  isValidTimeZone,
+  resolveTimeZone,
+  startOfDay,
+  startOfWeek,
+  hourOfDay,
+  windowsAt,
+  describeTimeModel,
+  startOfLocalDay,
+  startOfISOWeekLocal
+} from "./clock";
+export type { TimeModel, TimeWindows } from "./clock";
+export { SCHEMAS } from "./schema";
+export type { JsonSchema } from "./schema";
+export { validate } from "./validate";
+export type { ValidationIssue } from "./validate";
+export { analyzeBehavior, behaviorHistory, behaviorFor, isOverride, isCooldownViolation, median } from "./behavior";
+export type { BehaviorAnalysis, BehaviorHistory } from "./behavior";
+export { OVERRIDE_PHRASE, frictionStep, frictionOutstanding, overrideRecord, overrideIssues } from "./friction";
+export type { FrictionStep, FrictionInput } from "./friction";
+export { NO_COOLDOWN, isCooldownActive, cooldownRemainingMs, cooldownDurationMs, triggerCooldown, recordCommitAttempt, cooldownOnCommit, cooldownOnRealized, cooldownTransitionIssues } from "./cooldown";
+export type { CooldownState } from "./cooldown";
+export {
+  OUTCOMES,
+  DEFAULT_CAPITAL,
+  NO_CARRY,
+  americanProfit,
+  priceProfit,
+  pnlEvents,
+  entryPnl,
+  realizedPnl,
+  pnlSeries,
+  realizedLosses,
+  drawdownReached,
+  deriveBankroll,
+  settle,
+  capitalLocked,
+  carryDropped,
+  trimLedger,
+  capitalTransitionIssues
+} from "./settlement";
+export type { CapitalState, CarriedPnl, PnlEvent, RealizedLosses } from "./settlement";
+export { closedStake, positionState, openStake, hasRealized, closePart, capMeasure, capMeasuresLoosened, capMeasureIssues } from "./positions";
+export {
+  UNDO_WINDOW_MS,
+  EMPTY_AUDIT,
+  correctionIssues,
+  correctEntry,
+  deleteEntry,
+  undoable,
+  undoLast,
+  archiveEntries,
+  recordReplacements,
+  realizedChangeIssues,
+  entryHistory,
+  auditTransitionIssues,
+  ledgerTransitionIssues,
+  filterLedger,
+  sortLedger
+} from "./ledgerAudit";
+export type { AuditAction, AuditStamp, LedgerTombstone, LedgerArchive, LedgerAudit, EntryCorrection, LedgerFilter, LedgerSort } from "./ledgerAudit";
+export { toCsv, parseCsv } from "./csv";
+export { EXPORT_VERSION, exportJson, exportLedgerCsv, exportRulesCsv, parseImport, planMerge, applyMerge, diffLedger, applyLedgerPatch } from "./transfer";
+export type { LedgerExport, ImportIssue, ParsedImport, MergeConflict, MergePlan, ConflictChoice, LedgerPatch } from "./transfer";
+export {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILES,
+  profilesIssues,
+  profileId,
+  umbrellaLoosened,
+  umbrellaAt,
+  proposeUmbrellaCap,
+  weeklyStaked,
+  applyUmbrellaCap
+} from "./profiles";
+export type { Profile, ProfilesState, UmbrellaChange } from "./profiles";
+export {
+  loosenedFields,
+  initialHistory,
+  effectiveVersion,
+  pendingVersions,
+  latestRules,
+  proposeRules,
+  historyTransitionIssues
+} from "./rulesHistory";
+export type { RulesVersion, RulesHistory } from "./rulesHistory";
@@ -0,0 +1,214 @@
+import { isValidAmericanOdds, isValidPrice } from "./odds";
+import { hasRealized } from "./positions";
+import type { LedgerEntry, Verdict } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Ledger audit trail (corrections, deletions, archived resets) ---------- */
+/** How long the newest commit stays undoable. */
+export const UNDO_WINDOW_MS = 2 * 60 * 1000;
+
+export type AuditAction = "correct" | "delete" | "undo";
+
+/** Who changed the ledger, when and why. */
+export type AuditStamp = { at: number; by: string; why: string };
+
+/** An entry as it was before a correction or removal; `after` is set for corrections. */
+export type LedgerTombstone = AuditStamp & { action: AuditAction; before: LedgerEntry; after?: LedgerEntry };
+
+/** Entries taken out of the live ledger in one go, newest first ("trim": cut by the former 500-entry limit). */
+export type LedgerArchive = AuditStamp & { reason: "reset" | "trim"; entries: LedgerEntry[] };
+
+/** Append-only, oldest first. */
+export type LedgerAudit = { tombstones: LedgerTombstone[]; archives: LedgerArchive[] };
+
+export const EMPTY_AUDIT: LedgerAudit = { tombstones: [], archives: [] };
+
+/** Fields a correction may change. Odds corrections carry the normalized odds fields together. */
+export type EntryCorrection = Partial<Pick<LedgerEntry, "stake" | "odds" | "price" | "odds_format" | "odds_input" | "group1_id" | "group2_id" | "groups">>;
+
+const REALIZED_FIXED = "is fixed once a result is realized";
+
+/** Stake and odds of an entry with a settlement or closes are fixed: changing them would rewrite realized P&L. */
+export function correctionIssues(e: LedgerEntry, patch: EntryCorrection, why: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const realized = hasRealized(e);
+  if (!why.trim()) issues.push({ path: "why", message: "a reason is required" });
+  if (patch.stake !== undefined) {
+    if (realized) issues.push({ path: "stake", message: REALIZED_FIXED });
+    else if (!(Number.isFinite(patch.stake) && patch.stake > 0)) issues.push({ path: "stake", message: "must be above 0" });
+  }
+  if (patch.odds !== undefined || patch.price !== undefined) {
+    if (e.legs?.length) issues.push({ path: "odds", message: "multi-leg odds come from the legs" });
+    else if (realized) issues.push({ path: "odds", message: REALIZED_FIXED });
+    else if (!isValidAmericanOdds(patch.odds ?? e.odds) || (patch.price !== undefined && !isValidPrice(patch.price))) issues.push({ path: "odds", message: "are not valid odds" });
+  }
+  for (const key of ["group1_id", "group2_id"] as const) {
+    if (patch[key] === undefined) continue;
+    if (e.legs?.length) issues.push({ path: key, message: "multi-leg groups come from the legs" });
+    else if (!patch[key]!.trim()) issues.push({ path: key, message: "cannot be empty" });
+  }
+  return issues;
+}
+
+function findEntry(ledger: LedgerEntry[], id: string): LedgerEntry {
+  const e = ledger.find((x) => x.id === id);
+  if (!e) throw new Error(`no ledger entry ${id}`);
+  return e;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Apply a correction, keeping the entry as it was in a tombstone. Throws on invalid corrections. */
+export function correctEntry(ledger: LedgerEntry[], audit: LedgerAudit, id: string, patch: EntryCorrection, stamp: AuditStamp) {
+  const before = findEntry(ledger, id);
+  const issues = correctionIssues(before, patch, stamp.why);
+  if (issues.length > 0) throw new Error(issues.map((x) => `${x.path} ${x.message}`).join("; "));
+  const after: LedgerEntry = { ...before, ...patch };
+  return {
+    ledger: ledger.map((e) => (e.id === id ? after : e)),
+    audit: { ...audit, tombstones: [...audit.tombstones, { ...stamp, action: "correct" as const, before, after }] }
+  };
+}
+
+/**
+ * Remove an entry, keeping it in a tombstone. Throws without a reason, and for an entry with a
+ * realized result: that P&L only leaves the ledger through a trim or reset, which carries it.
+ */
+export function deleteEntry(ledger: LedgerEntry[], audit: LedgerAudit, id: string, stamp: AuditStamp, action: AuditAction = "delete") {
+  const before = findEntry(ledger, id);
+  if (!stamp.why.trim()) throw new Error("a reason is required");
+  if (hasRealized(before)) throw new Error(`${id} has a realized result and cannot be deleted`);
+  return {
+    ledger: ledger.filter((e) => e.id !== id),
+    audit: { ...audit, tombstones: [...audit.tombstones, { ...stamp, action, before }] }
+  };
+}
+
+/** The newest commit while it is inside the undo window and nothing has been realized on it. */
+export function undoable(ledger: LedgerEntry[], now: number): LedgerEntry | undefined {
+  const last = ledger.reduce<LedgerEntry | undefined>((a, e) => (!a || e.ts > a.ts ? e : a), undefined);
+  if (!last || now - last.ts > UNDO_WINDOW_MS || now < last.ts) return undefined;
+  return hasRealized(last) ? undefined : last;
+}
+
+export function undoLast(ledger: LedgerEntry[], audit: LedgerAudit, stamp: AuditStamp) {
+  const last = undoable(ledger, stamp.at);
+  if (!last) throw new Error("nothing to undo");
+  return deleteEntry(ledger, audit, last.id, { ...stamp, why: stamp.why.trim() || "undo last commit" }, "undo");
+}
+
+/** Keep entries leaving the live ledger. */
+export function archiveEntries(audit: LedgerAudit, entries: LedgerEntry[], reason: LedgerArchive["reason"], stamp: AuditStamp): LedgerAudit {
+  if (entries.length === 0) return audit;
+  return { ...audit, archives: [...audit.archives, { ...stamp, reason, entries }] };
+}
+
+/** Entries `next` replaces in place (same id, other content), kept as correction tombstones. */
+export function recordReplacements(prev: LedgerEntry[], next: LedgerEntry[], audit: LedgerAudit, stamp: AuditStamp): LedgerAudit {
+  const byId = new Map(prev.map((e) => [e.id, e]));
+  const replaced = next.filter((e) => byId.has(e.id) && !same(byId.get(e.id), e));
+  if (replaced.length === 0) return audit;
+  const tombstones = replaced.map((after) => ({ ...stamp, action: "correct" as const, before: byId.get(after.id)!, after }));
+  return { ...audit, tombstones: [...audit.tombstones, ...tombstones] };
+}
+
+/** Tombstones of one entry, oldest first. */
+export function entryHistory(audit: LedgerAudit, id: string): LedgerTombstone[] {
+  return audit.tombstones.filter((t) => t.before.id === id);
+}
+
+/** The stored trail may only grow: nothing recorded can be changed or dropped. */
+export function auditTransitionIssues(prev: LedgerAudit, next: LedgerAudit): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const key of ["tombstones", "archives"] as const) {
+    if (next[key].length < prev[key].length) {
+      issues.push({ path: key, message: "the audit trail cannot be shortened" });
+      continue;
+    }
+    prev[key].forEach((p, i) => {
+      if (JSON.stringify(next[key][i]) !== JSON.stringify(p)) issues.push({ path: `${key}[${i}]`, message: "recorded changes cannot be altered" });
+    });
+  }
+  return issues;
+}
+
+// Settling or closing part of a position: the entry is otherwise untouched
+function isRealization(before: LedgerEntry, after: LedgerEntry): boolean {
+  const { settlement: s0, closes: c0 = [], ...rest0 } = before;
+  const { settlement: s1, closes: c1 = [], ...rest1 } = after;
+  return same(rest0, rest1) && (s0 === undefined || same(s0, s1)) && c0.every((c, i) => same(c, c1[i]));
+}
+
+// What a realized entry's P&L is computed from
+const PNL_FIELDS = ["stake", "odds", "price", "legs"] as const;
+
+/** How `after` would rewrite the realized result of `before`: its P&L inputs, settlement or closes. */
+export function realizedChangeIssues(before: LedgerEntry, after: LedgerEntry): ValidationIssue[] {
+  if (!hasRealized(before)) return [];
+  const issues: ValidationIssue[] = PNL_FIELDS.filter((k) => !same(before[k], after[k])).map((k) => ({ path: k, message: REALIZED_FIXED }));
+  if (before.settlement && !same(before.settlement, after.settlement)) issues.push({ path: "settlement", message: "is already recorded" });
+  if (!(before.closes ?? []).every((c, i) => same(c, after.closes?.[i]))) issues.push({ path: "closes", message: "are already recorded" });
+  return issues;
+}
+
+/**
+ * A write may only change stored entries on the record: a removed entry needs a delete / undo
+ * tombstone or an archive holding it, a changed one a correction tombstone from exactly
+ * `before` to `after`. Settlements and partial closes need neither; new entries are free.
+ * Entries with a realized result only leave through an archive and keep their P&L inputs.
+ */
+export function ledgerTransitionIssues(prev: LedgerEntry[], next: LedgerEntry[], audit: LedgerAudit): ValidationIssue[] {
+  const after = new Map(next.map((e) => [e.id, e]));
+  const issues: ValidationIssue[] = [];
+  for (const e of prev) {
+    const n = after.get(e.id);
+    if (!n) {
+      const tombstoned = !hasRealized(e) && audit.tombstones.some((t) => t.action !== "correct" && same(t.before, e));
+      if (!tombstoned && !audit.archives.some((a) => a.entries.some((x) => same(x, e)))) {
+        issues.push({ path: e.id, message: hasRealized(e) ? "has a realized result and can only leave through an archive" : "removed without a tombstone or archive" });
+      }
+    } else if (same(n, e) || isRealization(e, n)) {
+      continue;
+    } else if (!audit.tombstones.some((t) => t.action === "correct" && same(t.before, e) && same(t.after, n))) {
+      issues.push({ path: e.id, message: "changed without a correction tombstone" });
+    } else {
+      issues.push(...realizedChangeIssues(e, n).map((x) => ({ path: `${e.id}.${x.path}`, message: x.message })));
+    }
+  }
+  return issues;
+}
+
+/** ---------- Browsing ---------- */
+/** Unset fields match everything; `from` / `to` are inclusive epoch ms, group IDs match by substring. */
+export type LedgerFilter = { from?: number; to?: number; verdicts?: Verdict[]; reason?: string; group?: string };
+
+export type LedgerSort = { key: "ts" | "stake" | "odds" | "verdict"; dir: "asc" | "desc" };
+
+const VERDICT_ORDER: Record<Verdict, number> = { ALLOW: 0, WARN: 1, HARD_WARN: 2, RED_ALERT: 3 };
+
+function groupIds(e: LedgerEntry): string[] {
+  const legs = e.legs ?? [];
+  return [e.group1_id, e.group2_id, ...Object.values(e.groups ?? {}), ...legs.flatMap((l) => [l.group1_id, l.group2_id, ...Object.values(l.groups ?? {})])];
+}
+
+export function filterLedger(ledger: LedgerEntry[], f: LedgerFilter): LedgerEntry[] {
+  const group = f.group?.trim().toLowerCase();
+  return ledger.filter(
+    (e) =>
+      (f.from === undefined || e.ts >= f.from) &&
+      (f.to === undefined || e.ts <= f.to) &&
+      (!f.verdicts?.length || f.verdicts.includes(e.verdict)) &&
+      (!f.reason || e.reasons.includes(f.reason)) &&
+      (!group || groupIds(e).some((g) => g.toLowerCase().includes(group)))
+  );
+}
+
+/** Stable: ties keep ledger order. */
+export function sortLedger(ledger: LedgerEntry[], sort: LedgerSort): LedgerEntry[] {
+  const value = (e: LedgerEntry) => (sort.key === "verdict" ? VERDICT_ORDER[e.verdict] : e[sort.key]);
+  const sign = sort.dir === "asc" ? 1 : -1;
+  return ledger
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => sign * (value(a.e) - value(b.e)) || a.i - b.i)
+    .map((x) => x.e);
+}
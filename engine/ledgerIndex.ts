@@ -0,0 +1,196 @@
+import { windowsAt } from "./clock";
+import { customAggregates } from "./customRules";
+import { allDimensions, positionValues } from "./dimensions";
+import { hasRealized, openStake, positionState } from "./positions";
+import { NO_CARRY, pnlSeries } from "./settlement";
+import type { CarriedPnl } from "./settlement";
+import type { DimensionWindow, Exposures, LedgerEntry, ProposedBet, UserRules } from "./types";
+
+/** ---------- Ledger index (windowed exposures without rescanning history) ---------- */
+/** Entries of one group value: positions into the index and the running stake through each. */
+type Postings = { pos: number[]; staked: number[] };
+
+/**
+ * The ledger in time order with running stake totals, overall and per group value, so a window
+ * sum is two binary searches. Built once; commits extend its arrays (see syncLedgerIndex).
+ */
+export type LedgerIndex = {
+  source: LedgerEntry[];                        // the newest-first ledger this indexes
+  carried: CarriedPnl;                          // realized P&L of entries no longer in the ledger
+  entries: LedgerEntry[];                       // oldest first
+  staked: number[];                             // running stake through entries[i]
+  groups: Record<string, Map<string, Postings>>; // dimension key -> value -> postings
+  pnl: { start: number; top: number; at: number[]; cum: number[]; peak: number[] }; // realized P&L events in time order, from `start` and peak `top`
+  live: number[];                               // positions with stake still open
+  closed: { at: number[]; pos: number[] };      // closed positions by their last settlement / close
+};
+
+// Dimension keys an entry carries a value for
+function entryKeys(e: LedgerEntry): string[] {
+  const keys = new Set(["group1", "group2", ...Object.keys(e.groups ?? {})]);
+  for (const l of e.legs ?? []) for (const k of Object.keys(l.groups ?? {})) keys.add(k);
+  return [...keys];
+}
+
+/** The newest-first ledger oldest first; entries committed in the same ms keep their commit order. */
+export function timeOrder(ledger: LedgerEntry[]): LedgerEntry[] {
+  return ledger.map((e, i) => ({ e, i })).sort((a, b) => a.e.ts - b.e.ts || b.i - a.i).map((x) => x.e);
+}
+
+function lastEvent(e: LedgerEntry): number {
+  return Math.max(e.settlement?.settled_at ?? -Infinity, ...(e.closes ?? []).map((c) => c.closed_at));
+}
+
+/**
+ * Append one entry no older than the newest indexed one. Its settlement and closes may lie
+ * ahead of it; queries only count them once `asOf` reaches them.
+ */
+export function appendToLedgerIndex(index: LedgerIndex, e: LedgerEntry) {
+  const i = index.entries.length;
+  index.entries.push(e);
+  index.staked.push((index.staked[i - 1] ?? 0) + e.stake);
+  for (const key of entryKeys(e)) {
+    const byValue = (index.groups[key] ??= new Map());
+    for (const v of positionValues(e, key)) {
+      const p = byValue.get(v) ?? { pos: [], staked: [] };
+      p.staked.push((p.staked[p.staked.length - 1] ?? 0) + e.stake);
+      p.pos.push(i);
+      byValue.set(v, p);
+    }
+  }
+  if (positionState(e) !== "closed") {
+    index.live.push(i);
+    return;
+  }
+  const at = lastEvent(e);
+  const k = countUpTo(index.closed.at.length, (j) => index.closed.at[j], at);
+  index.closed.at.splice(k, 0, at);
+  index.closed.pos.splice(k, 0, i);
+}
+
+/**
+ * Index `ledger`. With `entries: false` the index starts out empty over the realized P&L of the
+ * whole ledger, for a caller that appends the entries itself, oldest first (see replayLedger).
+ */
+export function buildLedgerIndex(ledger: LedgerEntry[], carried: CarriedPnl = NO_CARRY, entries = true): LedgerIndex {
+  const series = pnlSeries(ledger, carried);
+  const index: LedgerIndex = {
+    source: ledger,
+    carried,
+    entries: [],
+    staked: [],
+    groups: {},
+    pnl: { start: series.start, top: series.peak, at: [], cum: [], peak: [] },
+    live: [],
+    closed: { at: [], pos: [] }
+  };
+  if (entries) for (const e of timeOrder(ledger)) appendToLedgerIndex(index, e);
+
+  let cum = series.start, peak = series.peak;
+  for (const { at, pnl } of series.events) {
+    cum += pnl;
+    peak = Math.max(peak, cum);
+    index.pnl.at.push(at);
+    index.pnl.cum.push(cum);
+    index.pnl.peak.push(peak);
+  }
+  return index;
+}
+
+/**
+ * Bring an index up to date with `ledger` and the carried P&L. Newly committed entries (prepended, newest first,
+ * nothing realized yet) are appended to the existing arrays; any other change rebuilds the index.
+ * Either way a changed ledger yields a new index object, so anything memoized on the index
+ * recomputes. The previous object shares the extended arrays and must not be used again.
+ */
+export function syncLedgerIndex(index: LedgerIndex | undefined, ledger: LedgerEntry[], carried: CarriedPnl = NO_CARRY): LedgerIndex {
+  if (!index || index.carried !== carried) return buildLedgerIndex(ledger, carried);
+  if (index.source === ledger) return index;
+  const added = ledger.length - index.source.length;
+  if (added < 0 || index.source.some((e, i) => ledger[added + i] !== e)) return buildLedgerIndex(ledger, carried);
+  const fresh = ledger.slice(0, added).reverse();
+  const newest = index.entries[index.entries.length - 1]?.ts ?? -Infinity;
+  if (fresh.some((e, i) => e.ts < (fresh[i - 1]?.ts ?? newest) || hasRealized(e))) return buildLedgerIndex(ledger, carried);
+  for (const e of fresh) appendToLedgerIndex(index, e);
+  return { ...index, source: ledger };
+}
+
+// How many of the first `n` ascending times `at(i)` are <= t (< t when `strict`)
+function countUpTo(n: number, at: (i: number) => number, t: number, strict = false): number {
+  let lo = 0, hi = n;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (strict ? at(mid) < t : at(mid) <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * positionExposures over an index: the same figures, as of `asOf`, reading only the windows
+ * and group values the position touches. Realized losses count P&L events by `asOf`, from the
+ * index's carried P&L.
+ */
+export function indexedExposures(index: LedgerIndex, bet: ProposedBet, rules: UserRules, asOf: number = Date.now()): Exposures {
+  const { entries, staked } = index;
+  const w = windowsAt(rules, asOf);
+  const start: Record<DimensionWindow, number> = { day: w.day_start, week: w.week_start, rolling_7d: w.rolling_7d_start };
+  const ts = (i: number) => entries[i].ts;
+  const end = countUpTo(entries.length, ts, asOf);
+  const from = (t: number) => countUpTo(entries.length, ts, t, true);
+  const sum = (lo: number) => (end > 0 ? staked[end - 1] : 0) - (lo > 0 ? staked[lo - 1] : 0);
+  const openIn = (lo: number) => {
+    let o = 0;
+    for (let i = lo; i < end; i++) o += openStake(entries[i], asOf);
+    return o;
+  };
+
+  const by_dimension: Record<string, Record<string, number>> = {};
+  const open_by_dimension: Record<string, Record<string, number>> = {};
+  for (const d of allDimensions(rules)) {
+    by_dimension[d.key] = {};
+    open_by_dimension[d.key] = {};
+    for (const v of positionValues(bet, d.key)) {
+      const p = index.groups[d.key]?.get(v);
+      const at = (i: number) => entries[p!.pos[i]].ts;
+      const lo = p ? countUpTo(p.pos.length, at, start[d.window], true) : 0;
+      const hi = p ? countUpTo(p.pos.length, at, asOf) : 0;
+      let atRisk = 0;
+      for (let i = lo; i < hi; i++) atRisk += openStake(entries[p!.pos[i]], asOf);
+      by_dimension[d.key][v] = hi > 0 ? p!.staked[hi - 1] - (lo > 0 ? p!.staked[lo - 1] : 0) : 0;
+      open_by_dimension[d.key][v] = atRisk;
+    }
+  }
+
+  // Closed positions only count when asOf predates their closing
+  let open_total = 0;
+  const { closed } = index;
+  const closedBy = countUpTo(closed.at.length, (i) => closed.at[i], asOf);
+  for (const i of index.live) if (i < end) open_total += openStake(entries[i], asOf);
+  for (let k = closedBy; k < closed.pos.length; k++) if (closed.pos[k] < end) open_total += openStake(entries[closed.pos[k]], asOf);
+
+  const day = from(w.day_start);
+  const { at, cum, peak } = index.pnl;
+  const eventAt = (i: number) => at[i];
+  const n = countUpTo(at.length, eventAt, asOf);
+  const cumAt = (k: number) => (k > 0 ? cum[k - 1] : index.pnl.start);
+  const lossSince = (t: number) => Math.max(0, cumAt(countUpTo(at.length, eventAt, t, true)) - cumAt(n));
+  const earliest = Math.min(w.day_start, w.week_start, w.rolling_7d_start);
+
+  return {
+    daily_staked: sum(day),
+    weekly_staked: sum(from(w.week_start)),
+    same_group1_staked: Math.max(0, ...positionValues(bet, "group1").map((v) => by_dimension.group1?.[v] ?? 0)),
+    same_group2_7d_staked: Math.max(0, ...positionValues(bet, "group2").map((v) => by_dimension.group2?.[v] ?? 0)),
+    bets_today: end - day,
+    by_dimension,
+    custom: customAggregates(entries.slice(from(earliest), end), bet, rules, asOf),
+    daily_loss: lossSince(w.day_start),
+    weekly_loss: lossSince(w.week_start),
+    drawdown: n > 0 ? peak[n - 1] - cum[n - 1] : index.pnl.top - index.pnl.start,
+    open_daily: openIn(day),
+    open_weekly: openIn(from(w.week_start)),
+    open_by_dimension,
+    open_total
+  };
+}
@@ -0,0 +1,36 @@
+import { betPrice, decimalToAmerican, isValidPrice } from "./odds";
+import type { LedgerEntry, Leg, ProposedBet } from "./types";
+
+/** ---------- Multi-leg positions (parlays / same-game combos) ---------- */
+export function isMultiLeg(bet: Pick<ProposedBet, "legs">): boolean {
+  return (bet.legs?.length ?? 0) > 0;
+}
+
+/** Distinct group IDs a position touches: every leg's, or the single bet's own. */
+export function betGroups(bet: Pick<ProposedBet, "group1_id" | "group2_id" | "legs">): { group1: string[]; group2: string[] } {
+  const legs = isMultiLeg(bet) ? bet.legs! : [bet];
+  return {
+    group1: [...new Set(legs.map((l) => l.group1_id))],
+    group2: [...new Set(legs.map((l) => l.group2_id))]
+  };
+}
+
+/**
+ * A multi-leg position: combined price, its American equivalent (0 when any leg is
+ * invalid) and the first leg's groups in the single-group fields for older readers.
+ */
+export function comboBet(stake: number, legs: Leg[]): ProposedBet {
+  const price = betPrice({ odds: 0, legs });
+  return {
+    stake,
+    odds: isValidPrice(price) ? Math.round(decimalToAmerican(price)) : 0,
+    price: isValidPrice(price) ? price : 0,
+    group1_id: legs[0]?.group1_id ?? "",
+    group2_id: legs[0]?.group2_id ?? "",
+    legs
+  };
+}
+
+export function entryTouches(e: LedgerEntry, dim: "group1_id" | "group2_id", id: string): boolean {
+  return isMultiLeg(e) ? e.legs!.some((l) => l[dim] === id) : e[dim] === id;
+}
@@ -0,0 +1,150 @@
+import type { OddsFormat, ProposedBet, UserRules } from "./types";
+
+/** ---------- Odds (normalized internally to a decimal price) ---------- */
+export const ODDS_FORMATS: readonly OddsFormat[] = ["american", "decimal", "fractional", "hongkong"];
+
+export function isValidAmericanOdds(n: number): boolean {
+  return Number.isFinite(n) && Number.isInteger(n) && n !== 0;
+}
+
+export function isValidPrice(price: number): boolean {
+  return Number.isFinite(price) && price > 1;
+}
+
+export function americanToDecimal(a: number): number {
+  return a > 0 ? 1 + a / 100 : 1 + 100 / Math.abs(a);
+}
+
+export function decimalToAmerican(price: number): number {
+  return price >= 2 ? (price - 1) * 100 : -100 / (price - 1);
+}
+
+export function impliedProbability(price: number): number {
+  return 1 / price;
+}
+
+const FRACTION = /^\s*(\d+(?:\.\d+)?)\s*[/-]\s*(\d+(?:\.\d+)?)\s*$/;
+
+/** Parse odds as typed in `format`; returns the decimal price, or null when invalid. */
+export function parseOdds(format: OddsFormat, raw: string): number | null {
+  const text = raw.trim();
+  let price: number;
+  switch (format) {
+    case "american": {
+      const a = Number(text);
+      if (text === "" || !isValidAmericanOdds(a)) return null;
+      price = americanToDecimal(a);
+      break;
+    }
+    case "decimal":
+      price = text === "" ? NaN : Number(text);
+      break;
+    case "hongkong":
+      price = text === "" ? NaN : Number(text) + 1;
+      break;
+    case "fractional": {
+      if (/^(evens|evs)$/i.test(text)) return 2;
+      const m = FRACTION.exec(text);
+      if (!m || Number(m[2]) === 0) return null;
+      price = 1 + Number(m[1]) / Number(m[2]);
+      break;
+    }
+  }
+  return isValidPrice(price) ? price : null;
+}
+
+function toFraction(x: number): string {
+  // Continued-fraction approximation with a bookmaker-sized denominator
+  let [h0, h1, k0, k1] = [0, 1, 1, 0];
+  let v = x;
+  for (let i = 0; i < 12; i++) {
+    const a = Math.floor(v);
+    [h0, h1] = [h1, a * h1 + h0];
+    [k0, k1] = [k1, a * k1 + k0];
+    if (k1 > 100 || Math.abs(x - h1 / k1) < 1e-6) break;
+    v = 1 / (v - a);
+  }
+  if (k1 > 100) return `${Math.round(x * 100)}/100`;
+  return `${h1}/${k1}`;
+}
+
+export function formatOdds(price: number, format: OddsFormat): string {
+  if (!isValidPrice(price)) return "—";
+  switch (format) {
+    case "american": {
+      const a = Math.round(decimalToAmerican(price));
+      return a > 0 ? `+${a}` : String(a);
+    }
+    case "decimal":
+      return price.toFixed(2);
+    case "hongkong":
+      return (price - 1).toFixed(2);
+    case "fractional":
+      return toFraction(price - 1);
+  }
+}
+
+/** Product of leg prices; NaN when any leg is invalid. */
+export function combinedPrice(legs: Pick<ProposedBet, "odds" | "price">[]): number {
+  return legs.reduce((p, leg) => p * betPrice(leg), 1);
+}
+
+/**
+ * Decimal price of a bet: combined over `legs` when present, else `price`, else the
+ * legacy American `odds`. NaN when invalid.
+ */
+export function betPrice(bet: Pick<ProposedBet, "odds" | "price" | "legs">): number {
+  if (bet.legs && bet.legs.length > 0) return combinedPrice(bet.legs);
+  if (bet.price !== undefined) return isValidPrice(bet.price) ? bet.price : NaN;
+  return isValidAmericanOdds(bet.odds) ? americanToDecimal(bet.odds) : NaN;
+}
+
+/** Odds gate: fires on long odds per the configured mode, and on any invalid odds. */
+export function oddsGateFires(bet: ProposedBet, rules: UserRules): boolean {
+  const price = betPrice(bet);
+  if (!isValidPrice(price)) return true;
+  switch (rules.odds_gate_mode) {
+    case "implied_prob":
+      return impliedProbability(price) <= rules.odds_gate_prob;
+    case "decimal":
+      return price >= rules.odds_gate_price;
+    default:
+      return bet.price === undefined && !bet.legs?.length ? bet.odds >= rules.odds_gate : decimalToAmerican(price) >= rules.odds_gate;
+  }
+}
+
+/** The odds gate threshold as a decimal price (it fires at or above it, or on invalid odds). */
+export function oddsGatePrice(rules: UserRules): number {
+  switch (rules.odds_gate_mode) {
+    case "implied_prob":
+      return 1 / rules.odds_gate_prob;
+    case "decimal":
+      return rules.odds_gate_price;
+    default:
+      return americanToDecimal(rules.odds_gate);
+  }
+}
+
+export function describeOddsGate(rules: UserRules): string {
+  switch (rules.odds_gate_mode) {
+    case "implied_prob":
+      return `implied probability ≤ ${(rules.odds_gate_prob * 100).toFixed(1)}%`;
+    case "decimal":
+      return `decimal price ≥ ${rules.odds_gate_price.toFixed(2)}`;
+    default:
+      return `≥ ${rules.odds_gate > 0 ? "+" : ""}${rules.odds_gate}`;
+  }
+}
+
+export type NormalizedOdds = { odds: number; price: number; odds_format: OddsFormat; odds_input: string };
+
+/**
+ * Everything a bet/ledger entry records about its odds. Invalid input normalizes to
+ * odds 0 / price 0, which the odds gate treats as invalid.
+ */
+export function normalizeOdds(format: OddsFormat, raw: string): NormalizedOdds {
+  const price = parseOdds(format, raw);
+  if (price === null) return { odds: 0, price: 0, odds_format: format, odds_input: raw.trim() };
+  const odds = format === "american" ? Number(raw.trim()) : Math.round(decimalToAmerican(price));
+  return { odds, price, odds_format: format, odds_input: raw.trim() };
+}
@@ -0,0 +1,57 @@
+import type { ExposureMeasure, LedgerEntry, PositionState, UserRules } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Position lifecycle (open → partially closed → closed) ---------- */
+/** Stake closed out before settlement, counting closes made by `asOf`. */
+export function closedStake(e: LedgerEntry, asOf = Infinity): number {
+  let closed = 0;
+  for (const c of e.closes ?? []) if (c.closed_at <= asOf) closed += c.stake;
+  return closed;
+}
+
+export function positionState(e: LedgerEntry, asOf = Infinity): PositionState {
+  if (e.settlement && e.settlement.settled_at <= asOf) return "closed";
+  const closed = closedStake(e, asOf);
+  if (closed >= e.stake) return "closed";
+  return closed > 0 ? "partially_closed" : "open";
+}
+
+/** A result is on record: the position settled or part of it was closed. */
+export function hasRealized(e: LedgerEntry): boolean {
+  return e.settlement !== undefined || (e.closes?.length ?? 0) > 0;
+}
+
+/** Capital still at risk in a position at `asOf`. */
+export function openStake(e: LedgerEntry, asOf = Infinity): number {
+  return positionState(e, asOf) === "closed" ? 0 : e.stake - closedStake(e, asOf);
+}
+
+/** Close `stake` of a position for `amount` returned; closing all of it closes the position. */
+export function closePart(e: LedgerEntry, stake: number, amount: number, closed_at: number): LedgerEntry {
+  const open = openStake(e);
+  if (!(Number.isFinite(stake) && stake > 0 && stake <= open)) throw new Error(`close stake must be above 0 and at most the open ${open}`);
+  if (!(Number.isFinite(amount) && amount >= 0)) throw new Error("close requires a non-negative amount");
+  return { ...e, closes: [...(e.closes ?? []), { closed_at, stake, amount }] };
+}
+
+/** ---------- Cap measures ---------- */
+/** Which measure a cap ("daily", "weekly" or a dimension key) uses. */
+export function capMeasure(rules: Pick<UserRules, "cap_measures">, cap: string): ExposureMeasure {
+  return rules.cap_measures?.[cap] ?? "staked";
+}
+
+/** Open exposure never exceeds cumulative stake, so moving a cap onto it loosens. */
+export function capMeasuresLoosened(from: UserRules, to: UserRules): boolean {
+  return Object.keys(to.cap_measures ?? {}).some((k) => capMeasure(from, k) === "staked" && capMeasure(to, k) === "open");
+}
+
+/** Measures name a known cap and are "staked" or "open". */
+export function capMeasureIssues(rules: Pick<UserRules, "cap_measures" | "dimensions">): ValidationIssue[] {
+  const caps = ["daily", "weekly", "group1", "group2", ...(rules.dimensions ?? []).map((d) => d.key)];
+  const issues: ValidationIssue[] = [];
+  for (const [k, m] of Object.entries(rules.cap_measures ?? {})) {
+    if (!caps.includes(k)) issues.push({ path: `cap_measures.${k}`, message: "is not a cap (daily, weekly or a dimension key)" });
+    else if (m !== "staked" && m !== "open") issues.push({ path: `cap_measures.${k}`, message: "must be staked or open" });
+  }
+  return issues;
+}
@@ -0,0 +1,120 @@
+import { isConcentrationReason } from "./dimensions";
+import { R } from "./reasons";
+import type { DecisionResult, DecisionTrace, LedgerEntry, RuleCheck } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Profiles (independent rules / ledger / bankroll / cooldown each) ---------- */
+export type Profile = { id: string; name: string };
+
+export type ProfilesState = {
+  profiles: Profile[];
+  active: string;
+  umbrella_weekly_cap: number; // combined ISO-week stake across all profiles, in currency; 0 = off
+  umbrella_pending?: UmbrellaChange; // a loosening waiting out the delay
+};
+
+/** An umbrella cap change filed at one time and in force from `effective_at`. */
+export type UmbrellaChange = { cap: number; effective_at: number };
+
+export const DEFAULT_PROFILE_ID = "default";
+
+export const DEFAULT_PROFILES: ProfilesState = {
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "Default" }],
+  active: DEFAULT_PROFILE_ID,
+  umbrella_weekly_cap: 0
+};
+
+/** Checks the schema can't express: unique ids, at least one profile, active must exist. */
+export function profilesIssues(state: ProfilesState): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (state.profiles.length === 0) issues.push({ path: "profiles", message: "must contain at least one profile" });
+  const seen = new Set<string>();
+  state.profiles.forEach((p, i) => {
+    if (seen.has(p.id)) issues.push({ path: `profiles[${i}].id`, message: `duplicate id ${p.id}` });
+    seen.add(p.id);
+  });
+  if (state.profiles.length > 0 && !seen.has(state.active)) issues.push({ path: "active", message: "must be one of the profile ids" });
+  return issues;
+}
+
+/** Slug id from a display name, suffixed until it doesn't clash. */
+export function profileId(name: string, taken: string[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "profile";
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/** ---------- Umbrella cap changes (loosening waits, like rules changes) ---------- */
+/** Raising the umbrella cap or switching it off (0) loosens it. */
+export function umbrellaLoosened(from: number, to: number): boolean {
+  return from > 0 && (to === 0 || to > from);
+}
+
+/** The state as of `now`: a pending change whose delay is over is in force. */
+export function umbrellaAt(state: ProfilesState, now: number): ProfilesState {
+  const pending = state.umbrella_pending;
+  if (!pending || now < pending.effective_at) return state;
+  const { umbrella_pending: _done, ...rest } = state;
+  return { ...rest, umbrella_weekly_cap: pending.cap };
+}
+
+/**
+ * File an umbrella cap change the way rules changes are filed: tightening applies at once and
+ * drops a pending loosening; loosening waits `delayHours`, and re-filing it keeps its time.
+ */
+export function proposeUmbrellaCap(state: ProfilesState, cap: number, now: number, delayHours: number): ProfilesState {
+  const { umbrella_pending: pending, ...current } = umbrellaAt(state, now);
+  if (!umbrellaLoosened(current.umbrella_weekly_cap, cap)) return { ...current, umbrella_weekly_cap: cap };
+  if (pending?.cap === cap) return { ...current, umbrella_pending: pending };
+  return { ...current, umbrella_pending: { cap, effective_at: now + delayHours * 60 * 60 * 1000 } };
+}
+
+/** Stake already committed this ISO week, i.e. since `weekStart`, in the given ledger. */
+export function weeklyStaked(ledger: LedgerEntry[], weekStart: number): number {
+  return ledger.reduce((sum, e) => (e.ts >= weekStart ? sum + e.stake : sum), 0);
+}
+
+/**
+ * Umbrella cap across profiles. Like the per-profile weekly cap, breaching it is a
+ * RED_ALERT; the reason is listed after the profile's own cap violations.
+ * `combinedWeekly` is this week's stake across every profile, excluding the proposed bet.
+ */
+export function applyUmbrellaCap(decision: DecisionResult, stake: number, combinedWeekly: number, cap: number): DecisionResult {
+  if (!(cap > 0)) return decision;
+  const stopped = decision.reasons.includes(R.CD_ACTIVE); // cooldown hard stop already wins
+  const fires = combinedWeekly + stake > cap && !stopped;
+  const trace = decision.trace && umbrellaTrace(decision, stake, combinedWeekly, cap, fires);
+  if (!fires) return trace ? { ...decision, trace } : decision;
+
+  const capCodes: string[] = [R.UNIT, R.DAILY, R.WEEKLY, R.FREQ, R.LEGS, R.COMBO_PRICE];
+  const at = decision.reasons.filter((r) => capCodes.includes(r) || isConcentrationReason(r)).length;
+  const reasons = [...decision.reasons.slice(0, at), R.UMBRELLA, ...decision.reasons.slice(at)];
+  return { verdict: "RED_ALERT", reasons, friction_required: true, cooldown_triggered: true, ...(trace ? { trace } : {}) };
+}
+
+// The umbrella check goes after the weekly cap; breaching it is the last amplification
+function umbrellaTrace(decision: DecisionResult, stake: number, combinedWeekly: number, cap: number, fires: boolean): DecisionTrace {
+  const t = decision.trace as DecisionTrace;
+  const projected = combinedWeekly + stake;
+  const umbrella: RuleCheck = {
+    code: R.UMBRELLA,
+    label: "Umbrella weekly exposure (all profiles)",
+    unit: "money",
+    cap,
+    current: combinedWeekly,
+    projected,
+    headroom: cap - projected,
+    passed: projected <= cap,
+    contributes: fires ? "violation" : null
+  };
+  const at = t.checks.findIndex((c) => c.code === R.WEEKLY) + 1;
+  const checks = [...t.checks.slice(0, at), umbrella, ...t.checks.slice(at)];
+  if (!fires) return { ...t, checks };
+
+  const label = "Umbrella weekly cap exceeded";
+  const amplifications = [...t.amplifications, { id: "umbrella_cap", label, from: decision.verdict, to: "RED_ALERT" as const }];
+  return decision.verdict === "RED_ALERT"
+    ? { ...t, checks, amplifications }
+    : { ...t, checks, amplifications, decided_by: "umbrella_cap", decided_by_label: label };
+}
@@ -0,0 +1,26 @@
+/** ---------- Canonical reason codes (v1) ---------- */
+export const R = {
+  UNIT: "UNIT_SIZE_CAP_EXCEEDED",
+  DAILY: "DAILY_EXPOSURE_CAP_EXCEEDED",
+  WEEKLY: "WEEKLY_EXPOSURE_CAP_EXCEEDED",
+  EVENT: "SAME_EVENT_CONCENTRATION_CAP_EXCEEDED",
+  TEAM: "SAME_TEAM_7D_CONCENTRATION_CAP_EXCEEDED",
+  FREQ: "ACTION_FREQUENCY_CAP_EXCEEDED",
+  LEGS: "MAX_LEGS_EXCEEDED",
+  COMBO_PRICE: "MAX_COMBINED_PRICE_EXCEEDED",
+  DAILY_LOSS: "DAILY_LOSS_LIMIT_REACHED",
+  WEEKLY_LOSS: "WEEKLY_LOSS_LIMIT_REACHED",
+  DRAWDOWN: "MAX_DRAWDOWN_REACHED",
+  ODDS: "HIGH_RISK_ODDS_GATE",
+  STAKE_SPIKE: "STAKE_VELOCITY_SPIKE",
+  FREQ_SPIKE: "FREQUENCY_SPIKE",
+  CONS_OVR: "CONSECUTIVE_OVERRIDES_HIGH",
+  CD_HIST: "COOLDOWN_VIOLATION_HISTORY",
+  LOSS_CHASE: "LOSS_CHASING",
+  REVENGE: "REVENGE_BETTING",
+  LOSS_STREAK: "LOSS_STREAK",
+  CD_ACTIVE: "COOLDOWN_ACTIVE",
+  UMBRELLA: "UMBRELLA_WEEKLY_CAP_EXCEEDED"
+} as const;
+
+export type ReasonCode = (typeof R)[keyof typeof R];
@@ -0,0 +1,82 @@
+import { behaviorFor, scanBehavior } from "./behavior";
+import { NO_COOLDOWN, triggerCooldown } from "./cooldown";
+import type { CooldownState } from "./cooldown";
+import { evaluate_v1 } from "./evaluate";
+import { appendToLedgerIndex, buildLedgerIndex, indexedExposures, timeOrder } from "./ledgerIndex";
+import { pnlSeries } from "./settlement";
+import type { CapitalState } from "./settlement";
+import { TIERS } from "./tiers";
+import type { LedgerEntry, ProposedBet, UserRules, Verdict } from "./types";
+
+/** ---------- What-if replay (ledger under candidate rules) ---------- */
+export type ReplayRow = {
+  entry: LedgerEntry;   // as recorded
+  before: Verdict;      // recorded verdict
+  after: Verdict;       // verdict under the candidate rules
+  reasons: string[];    // reasons under the candidate rules
+  bankroll: number;     // bankroll the caps were measured against at entry.ts
+};
+
+export type VerdictCounts = Record<Verdict, number>;
+
+export type ReplayReport = {
+  rows: ReplayRow[];        // chronological
+  before: VerdictCounts;
+  after: VerdictCounts;
+  flips: ReplayRow[];       // rows whose verdict changed
+  tightened: number;        // flips to a higher tier
+  loosened: number;         // flips to a lower tier
+};
+
+const counts = (): VerdictCounts => ({ ALLOW: 0, WARN: 0, HARD_WARN: 0, RED_ALERT: 0 });
+
+function betOf(e: LedgerEntry): ProposedBet {
+  return { stake: e.stake, odds: e.odds, price: e.price, group1_id: e.group1_id, group2_id: e.group2_id, groups: e.groups, legs: e.legs };
+}
+
+/**
+ * Re-run the engine over the ledger, oldest first, as if `rules` had applied throughout.
+ * Each entry sees exposures, behavior and bankroll as of its own ts, built from the entries
+ * before it with their replayed verdicts, and cooldowns triggered by replayed RED_ALERTs.
+ * The umbrella cap spans other profiles and isn't replayed; carried P&L counts from the start.
+ * Replayed entries go into a ledger index one by one, so each step reads only its windows.
+ */
+export function replayLedger(ledger: LedgerEntry[], rules: UserRules, capital: CapitalState): ReplayReport {
+  const ordered = timeOrder(ledger);
+  const index = buildLedgerIndex(ledger, capital, false);
+  const replayed = index.entries;
+  // Settlements in time order; those made by an entry's ts had realized their P&L then
+  const settled = ordered.filter((e) => e.settlement).sort((a, b) => a.settlement!.settled_at - b.settlement!.settled_at);
+  const events = pnlSeries(ledger).events;
+  const rows: ReplayRow[] = [];
+  let cooldown: CooldownState = NO_COOLDOWN;
+  let settledBy = 0, eventsBy = 0, realized = 0;
+
+  for (const e of ordered) {
+    while (settledBy < settled.length && settled[settledBy].settlement!.settled_at <= e.ts) settledBy += 1;
+    while (eventsBy < events.length && events[eventsBy].at <= e.ts) realized += events[eventsBy++].pnl;
+    const bet = betOf(e);
+    const bankroll = capital.starting_capital + capital.carried_pnl + realized;
+    const exp = indexedExposures(index, bet, rules, e.ts);
+    const past = { length: replayed.length, at: (i: number) => replayed[replayed.length - 1 - i] };
+    const settledNow = { length: settledBy, at: (i: number) => settled[settledBy - 1 - i] };
+    const beh = behaviorFor(scanBehavior(past, settledNow, rules, e.ts, cooldown), rules, bet).state;
+    const d = evaluate_v1(bankroll, rules, bet, exp, beh);
+
+    rows.push({ entry: e, before: e.verdict, after: d.verdict, reasons: d.reasons, bankroll });
+    // An ALLOW needs no override; anything else is assumed committed through its friction step
+    const { override, ...rest } = e;
+    appendToLedgerIndex(index, d.verdict === "ALLOW" ? { ...rest, verdict: d.verdict, reasons: d.reasons } : { ...e, verdict: d.verdict, reasons: d.reasons });
+    if (d.cooldown_triggered && !beh.cooldown_active) cooldown = triggerCooldown(cooldown, rules, e.ts);
+  }
+
+  const before = counts();
+  const after = counts();
+  for (const r of rows) {
+    before[r.before] += 1;
+    after[r.after] += 1;
+  }
+  const flips = rows.filter((r) => r.before !== r.after);
+  const higher = (r: ReplayRow) => TIERS.indexOf(r.after) > TIERS.indexOf(r.before);
+  return { rows, before, after, flips, tightened: flips.filter(higher).length, loosened: flips.filter((r) => !higher(r)).length };
+}
@@ -0,0 +1,64 @@
+import { customRuleIssues } from "./customRules";
+import { dimensionIssues } from "./dimensions";
+import { V1_POLICY, policyIssues } from "./escalation";
+import { capMeasureIssues } from "./positions";
+import type { BehavioralState, UserRules } from "./types";
+import type { ValidationIssue } from "./validate";
+
+export const DEFAULT_RULES: UserRules = {
+  unit_pct: 2,
+  daily_pct: 6,
+  weekly_pct: 20,
+  group1_pct: 4,
+  group2_pct: 8,
+  freq_cap: 5,
+  odds_gate: 250,
+  odds_gate_mode: "american",
+  odds_gate_prob: 1 / 3.5,
+  odds_gate_price: 3.5,
+  stake_spike_multiple: 2,
+  stake_spike_lookback: 10,
+  freq_spike_multiple: 3,
+  freq_spike_min_bets: 3,
+  cooldown_history_days: 7,
+  loss_chase_multiple: 1.5,
+  tilt_window_hours: 24,
+  loss_streak_min: 3,
+  friction_delay_sec: 10,
+  justification_min_chars: 20,
+  cooldown_minutes: 60,
+  cooldown_escalation: 2,
+  cooldown_repeat_window_days: 7,
+  cooldown_max_hours: 72,
+  max_legs: 4,
+  max_combined_price: 20,
+  loosening_delay_hours: 24,
+  daily_loss_pct: 5,
+  weekly_loss_pct: 10,
+  max_drawdown_pct: 20,
+  timezone: "",
+  day_rollover_hour: 0,
+  week_start_day: 1,
+  window_mode: "calendar",
+  dimensions: [],
+  cap_overrides: [],
+  cap_measures: {},
+  custom_rules: [],
+  escalation: V1_POLICY
+};
+
+export const DEFAULT_BEHAVIOR: BehavioralState = {
+  stake_velocity_spike: false,
+  frequency_spike: false,
+  consecutive_overrides: 0,
+  cooldown_violations: 0,
+  cooldown_active: false,
+  loss_chasing: false,
+  revenge_betting: false,
+  loss_streak: 0
+};
+
+/** Checks beyond the UserRules schema: dimension keys / overrides, custom rules and the escalation policy. */
+export function rulesIssues(rules: UserRules): ValidationIssue[] {
+  return [...dimensionIssues(rules), ...capMeasureIssues(rules), ...customRuleIssues(rules), ...policyIssues(rules)];
+}
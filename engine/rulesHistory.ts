@@ -0,0 +1,178 @@
+import { customRulesLoosened } from "./customRules";
+import { dimensionsLoosened, overridesLoosened } from "./dimensions";
+import { capMeasuresLoosened } from "./positions";
+import type { UserRules } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Rules history (versioned snapshots, cooling-off for loosening) ---------- */
+export type RulesVersion = {
+  version: number;
+  rules: UserRules;
+  created_at: number;
+  effective_at: number;
+  superseded_at?: number; // pending snapshot replaced before it took effect
+};
+
+export type RulesHistory = { versions: RulesVersion[] }; // oldest first
+
+const MS_HOUR = 60 * 60 * 1000;
+
+// A threshold where 0 = off loosens when raised or switched off
+type OptionalThreshold = "daily_loss_pct" | "weekly_loss_pct" | "max_drawdown_pct" | "loss_chase_multiple" | "loss_streak_min";
+const thresholdLoosened = (key: OptionalThreshold) => (from: UserRules, to: UserRules) =>
+  from[key] > 0 && (!(to[key] > 0) || to[key] > from[key]);
+
+// Which direction loosens each rule. "any" = every change counts as loosening; structured
+// rules supply their own test. Typed over every key so a new rule has to declare its direction.
+type Direction = "higher" | "lower" | "any" | ((from: UserRules, to: UserRules) => boolean);
+const LOOSER: Record<keyof UserRules, Direction> = {
+  unit_pct: "higher",
+  daily_pct: "higher",
+  weekly_pct: "higher",
+  group1_pct: "higher",
+  group2_pct: "higher",
+  freq_cap: "higher",
+  odds_gate: "higher",       // gate fires at odds >= threshold
+  odds_gate_mode: "any",
+  odds_gate_prob: "lower",   // gate fires at implied probability <= threshold
+  odds_gate_price: "higher", // gate fires at price >= threshold
+  stake_spike_multiple: "higher",
+  stake_spike_lookback: "any",
+  freq_spike_multiple: "higher",
+  freq_spike_min_bets: "higher",
+  cooldown_history_days: "lower",
+  loss_chase_multiple: thresholdLoosened("loss_chase_multiple"),
+  tilt_window_hours: "lower",
+  loss_streak_min: thresholdLoosened("loss_streak_min"),
+  friction_delay_sec: "lower",
+  justification_min_chars: "lower",
+  cooldown_minutes: "lower",
+  cooldown_escalation: "lower",
+  cooldown_repeat_window_days: "lower",
+  cooldown_max_hours: "lower",
+  max_legs: "higher",
+  max_combined_price: "higher",
+  loosening_delay_hours: "lower",
+  daily_loss_pct: thresholdLoosened("daily_loss_pct"),
+  weekly_loss_pct: thresholdLoosened("weekly_loss_pct"),
+  max_drawdown_pct: thresholdLoosened("max_drawdown_pct"),
+  // Moving a day / week boundary can reopen a window early
+  timezone: "any",
+  day_rollover_hour: "any",
+  week_start_day: "any",
+  window_mode: "any",
+  dimensions: dimensionsLoosened,
+  cap_overrides: overridesLoosened,
+  cap_measures: capMeasuresLoosened,
+  custom_rules: customRulesLoosened,
+  escalation: "any" // ladders don't order; any change can soften a verdict
+};
+
+const RULE_KEYS = Object.keys(LOOSER) as (keyof UserRules)[];
+
+// Rules round-trip through JSON, so structured values compare by content
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function looser(key: keyof UserRules, from: UserRules, to: UserRules): boolean {
+  const a = from[key], b = to[key];
+  if (same(a, b)) return false;
+  const dir = LOOSER[key];
+  if (typeof dir === "function") return dir(from, to);
+  return dir === "any" || (dir === "higher" ? b > a : b < a);
+}
+
+/** Fields whose change from `from` to `to` loosens a limit. */
+export function loosenedFields(from: UserRules, to: UserRules): (keyof UserRules)[] {
+  return RULE_KEYS.filter((k) => looser(k, from, to));
+}
+
+export function initialHistory(rules: UserRules, ts = 0): RulesHistory {
+  return { versions: [{ version: 1, rules, created_at: ts, effective_at: ts }] };
+}
+
+const live = (v: RulesVersion) => v.superseded_at === undefined;
+
+/** Snapshot in force at `now`: the newest live version that has taken effect. */
+export function effectiveVersion(h: RulesHistory, now: number): RulesVersion {
+  const inForce = h.versions.filter((v) => live(v) && v.effective_at <= now);
+  return inForce[inForce.length - 1] ?? h.versions[0];
+}
+
+/** Live snapshots still waiting out their delay. */
+export function pendingVersions(h: RulesHistory, now: number): RulesVersion[] {
+  return h.versions.filter((v) => live(v) && v.effective_at > now);
+}
+
+/** What the user last asked for: the pending snapshot if any, else the one in force. */
+export function latestRules(h: RulesHistory, now: number): UserRules {
+  const pending = pendingVersions(h, now);
+  return (pending[pending.length - 1] ?? effectiveVersion(h, now)).rules;
+}
+
+/**
+ * Record `draft` as the new rules. Tightening fields take effect now; if anything
+ * loosens relative to the rules in force, the full draft waits out the delay of the
+ * rules in force. Earlier pending snapshots are superseded; the new one keeps the
+ * old timer when it loosens nothing beyond what was already pending.
+ */
+export function proposeRules(h: RulesHistory, draft: UserRules, now: number): RulesHistory {
+  const current = effectiveVersion(h, now);
+  const pending = pendingVersions(h, now);
+  const prevPending = pending[pending.length - 1];
+
+  const versions = h.versions.map((v) => (pending.includes(v) ? { ...v, superseded_at: now } : v));
+  let next = versions.reduce((n, v) => Math.max(n, v.version), 0) + 1;
+
+  const loosened = loosenedFields(current.rules, draft);
+  const immediate = { ...draft };
+  for (const k of loosened) (immediate as Record<string, unknown>)[k] = current.rules[k];
+  if (RULE_KEYS.some((k) => !same(immediate[k], current.rules[k]))) {
+    versions.push({ version: next++, rules: immediate, created_at: now, effective_at: now });
+  }
+
+  if (loosened.length > 0) {
+    const keepTimer = prevPending && loosenedFields(prevPending.rules, draft).length === 0;
+    const effective_at = keepTimer ? prevPending.effective_at : now + current.rules.loosening_delay_hours * MS_HOUR;
+    versions.push({ version: next, rules: draft, created_at: now, effective_at });
+  }
+  return { versions };
+}
+
+// Client and server clocks drift; allow this much when checking a delay.
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Server-side check that `next` only appends to `prev` (or supersedes pending
+ * snapshots) and that appended snapshots which loosen a limit respect the delay.
+ */
+export function historyTransitionIssues(prev: RulesHistory, next: RulesHistory, now: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (next.versions.length < prev.versions.length) {
+    return [{ path: "versions", message: "history cannot be shortened" }];
+  }
+  prev.versions.forEach((p, i) => {
+    const n = next.versions[i];
+    const same = n.version === p.version && n.created_at === p.created_at && n.effective_at === p.effective_at && JSON.stringify(n.rules) === JSON.stringify(p.rules);
+    if (!same) issues.push({ path: `versions[${i}]`, message: "existing snapshots cannot be changed" });
+    else if (p.superseded_at !== undefined && n.superseded_at !== p.superseded_at) issues.push({ path: `versions[${i}].superseded_at`, message: "cannot be changed once set" });
+    else if (p.superseded_at === undefined && n.superseded_at !== undefined && p.effective_at <= now) {
+      issues.push({ path: `versions[${i}].superseded_at`, message: "only pending snapshots can be superseded" });
+    }
+  });
+
+  const current = effectiveVersion(prev, now).rules;
+  const delay = current.loosening_delay_hours * MS_HOUR;
+  next.versions.slice(prev.versions.length).forEach((v, j) => {
+    const i = prev.versions.length + j;
+    const last = next.versions[i - 1];
+    if (last && v.version <= last.version) issues.push({ path: `versions[${i}].version`, message: "must increase" });
+    if (loosenedFields(current, v.rules).length > 0 && v.effective_at < now + delay - CLOCK_SKEW_MS) {
+      // Re-filing an already pending loosening may keep its timer
+      const covering = prev.versions.filter((p) => live(p) && p.effective_at > now && loosenedFields(p.rules, v.rules).length === 0);
+      if (!covering.some((p) => v.effective_at >= p.effective_at)) {
+        issues.push({ path: `versions[${i}].effective_at`, message: `loosening takes effect no sooner than ${current.loosening_delay_hours}h after it is made` });
+      }
+    }
+  });
+  return issues;
+}
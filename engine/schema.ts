@@ -0,0 +1,547 @@
+/** ---------- JSON Schema (subset) for engine types ---------- */
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  $ref?: string;
+};
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const num = (description: string, minimum?: number): JsonSchema =>
+  minimum === undefined ? { type: "number", description } : { type: "number", description, minimum };
+
+export const SCHEMAS: Record<string, JsonSchema> = {
+  Verdict: { type: "string", enum: ["ALLOW", "WARN", "HARD_WARN", "RED_ALERT"] },
+  OddsFormat: { type: "string", enum: ["american", "decimal", "fractional", "hongkong"] },
+  UserRules: {
+    type: "object",
+    required: ["unit_pct", "daily_pct", "weekly_pct", "group1_pct", "group2_pct", "freq_cap", "odds_gate"],
+    properties: {
+      unit_pct: num("Max single stake, % of bankroll", 0),
+      daily_pct: num("Max staked per day window, % of bankroll", 0),
+      weekly_pct: num("Max staked per week window, % of bankroll", 0),
+      group1_pct: num("Max staked today on one group1_id, % of bankroll", 0),
+      group2_pct: num("Max staked over rolling 7d on one group2_id, % of bankroll", 0),
+      freq_cap: num("Max bets per day window", 0),
+      odds_gate: num("American odds at or above which the odds gate fires"),
+      odds_gate_mode: { type: "string", enum: ["american", "implied_prob", "decimal"], description: "Which threshold the odds gate uses" },
+      odds_gate_prob: num("implied_prob mode: gate fires at implied probability <= this", 0),
+      odds_gate_price: num("decimal mode: gate fires at decimal price >= this", 1),
+      stake_spike_multiple: num("Stake velocity spike fires above this multiple of the trailing median stake", 0),
+      stake_spike_lookback: { type: "integer", description: "Number of recent bets in the trailing median", minimum: 1 },
+      freq_spike_multiple: num("Frequency spike fires above this multiple of the baseline bets/hour", 0),
+      freq_spike_min_bets: { type: "integer", description: "Minimum bets in the last hour before a frequency spike can fire", minimum: 1 },
+      cooldown_history_days: num("Window for counting cooldown violations", 0),
+      loss_chase_multiple: num("Loss chasing fires when the stake after a loss exceeds this multiple of the lost stake; 0 = off", 0),
+      tilt_window_hours: num("Losses settled within this many hours count for loss chasing and revenge betting", 0),
+      loss_streak_min: { type: "integer", description: "Loss streak fires at this many losing settlements in a row; 0 = off", minimum: 0 },
+      friction_delay_sec: num("Countdown before a HARD_WARN or RED_ALERT can be committed", 0),
+      justification_min_chars: { type: "integer", description: "Minimum typed justification for HARD_WARN / RED_ALERT", minimum: 0 },
+      cooldown_minutes: num("Length of the first cooldown", 0),
+      cooldown_escalation: num("Multiplier applied per repeat trigger inside the repeat window", 1),
+      cooldown_repeat_window_days: num("Triggers closer together than this escalate", 0),
+      cooldown_max_hours: num("Upper bound on a single cooldown", 0),
+      loosening_delay_hours: num("Delay before a rule change that loosens any limit takes effect", 0),
+      daily_loss_pct: num("Stop at this net loss settled in the day window, % of bankroll before it; 0 = off", 0),
+      weekly_loss_pct: num("Stop at this net loss settled in the week window, % of bankroll before it; 0 = off", 0),
+      max_drawdown_pct: num("RED_ALERT at this drawdown from peak bankroll, %; 0 = off", 0),
+      max_legs: { type: "integer", description: "Max legs in one multi-leg position", minimum: 1 },
+      max_combined_price: num("Max decimal price of a multi-leg position", 1),
+      timezone: { type: "string", description: "IANA timezone for day / week windows; empty = device timezone" },
+      day_rollover_hour: { type: "integer", description: "Hour (0-23) at which a new day starts", minimum: 0, maximum: 23 },
+      week_start_day: { type: "integer", description: "First day of the week, 0 = Sunday .. 6 = Saturday", minimum: 0, maximum: 6 },
+      window_mode: { type: "string", enum: ["calendar", "rolling"], description: "Calendar day / week, or trailing 24h / 7d" },
+      dimensions: { type: "array", items: ref("GroupDimension"), description: "Grouping dimensions beyond group1 / group2" },
+      cap_overrides: { type: "array", items: ref("CapOverride"), description: "Per-value concentration caps for any dimension" },
+      cap_measures: { type: "object", description: "Cap (daily, weekly or a dimension key) -> staked (default) / open" },
+      custom_rules: { type: "array", items: ref("CustomRule"), description: "Declarative rules evaluated alongside the built-ins" },
+      escalation: ref("EscalationPolicy")
+    },
+    description: "Fields after odds_gate are optional and fall back to defaults"
+  },
+  GroupDimension: {
+    type: "object",
+    required: ["key", "label", "window", "cap_pct"],
+    properties: {
+      key: { type: "string", minLength: 1, description: "Lowercase slug; positions carry their value in groups[key]" },
+      label: { type: "string" },
+      window: { type: "string", enum: ["day", "week", "rolling_7d"] },
+      cap_pct: num("Default cap per value, % of bankroll", 0)
+    }
+  },
+  CapOverride: {
+    type: "object",
+    required: ["dimension", "value", "cap_pct"],
+    properties: {
+      dimension: { type: "string", description: "Dimension key; group1 / group2 for the built-ins" },
+      value: { type: "string" },
+      cap_pct: num("Cap for this value, % of bankroll", 0)
+    }
+  },
+  RulePredicate: {
+    type: "object",
+    required: ["field", "op", "value"],
+    properties: {
+      field: { type: "string", description: "stake, odds, price, legs, group1_id, group2_id, outcome, verdict or groups.<dimension key>" },
+      op: { type: "string", enum: ["==", "!=", ">", ">=", "<", "<=", "in"] },
+      value: { description: "Number or string; an array for \"in\"" }
+    },
+    additionalProperties: false
+  },
+  RuleMeasure: {
+    type: "object",
+    required: ["agg"],
+    properties: {
+      agg: { type: "string", enum: ["count", "sum_stake", "stake"], description: "count / sum_stake over the window including the bet, or the bet's stake" },
+      window: { type: "string", enum: ["day", "week", "rolling_7d"] },
+      where: { type: "array", items: ref("RulePredicate"), description: "Ledger entries (and the bet) that count" },
+      match: { type: "array", items: { type: "string" }, description: "Fields whose value must equal the bet's" }
+    },
+    additionalProperties: false
+  },
+  CustomRule: {
+    type: "object",
+    required: ["code", "severity", "measure", "threshold"],
+    properties: {
+      code: { type: "string", minLength: 1, description: "Reason code reported when the rule fires (UPPER_SNAKE_CASE)" },
+      severity: { type: "string", enum: ["violation", "gate", "flag"] },
+      when: { type: "array", items: ref("RulePredicate"), description: "Rule applies only to bets matching all of these" },
+      measure: ref("RuleMeasure"),
+      threshold: num("Fires when the measure exceeds this (strict >)"),
+      unit: { type: "string", enum: ["abs", "pct_bankroll"] },
+      description: { type: "string" }
+    },
+    additionalProperties: false
+  },
+  PolicyCondition: {
+    type: "object",
+    properties: {
+      reasons: { type: "array", items: { type: "string" }, description: "Any of these reason codes present" },
+      min_violations: { type: "integer", minimum: 0 },
+      min_gates: { type: "integer", minimum: 0 },
+      min_flags: { type: "integer", minimum: 0 },
+      spike: { type: "boolean", description: "Stake velocity / frequency spike or a tilt flag (true) / none (false)" },
+      min_consecutive_overrides: { type: "integer", minimum: 0 },
+      min_cooldown_violations: { type: "integer", minimum: 0 }
+    },
+    additionalProperties: false,
+    description: "Every field given must hold"
+  },
+  PolicyTier: {
+    type: "object",
+    required: ["verdict"],
+    properties: {
+      verdict: ref("Verdict"),
+      min_violations: { type: "integer", minimum: 1 },
+      min_gates: { type: "integer", minimum: 1 },
+      min_flags: { type: "integer", minimum: 1 }
+    },
+    additionalProperties: false,
+    description: "Reached when any of its minimums is met; the highest tier reached is the base verdict"
+  },
+  EscalationStep: {
+    type: "object",
+    required: ["id", "label", "when", "action"],
+    properties: {
+      id: { type: "string", minLength: 1 },
+      label: { type: "string" },
+      when: ref("PolicyCondition"),
+      action: { type: "string", enum: ["set", "escalate", "at_least"] },
+      verdict: ref("Verdict")
+    },
+    additionalProperties: false
+  },
+  EscalationPolicy: {
+    type: "object",
+    required: ["severities", "base", "escalations"],
+    properties: {
+      severities: { type: "object", description: "Reason code -> violation / gate / flag, overriding its default severity" },
+      base: { type: "array", items: ref("PolicyTier") },
+      escalations: { type: "array", items: ref("EscalationStep"), description: "Applied in order after the base tier" }
+    },
+    additionalProperties: false
+  },
+  Leg: {
+    type: "object",
+    required: ["odds", "group1_id", "group2_id"],
+    properties: {
+      odds: num("American odds (equivalent, when entered in another format)"),
+      price: num("Normalized decimal price"),
+      odds_format: ref("OddsFormat"),
+      odds_input: { type: "string", description: "Odds exactly as entered" },
+      group1_id: { type: "string" },
+      group2_id: { type: "string" },
+      groups: { type: "object", description: "Values for user-defined dimensions, keyed by dimension key" }
+    }
+  },
+  ProposedBet: {
+    type: "object",
+    required: ["stake", "odds", "group1_id", "group2_id"],
+    properties: {
+      stake: num("Stake in bankroll currency", 0),
+      odds: num("American odds; non-integer or zero values trip the odds gate"),
+      price: num("Normalized decimal price; takes precedence over odds when present"),
+      group1_id: { type: "string", description: "event/asset/policy/property/deal" },
+      group2_id: { type: "string", description: "team/sector/risk class/market/industry" },
+      groups: { type: "object", description: "Values for user-defined dimensions, keyed by dimension key" },
+      legs: { type: "array", items: ref("Leg"), description: "Multi-leg position; price is the product of leg prices" }
+    }
+  },
+  Exposures: {
+    type: "object",
+    required: ["daily_staked", "weekly_staked", "same_group1_staked", "same_group2_7d_staked", "bets_today"],
+    properties: {
+      daily_staked: num("Staked in the current day window (rules time model)", 0),
+      weekly_staked: num("Staked in the current week window (rules time model)", 0),
+      same_group1_staked: num("Staked in the day window on the proposed group1_id (most exposed, for multi-leg)", 0),
+      same_group2_7d_staked: num("Staked over rolling 7d on the proposed group2_id (most exposed, for multi-leg)", 0),
+      bets_today: { type: "integer", minimum: 0 },
+      by_dimension: { type: "object", description: "Dimension key -> value -> staked in that dimension's window" },
+      custom: { type: "object", description: "Custom rule code -> ledger aggregate, excluding the proposed bet" },
+      daily_loss: num("Net realized loss settled in the day window", 0),
+      weekly_loss: num("Net realized loss settled in the week window", 0),
+      drawdown: num("Realized P&L below its running peak", 0),
+      open_daily: num("Stake still open in positions opened in the day window", 0),
+      open_weekly: num("Stake still open in positions opened in the week window", 0),
+      open_by_dimension: { type: "object", description: "Dimension key -> value -> stake still open in that dimension's window" },
+      open_total: num("Stake still open across every position", 0)
+    }
+  },
+  BehavioralState: {
+    type: "object",
+    required: ["stake_velocity_spike", "frequency_spike", "consecutive_overrides", "cooldown_violations", "cooldown_active"],
+    properties: {
+      stake_velocity_spike: { type: "boolean" },
+      frequency_spike: { type: "boolean" },
+      consecutive_overrides: { type: "integer", minimum: 0 },
+      cooldown_violations: { type: "integer", minimum: 0 },
+      cooldown_active: { type: "boolean" },
+      loss_chasing: { type: "boolean" },
+      revenge_betting: { type: "boolean" },
+      loss_streak: { type: "integer", minimum: 0 }
+    }
+  },
+  DecisionResult: {
+    type: "object",
+    required: ["verdict", "reasons", "friction_required", "cooldown_triggered"],
+    properties: {
+      verdict: ref("Verdict"),
+      reasons: { type: "array", items: { type: "string" }, description: "Reason codes in canonical order" },
+      friction_required: { type: "boolean" },
+      cooldown_triggered: { type: "boolean" },
+      trace: ref("DecisionTrace")
+    }
+  },
+  RuleCheck: {
+    type: "object",
+    required: ["code", "label", "unit", "passed", "contributes"],
+    properties: {
+      code: { type: "string", description: "Reason code reported when the check fails" },
+      label: { type: "string" },
+      unit: { type: "string", enum: ["money", "count", "price", "flag"] },
+      cap: num("Threshold; measured checks fail above it"),
+      cap_pct: num("Cap as % of bankroll, when defined that way"),
+      current: num("Before the bet; absent for per-bet measures"),
+      projected: num("With the bet"),
+      headroom: num("cap - projected; negative = over"),
+      note: { type: "string" },
+      passed: { type: "boolean" },
+      contributes: { description: "violation / gate / flag the failure counts as; null if passed or under a hard stop" }
+    }
+  },
+  AppliedStep: {
+    type: "object",
+    required: ["id", "label", "from", "to"],
+    properties: {
+      id: { type: "string" },
+      label: { type: "string" },
+      from: ref("Verdict"),
+      to: ref("Verdict")
+    }
+  },
+  DecisionTrace: {
+    type: "object",
+    required: ["checks", "base", "amplifications", "decided_by", "decided_by_label"],
+    properties: {
+      checks: { type: "array", items: ref("RuleCheck"), description: "Every rule evaluated, in evaluation order" },
+      base: ref("Verdict"),
+      amplifications: { type: "array", items: ref("AppliedStep"), description: "Escalations that fired, in order" },
+      decided_by: { type: "string", description: "\"base\", an escalation id, \"cooldown_active\" or \"umbrella_cap\"" },
+      decided_by_label: { type: "string" }
+    }
+  },
+  OverrideRecord: {
+    type: "object",
+    required: ["tier", "justification"],
+    properties: {
+      tier: ref("Verdict"),
+      justification: { type: "string", description: "Empty for a WARN acknowledgment" }
+    }
+  },
+  PartialClose: {
+    type: "object",
+    required: ["closed_at", "stake", "amount"],
+    properties: {
+      closed_at: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      stake: num("Portion of the stake closed", 0),
+      amount: num("Returned for that portion", 0)
+    }
+  },
+  Settlement: {
+    type: "object",
+    required: ["outcome", "settled_at"],
+    properties: {
+      outcome: { type: "string", enum: ["won", "lost", "push", "void", "cashed_out"] },
+      settled_at: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      amount: num("Total returned; required for cashed_out", 0)
+    }
+  },
+  LedgerEntry: {
+    type: "object",
+    required: ["id", "ts", "stake", "odds", "group1_id", "group2_id", "verdict", "reasons"],
+    properties: {
+      id: { type: "string", minLength: 1 },
+      ts: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      stake: num("Stake in bankroll currency", 0),
+      odds: num("American odds (equivalent, when entered in another format)"),
+      price: num("Normalized decimal price"),
+      odds_format: ref("OddsFormat"),
+      odds_input: { type: "string", description: "Odds exactly as entered" },
+      group1_id: { type: "string" },
+      group2_id: { type: "string" },
+      verdict: ref("Verdict"),
+      reasons: { type: "array", items: { type: "string" } },
+      override: ref("OverrideRecord"),
+      legs: { type: "array", items: ref("Leg") },
+      groups: { type: "object" },
+      closes: { type: "array", items: ref("PartialClose"), description: "Partial closes, oldest first" },
+      settlement: ref("Settlement"),
+      rules_version: { type: "integer", description: "Rules snapshot the entry was evaluated under", minimum: 1 }
+    }
+  },
+
+  CooldownState: {
+    type: "object",
+    required: ["started_at", "until", "trigger_count", "violations"],
+    properties: {
+      started_at: { type: "integer", description: "Epoch milliseconds; 0 when never triggered", minimum: 0 },
+      until: { type: "integer", description: "Epoch milliseconds the cooldown ends", minimum: 0 },
+      trigger_count: { type: "integer", description: "Consecutive triggers inside the repeat window", minimum: 0 },
+      violations: { type: "array", items: { type: "integer", minimum: 0 }, description: "Blocked commit attempts (epoch ms)" }
+    }
+  },
+  CapitalState: {
+    type: "object",
+    required: ["starting_capital", "carried_pnl"],
+    properties: {
+      starting_capital: num("Bankroll before any realized P&L", 0),
+      carried_pnl: num("Realized P&L of entries no longer in the ledger"),
+      carried_peak: num("Highest realized P&L reached when they left; max(0, carried_pnl) when absent"),
+      carried_events: { type: "array", items: ref("PnlEvent"), description: "Their P&L events still inside a loss window then, oldest first" }
+    }
+  },
+  PnlEvent: {
+    type: "object",
+    required: ["at", "pnl"],
+    properties: {
+      at: { type: "integer", description: "Epoch milliseconds the P&L was realized", minimum: 0 },
+      pnl: num("Realized P&L")
+    }
+  },
+  Profile: {
+    type: "object",
+    required: ["id", "name"],
+    properties: {
+      id: { type: "string", minLength: 1 },
+      name: { type: "string", minLength: 1 }
+    }
+  },
+  ProfilesState: {
+    type: "object",
+    required: ["profiles", "active", "umbrella_weekly_cap"],
+    additionalProperties: false,
+    properties: {
+      profiles: { type: "array", items: ref("Profile") },
+      active: { type: "string", description: "Id of the selected profile" },
+      umbrella_weekly_cap: num("Max combined ISO-week stake across all profiles, in currency; 0 = off", 0),
+      umbrella_pending: {
+        type: "object",
+        description: "A loosening of the umbrella cap waiting out the active profile's loosening_delay_hours",
+        required: ["cap", "effective_at"],
+        properties: {
+          cap: num("Cap once in force; 0 = off", 0),
+          effective_at: { type: "integer", description: "Epoch milliseconds it takes effect", minimum: 0 }
+        }
+      }
+    }
+  },
+  RulesVersion: {
+    type: "object",
+    required: ["version", "rules", "created_at", "effective_at"],
+    properties: {
+      version: { type: "integer", minimum: 1 },
+      rules: ref("UserRules"),
+      created_at: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      effective_at: { type: "integer", description: "Epoch milliseconds; later than created_at when the change loosens a limit", minimum: 0 },
+      superseded_at: { type: "integer", description: "Set when a pending snapshot was replaced before taking effect", minimum: 0 }
+    }
+  },
+  RulesHistory: {
+    type: "object",
+    required: ["versions"],
+    properties: { versions: { type: "array", items: ref("RulesVersion"), description: "Oldest first" } }
+  },
+  Ledger: { type: "array", items: ref("LedgerEntry"), description: "Newest first" },
+  LedgerPatch: {
+    type: "object",
+    required: ["put", "remove"],
+    additionalProperties: false,
+    description: "One incremental ledger save",
+    properties: {
+      put: { type: "array", items: ref("LedgerEntry"), description: "New or replaced entries, newest first" },
+      remove: { type: "array", items: { type: "string" }, description: "Ids of entries taken out" }
+    }
+  },
+  LedgerTombstone: {
+    type: "object",
+    required: ["at", "by", "why", "action", "before"],
+    properties: {
+      at: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      by: { type: "string", description: "Who made the change" },
+      why: { type: "string", minLength: 1 },
+      action: { type: "string", enum: ["correct", "delete", "undo"] },
+      before: ref("LedgerEntry"),
+      after: ref("LedgerEntry")
+    }
+  },
+  LedgerArchive: {
+    type: "object",
+    required: ["at", "by", "why", "reason", "entries"],
+    properties: {
+      at: { type: "integer", description: "Epoch milliseconds", minimum: 0 },
+      by: { type: "string", description: "Who made the change" },
+      why: { type: "string", minLength: 1 },
+      reason: { type: "string", enum: ["reset", "trim"] },
+      entries: ref("Ledger")
+    }
+  },
+  LedgerAudit: {
+    type: "object",
+    required: ["tombstones", "archives"],
+    description: "Append-only trail of corrections, deletions and archived entries",
+    properties: {
+      tombstones: { type: "array", items: ref("LedgerTombstone"), description: "Oldest first" },
+      archives: { type: "array", items: ref("LedgerArchive"), description: "Oldest first" }
+    }
+  },
+
+  // Request / response envelopes
+  EvaluateRequest: {
+    type: "object",
+    required: ["bankroll", "bet"],
+    additionalProperties: false,
+    properties: {
+      bankroll: num("Capital the percentage caps are measured against", 0),
+      rules: { ...ref("UserRules"), description: "Optional; defaults to the profile's rules in force and may only tighten them" },
+      bet: ref("ProposedBet"),
+      beh: { ...ref("BehavioralState"), description: "Debug override; derived from the server ledger when omitted. cooldown_active always comes from the stored cooldown" }
+    }
+  },
+  EvaluateResponse: {
+    type: "object",
+    required: ["verdict", "reasons", "friction_required", "cooldown_triggered", "trace", "exposures"],
+    properties: {
+      verdict: ref("Verdict"),
+      reasons: { type: "array", items: { type: "string" } },
+      friction_required: { type: "boolean" },
+      cooldown_triggered: { type: "boolean" },
+      trace: ref("DecisionTrace"),
+      exposures: ref("Exposures")
+    }
+  },
+  LedgerCommit: {
+    type: "object",
+    required: ["stake", "odds", "group1_id", "group2_id", "verdict", "reasons"],
+    additionalProperties: false,
+    description: "A new LedgerEntry: the server assigns id and ts; results are recorded through settle and close",
+    properties: {
+      stake: num("Stake in bankroll currency", 0),
+      odds: num("American odds (equivalent, when entered in another format)"),
+      price: num("Normalized decimal price"),
+      odds_format: ref("OddsFormat"),
+      odds_input: { type: "string", description: "Odds exactly as entered" },
+      group1_id: { type: "string" },
+      group2_id: { type: "string" },
+      verdict: ref("Verdict"),
+      reasons: { type: "array", items: { type: "string" } },
+      override: ref("OverrideRecord"),
+      legs: { type: "array", items: ref("Leg") },
+      groups: { type: "object" },
+      rules_version: { type: "integer", description: "Rules snapshot the entry was evaluated under", minimum: 1 }
+    }
+  },
+  SettleRequest: {
+    type: "object",
+    required: ["id", "outcome"],
+    additionalProperties: false,
+    properties: {
+      id: { type: "string", minLength: 1 },
+      outcome: { type: "string", enum: ["won", "lost", "push", "void", "cashed_out"] },
+      amount: num("Total returned; required for cashed_out", 0)
+    }
+  },
+  CloseRequest: {
+    type: "object",
+    required: ["id", "stake", "amount"],
+    additionalProperties: false,
+    properties: {
+      id: { type: "string", minLength: 1 },
+      stake: num("Portion of the open stake to close", 0),
+      amount: num("Returned for that portion", 0)
+    }
+  },
+  StoreMigration: {
+    type: "object",
+    additionalProperties: false,
+    description: "Browser-local state pulled into the server store once per browser",
+    properties: {
+      ledger: ref("Ledger"),
+      rules: { type: "object", description: "Partial UserRules; missing fields take defaults" },
+      rules_history: ref("RulesHistory"),
+      cooldown: ref("CooldownState"),
+      capital: ref("CapitalState"),
+      audit: ref("LedgerAudit")
+    }
+  },
+  StoreMigrationResult: {
+    type: "object",
+    required: ["ledger_added", "imported"],
+    properties: {
+      ledger_added: { type: "integer", minimum: 0 },
+      imported: { type: "array", items: { type: "string" }, description: "Non-ledger keys taken from the browser" }
+    }
+  },
+  ValidationIssue: {
+    type: "object",
+    required: ["path", "message"],
+    properties: {
+      path: { type: "string", description: "Dotted path to the offending value; empty for the body itself" },
+      message: { type: "string" }
+    }
+  },
+  ErrorResponse: {
+    type: "object",
+    required: ["error", "issues"],
+    properties: {
+      error: { type: "string", enum: ["INVALID_JSON", "VALIDATION_FAILED", "NOT_FOUND", "COOLDOWN_ACTIVE"] },
+      issues: { type: "array", items: ref("ValidationIssue") }
+    }
+  }
+};
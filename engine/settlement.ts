@@ -0,0 +1,168 @@
+import { betPrice, isValidAmericanOdds, isValidPrice } from "./odds";
+import type { TimeWindows } from "./clock";
+import { closedStake, hasRealized } from "./positions";
+import type { Exposures, LedgerEntry, Outcome, Settlement, UserRules } from "./types";
+import type { ValidationIssue } from "./validate";
+
+/** ---------- Settlement / realized P&L ---------- */
+export const OUTCOMES: readonly Outcome[] = ["won", "lost", "push", "void", "cashed_out"];
+
+/** Profit (excluding returned stake) on a winning American-odds bet. */
+export function americanProfit(stake: number, odds: number): number {
+  if (!isValidAmericanOdds(odds)) return 0;
+  return odds > 0 ? stake * (odds / 100) : stake * (100 / Math.abs(odds));
+}
+
+/** Profit (excluding returned stake) on a winning bet at a decimal price. */
+export function priceProfit(stake: number, price: number): number {
+  return isValidPrice(price) ? stake * (price - 1) : 0;
+}
+
+// P&L of settling the stake still open
+function settlementPnl(e: LedgerEntry, s: Settlement): number {
+  const rest = e.stake - closedStake(e);
+  switch (s.outcome) {
+    case "won":
+      return priceProfit(rest, betPrice(e));
+    case "lost":
+      return -rest;
+    case "push":
+    case "void":
+      return 0;
+    case "cashed_out":
+      return (s.amount ?? 0) - rest;
+  }
+}
+
+/** P&L realized at one time: a partial close or a settlement. */
+export type PnlEvent = { at: number; pnl: number };
+
+/** When one entry's P&L was realized: each partial close, then the settlement. */
+export function pnlEvents(e: LedgerEntry): PnlEvent[] {
+  const events = (e.closes ?? []).map((c) => ({ at: c.closed_at, pnl: c.amount - c.stake }));
+  if (e.settlement) events.push({ at: e.settlement.settled_at, pnl: settlementPnl(e, e.settlement) });
+  return events;
+}
+
+/** Realized P&L of one entry; open entries contribute 0. */
+export function entryPnl(e: LedgerEntry): number {
+  let pnl = 0;
+  for (const x of pnlEvents(e)) pnl += x.pnl;
+  return pnl;
+}
+
+export function realizedPnl(ledger: LedgerEntry[]): number {
+  let pnl = 0;
+  for (const e of ledger) pnl += entryPnl(e);
+  return pnl;
+}
+
+/** Bankroll the caps are measured against: starting capital plus realized P&L. */
+export function deriveBankroll(starting_capital: number, ledger: LedgerEntry[], carried_pnl = 0): number {
+  return starting_capital + carried_pnl + realizedPnl(ledger);
+}
+
+export type RealizedLosses = Required<Pick<Exposures, "daily_loss" | "weekly_loss" | "drawdown">>;
+
+/** What the loss limits need of entries no longer in the ledger (see CapitalState). */
+export type CarriedPnl = Pick<CapitalState, "carried_pnl" | "carried_peak" | "carried_events">;
+
+export const NO_CARRY: CarriedPnl = { carried_pnl: 0 };
+
+/**
+ * Realized P&L events in time order, carried ones included, with the running P&L and peak they
+ * start from: the carried P&L less its still-windowed events, and the carried peak.
+ */
+export function pnlSeries(ledger: LedgerEntry[], carried: CarriedPnl = NO_CARRY): { start: number; peak: number; events: PnlEvent[] } {
+  const recent = carried.carried_events ?? [];
+  let start = carried.carried_pnl;
+  for (const x of recent) start -= x.pnl;
+  const events = [...recent, ...ledger.flatMap(pnlEvents)].sort((a, b) => a.at - b.at);
+  return { start, peak: Math.max(carried.carried_peak ?? 0, carried.carried_pnl, start), events };
+}
+
+/**
+ * Net loss realized in the day and week windows and the drawdown of realized P&L from its
+ * running peak, counting settlements and partial closes made by `asOf`. Entries trimmed or
+ * reset away still count through `carried`, so a reset clears neither.
+ */
+export function realizedLosses(ledger: LedgerEntry[], w: TimeWindows, asOf: number, carried: CarriedPnl = NO_CARRY): RealizedLosses {
+  const series = pnlSeries(ledger, carried);
+  let day = 0, week = 0, cum = series.start, peak = series.peak;
+  for (const { at, pnl } of series.events) {
+    if (at > asOf) break;
+    if (at >= w.day_start) day += pnl;
+    if (at >= w.week_start) week += pnl;
+    cum += pnl;
+    peak = Math.max(peak, cum);
+  }
+  return { daily_loss: Math.max(0, -day), weekly_loss: Math.max(0, -week), drawdown: peak - cum };
+}
+
+/** The drawdown is at max_drawdown_pct of the bankroll before it (0 = off), as evaluate_v1 trips it. */
+export function drawdownReached(rules: Pick<UserRules, "max_drawdown_pct">, bankroll: number, drawdown: number): boolean {
+  return rules.max_drawdown_pct > 0 && drawdown >= (bankroll + drawdown) * (rules.max_drawdown_pct / 100);
+}
+
+export function settle(e: LedgerEntry, outcome: Outcome, settled_at: number, amount?: number): LedgerEntry {
+  if (e.settlement) throw new Error(`${e.id} is already settled`);
+  if (outcome === "cashed_out" && !(Number.isFinite(amount) && (amount as number) >= 0)) {
+    throw new Error("cashed_out requires a non-negative amount");
+  }
+  const settlement: Settlement = outcome === "cashed_out" ? { outcome, settled_at, amount } : { outcome, settled_at };
+  return { ...e, settlement };
+}
+
+/** ---------- Capital ---------- */
+export type CapitalState = {
+  starting_capital: number;
+  carried_pnl: number;         // realized P&L of entries no longer in the ledger (trimmed or reset)
+  carried_peak?: number;       // highest realized P&L reached when they left (absent = max(0, carried_pnl))
+  carried_events?: PnlEvent[]; // their P&L events still inside a loss window then, oldest first
+};
+
+export const DEFAULT_CAPITAL: CapitalState = { starting_capital: 1000, carried_pnl: 0 };
+
+/** Starting capital is only editable until the first realized result. */
+export function capitalLocked(capital: CapitalState, ledger: LedgerEntry[]): boolean {
+  return capital.carried_pnl !== 0 || ledger.some(hasRealized);
+}
+
+// Longest loss window (a calendar or rolling week) with a day of slack for rollover hours
+const CARRY_WINDOW_MS = 8 * 24 * 60 * 60 * 1000;
+
+/**
+ * Capital once `dropped` leaves `ledger`: their realized P&L is carried so the bankroll never
+ * moves, with the peak reached so far and the events recent enough at `now` to count in a loss
+ * window, so it clears neither loss limits nor drawdown. Unchanged when nothing was realized.
+ */
+export function carryDropped(ledger: LedgerEntry[], dropped: LedgerEntry[], capital: CapitalState, now: number): CapitalState {
+  if (!dropped.some(hasRealized)) return capital;
+  const series = pnlSeries(ledger, capital);
+  let cum = series.start, carried_peak = series.peak;
+  for (const x of series.events) carried_peak = Math.max(carried_peak, (cum += x.pnl));
+  const carried_events = [...(capital.carried_events ?? []), ...dropped.flatMap(pnlEvents)]
+    .filter((x) => x.at >= now - CARRY_WINDOW_MS)
+    .sort((a, b) => a.at - b.at);
+  return { ...capital, carried_pnl: capital.carried_pnl + realizedPnl(dropped), carried_peak, carried_events };
+}
+
+/** Drop everything past `max` entries (newest first), carrying their realized P&L as of `now`. */
+export function trimLedger(ledger: LedgerEntry[], max: number, capital: CapitalState, now: number = Date.now()): { ledger: LedgerEntry[]; capital: CapitalState } {
+  if (ledger.length <= max) return { ledger, capital };
+  return { ledger: ledger.slice(0, max), capital: carryDropped(ledger, ledger.slice(max), capital, now) };
+}
+
+/**
+ * A stored capital write may not touch what is carried (only a reset or trim carries P&L) nor,
+ * once locked, the starting capital.
+ */
+export function capitalTransitionIssues(prev: CapitalState, next: CapitalState, ledger: LedgerEntry[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const carried = (c: CapitalState) => JSON.stringify([c.carried_pnl, c.carried_peak, c.carried_events]);
+  if (carried(next) !== carried(prev)) issues.push({ path: "carried_pnl", message: "only changes when a reset or trim carries realized P&L" });
+  if (next.starting_capital !== prev.starting_capital && capitalLocked(prev, ledger)) {
+    issues.push({ path: "starting_capital", message: "is locked once a result is realized" });
+  }
+  return issues;
+}
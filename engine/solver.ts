@@ -0,0 +1,64 @@
+import { rank } from "./tiers";
+import type { DecisionResult, RuleCheck, Verdict } from "./types";
+
+/** ---------- Max-allowable-stake solver ---------- */
+export type StakeLimit = {
+  tier: Verdict;
+  max_stake: number | null; // largest stake (to the cent) whose verdict is at most `tier`; null = not even 0; Infinity = unbounded
+  binding: RuleCheck[];     // checks that start failing one cent above max_stake
+};
+
+export const SOLVED_TIERS: readonly Verdict[] = ["ALLOW", "WARN", "HARD_WARN"];
+
+const CENT = 0.01;
+const MAX_STAKE = 1e12;
+const toCents = (x: number) => Math.floor(x * 100 + 1e-6) / 100;
+
+/**
+ * Inverse of the engine: the largest stake that keeps each tier, given the rest of the bet
+ * context. `decide` runs the whole pipeline at a stake (evaluation plus anything applied after
+ * it, e.g. the umbrella cap). Verdicts are assumed never to fall as the stake rises.
+ */
+export function solveMaxStake(decide: (stake: number) => DecisionResult): StakeLimit[] {
+  const memo = new Map<number, DecisionResult>();
+  const at = (stake: number) => {
+    const s = toCents(stake);
+    if (!memo.has(s)) memo.set(s, decide(s));
+    return memo.get(s) as DecisionResult;
+  };
+
+  // Money caps only change outcome where the stake uses up their headroom at 0
+  const zero = at(0);
+  const breakpoints = (zero.trace?.checks ?? [])
+    .filter((c) => c.unit === "money" && c.cap !== undefined && c.projected !== undefined)
+    .map((c) => toCents((c.cap as number) - (c.projected as number)))
+    .filter((b) => b > 0 && b < MAX_STAKE);
+  const candidates = [...new Set(breakpoints)].sort((a, b) => a - b);
+
+  return SOLVED_TIERS.map((tier) => {
+    const ok = (stake: number) => rank(at(stake).verdict) <= rank(tier);
+    if (!ok(0)) return { tier, max_stake: null, binding: [] };
+
+    let lo = 0;
+    let hi: number | undefined;
+    for (const b of [...candidates, MAX_STAKE]) {
+      if (!ok(b)) {
+        hi = b;
+        break;
+      }
+      lo = b;
+    }
+    if (hi === undefined) return { tier, max_stake: Infinity, binding: [] };
+
+    // Anything else that moves with the stake (e.g. a stake spike) changes between breakpoints
+    while (hi - lo > CENT * 1.5) {
+      const mid = toCents((lo + hi) / 2);
+      if (ok(mid)) lo = mid;
+      else hi = mid;
+    }
+    const passing = new Set((at(lo).trace?.checks ?? []).filter((c) => c.passed).map((c) => c.code));
+    const known = new Set((at(lo).trace?.checks ?? []).map((c) => c.code));
+    const binding = (at(hi).trace?.checks ?? []).filter((c) => !c.passed && (passing.has(c.code) || !known.has(c.code)));
+    return { tier, max_stake: lo, binding };
+  });
+}
@@ -0,0 +1,14 @@
+import type { Verdict } from "./types";
+
+/** ---------- Verdict tiers ---------- */
+export const TIERS: readonly Verdict[] = ["ALLOW", "WARN", "HARD_WARN", "RED_ALERT"];
+
+export function rank(v: Verdict): number {
+  return v === "ALLOW" ? 0 : v === "WARN" ? 1 : v === "HARD_WARN" ? 2 : 3;
+}
+export function maxTier(a: Verdict, b: Verdict): Verdict {
+  return rank(a) >= rank(b) ? a : b;
+}
+export function escalateOneTier(v: Verdict): Verdict {
+  return v === "ALLOW" ? "WARN" : v === "WARN" ? "HARD_WARN" : "RED_ALERT";
+}
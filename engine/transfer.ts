@@ -0,0 +1,250 @@
+import { parseCsv, toCsv } from "./csv";
+import { DEFAULT_RULES, rulesIssues } from "./rules";
+import type { LedgerEntry, UserRules } from "./types";
+import { validate } from "./validate";
+
+/** ---------- Ledger / rules export & import (versioned) ---------- */
+export const EXPORT_VERSION = 1;
+const LEDGER_TAG = "risk-redux-ledger";
+const RULES_TAG = "risk-redux-rules";
+
+export type LedgerExport = {
+  format: typeof LEDGER_TAG;
+  version: number;
+  exported_at: number;
+  rules: UserRules;
+  entries: LedgerEntry[];
+};
+
+export type ImportIssue = { row: number; path: string; message: string }; // row 0 = file level
+
+export type ParsedImport = {
+  entries: LedgerEntry[];
+  rules?: UserRules;
+  issues: ImportIssue[];  // rows with issues are left out of `entries`
+};
+
+export function exportJson(ledger: LedgerEntry[], rules: UserRules, now: number): string {
+  const doc: LedgerExport = { format: LEDGER_TAG, version: EXPORT_VERSION, exported_at: now, rules, entries: ledger };
+  return JSON.stringify(doc, null, 2);
+}
+
+// Flat CSV columns; nested records are spread over prefixed columns.
+const COLUMNS = [
+  "id", "ts", "stake", "odds", "price", "odds_format", "odds_input", "group1_id", "group2_id", "verdict", "reasons",
+  "override_tier", "override_justification", "settlement_outcome", "settlement_settled_at", "settlement_amount",
+  "rules_version", "legs", "groups", "closes"
+] as const;
+type Column = (typeof COLUMNS)[number];
+
+function versionLine(tag: string): string[] {
+  return [`# ${tag}`, `v${EXPORT_VERSION}`];
+}
+
+export function exportLedgerCsv(ledger: LedgerEntry[]): string {
+  const str = (v: unknown) => (v === undefined || v === null ? "" : String(v));
+  const rows = ledger.map((e) => {
+    const cols: Record<Column, string> = {
+      id: e.id,
+      ts: str(e.ts),
+      stake: str(e.stake),
+      odds: str(e.odds),
+      price: str(e.price),
+      odds_format: str(e.odds_format),
+      odds_input: str(e.odds_input),
+      group1_id: e.group1_id,
+      group2_id: e.group2_id,
+      verdict: e.verdict,
+      reasons: e.reasons.join("|"),
+      override_tier: str(e.override?.tier),
+      override_justification: str(e.override?.justification),
+      settlement_outcome: str(e.settlement?.outcome),
+      settlement_settled_at: str(e.settlement?.settled_at),
+      settlement_amount: str(e.settlement?.amount),
+      rules_version: str(e.rules_version),
+      legs: e.legs ? JSON.stringify(e.legs) : "",
+      groups: e.groups ? JSON.stringify(e.groups) : "",
+      closes: e.closes ? JSON.stringify(e.closes) : ""
+    };
+    return COLUMNS.map((c) => cols[c]);
+  });
+  return toCsv([versionLine(LEDGER_TAG), [...COLUMNS], ...rows]);
+}
+
+export function exportRulesCsv(rules: UserRules): string {
+  return toCsv([versionLine(RULES_TAG), ["key", "value"], ...Object.entries(rules).map(([k, v]) => [k, typeof v === "object" ? JSON.stringify(v) : String(v)])]);
+}
+
+// Structured cells hold JSON; unparseable text is kept so validation reports it
+function jsonCell(v: string): unknown {
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}
+
+function ruleCell(key: string, v: string): unknown {
+  const kind = typeof DEFAULT_RULES[key as keyof UserRules];
+  return kind === "string" ? v : kind === "object" ? jsonCell(v) : Number(v);
+}
+
+function rowToEntry(r: Record<string, string>): Record<string, unknown> {
+  const num = (v: string) => (v === "" ? undefined : Number(v));
+  const opt = (v: string) => (v === "" ? undefined : v);
+  const e: Record<string, unknown> = {
+    id: r.id,
+    ts: num(r.ts),
+    stake: num(r.stake),
+    odds: num(r.odds),
+    price: num(r.price),
+    odds_format: opt(r.odds_format),
+    odds_input: opt(r.odds_input),
+    group1_id: r.group1_id,
+    group2_id: r.group2_id,
+    verdict: r.verdict,
+    reasons: r.reasons ? r.reasons.split("|") : [],
+    rules_version: num(r.rules_version ?? "")
+  };
+  if (r.legs) e.legs = jsonCell(r.legs);
+  if (r.groups) e.groups = jsonCell(r.groups);
+  if (r.closes) e.closes = jsonCell(r.closes);
+  if (r.override_tier) e.override = { tier: r.override_tier, justification: r.override_justification ?? "" };
+  if (r.settlement_outcome) {
+    e.settlement = { outcome: r.settlement_outcome, settled_at: num(r.settlement_settled_at), amount: num(r.settlement_amount) };
+  }
+  // Drop absent optionals so they don't read as explicit undefined
+  return JSON.parse(JSON.stringify(e));
+}
+
+function checkVersion(version: unknown, issues: ImportIssue[]): boolean {
+  if (version === EXPORT_VERSION) return true;
+  issues.push({ row: 0, path: "version", message: `unsupported export version ${String(version)} (expected ${EXPORT_VERSION})` });
+  return false;
+}
+
+function acceptEntries(rows: unknown[], issues: ImportIssue[]): LedgerEntry[] {
+  const out: LedgerEntry[] = [];
+  rows.forEach((row, i) => {
+    const rowIssues = validate("LedgerEntry", row);
+    if (rowIssues.length > 0) issues.push(...rowIssues.map((x) => ({ row: i + 1, ...x })));
+    else out.push(row as LedgerEntry);
+  });
+  return out;
+}
+
+function acceptRules(raw: unknown, issues: ImportIssue[]): UserRules | undefined {
+  const rules = { ...DEFAULT_RULES, ...(raw as object) };
+  const ruleIssues = validate("UserRules", rules);
+  if (ruleIssues.length === 0) ruleIssues.push(...rulesIssues(rules));
+  if (ruleIssues.length === 0) return rules;
+  issues.push(...ruleIssues.map((x) => ({ row: 0, path: `rules.${x.path}`, message: x.message })));
+  return undefined;
+}
+
+function parseJsonImport(text: string): ParsedImport {
+  const issues: ImportIssue[] = [];
+  let doc: Partial<LedgerExport>;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    return { entries: [], issues: [{ row: 0, path: "", message: (err as Error).message }] };
+  }
+  if (doc?.format !== LEDGER_TAG) return { entries: [], issues: [{ row: 0, path: "format", message: `not a ${LEDGER_TAG} export` }] };
+  if (!checkVersion(doc.version, issues)) return { entries: [], issues };
+  if (!Array.isArray(doc.entries)) return { entries: [], issues: [{ row: 0, path: "entries", message: "expected array" }] };
+
+  const entries = acceptEntries(doc.entries, issues);
+  const rules = doc.rules === undefined ? undefined : acceptRules(doc.rules, issues);
+  return { entries, rules, issues };
+}
+
+function parseCsvImport(text: string): ParsedImport {
+  const issues: ImportIssue[] = [];
+  const [meta, header, ...body] = parseCsv(text).filter((r) => r.some((c) => c !== ""));
+  const tag = meta?.[0]?.replace(/^#\s*/, "");
+  if (!checkVersion(Number(meta?.[1]?.replace(/^v/, "")), issues)) return { entries: [], issues };
+  if (!header) return { entries: [], issues: [{ row: 0, path: "", message: "missing header row" }] };
+
+  const records = body.map((r) => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ""])));
+  if (tag === RULES_TAG) {
+    const raw = Object.fromEntries(records.map((r) => [r.key, ruleCell(r.key, r.value)]));
+    return { entries: [], rules: acceptRules(raw, issues), issues };
+  }
+  if (tag !== LEDGER_TAG) return { entries: [], issues: [{ row: 0, path: "", message: "unrecognised CSV export" }] };
+  return { entries: acceptEntries(records.map(rowToEntry), issues), issues };
+}
+
+/** Parse a JSON or CSV export; every ledger row is validated against the LedgerEntry schema. */
+export function parseImport(text: string): ParsedImport {
+  return text.trimStart().startsWith("{") ? parseJsonImport(text) : parseCsvImport(text);
+}
+
+/** ---------- Merge (dedupe by id) ---------- */
+export type MergeConflict = { id: string; current: LedgerEntry; incoming: LedgerEntry; fields: string[] };
+
+export type MergePlan = {
+  added: LedgerEntry[];       // ids not in the current ledger
+  unchanged: string[];        // same id, identical content
+  conflicts: MergeConflict[]; // same id, different content
+};
+
+export type ConflictChoice = "current" | "incoming";
+
+function differingFields(a: LedgerEntry, b: LedgerEntry): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter((k) => JSON.stringify(a[k as keyof LedgerEntry]) !== JSON.stringify(b[k as keyof LedgerEntry])).sort();
+}
+
+export function planMerge(current: LedgerEntry[], incoming: LedgerEntry[]): MergePlan {
+  const byId = new Map(current.map((e) => [e.id, e]));
+  const seen = new Set<string>();
+  const plan: MergePlan = { added: [], unchanged: [], conflicts: [] };
+
+  for (const e of incoming) {
+    if (seen.has(e.id)) continue; // first occurrence in the file wins
+    seen.add(e.id);
+    const existing = byId.get(e.id);
+    if (!existing) plan.added.push(e);
+    else {
+      const fields = differingFields(existing, e);
+      if (fields.length === 0) plan.unchanged.push(e.id);
+      else plan.conflicts.push({ id: e.id, current: existing, incoming: e, fields });
+    }
+  }
+  return plan;
+}
+
+/** Apply a plan; conflicts keep the current entry unless `choices` says otherwise. Newest first. */
+export function applyMerge(current: LedgerEntry[], plan: MergePlan, choices: Record<string, ConflictChoice> = {}): LedgerEntry[] {
+  const replace = new Map(plan.conflicts.filter((c) => choices[c.id] === "incoming").map((c) => [c.id, c.incoming]));
+  const merged = [...current.map((e) => replace.get(e.id) ?? e), ...plan.added];
+  return merged.sort((a, b) => b.ts - a.ts);
+}
+
+/** ---------- Incremental ledger writes ---------- */
+/** What one save changes: entries to write (new or replaced) and ids to drop. */
+export type LedgerPatch = { put: LedgerEntry[]; remove: string[] };
+
+/** Entries of `next` that differ from `prev` by identity, plus the ids `next` no longer holds. */
+export function diffLedger(prev: LedgerEntry[], next: LedgerEntry[]): LedgerPatch {
+  const before = new Map(prev.map((e) => [e.id, e]));
+  const put: LedgerEntry[] = [];
+  for (const e of next) {
+    if (before.get(e.id) !== e) put.push(e);
+    before.delete(e.id);
+  }
+  return { put, remove: [...before.keys()] };
+}
+
+/** Replace entries by id and drop removed ones; new entries go in front, in patch order. */
+export function applyLedgerPatch(ledger: LedgerEntry[], patch: LedgerPatch): LedgerEntry[] {
+  const put = new Map(patch.put.map((e) => [e.id, e]));
+  const remove = new Set(patch.remove);
+  const kept = ledger.filter((e) => !remove.has(e.id)).map((e) => {
+    const next = put.get(e.id);
+    put.delete(e.id);
+    return next ?? e;
+  });
+  return [...put.values(), ...kept];
+}
@@ -0,0 +1,263 @@
+/** ---------- Types ---------- */
+export type OddsFormat = "american" | "decimal" | "fractional" | "hongkong";
+export type OddsGateMode = "american" | "implied_prob" | "decimal";
+export type WindowMode = "calendar" | "rolling";
+export type DimensionWindow = "day" | "week" | "rolling_7d";
+export type ExposureMeasure = "staked" | "open"; // cumulative stake in the window / stake still at risk
+export type PositionState = "open" | "partially_closed" | "closed";
+
+/** A user-defined grouping (league, sport, bookmaker…) with its own concentration cap. */
+export type GroupDimension = {
+  key: string;            // slug; positions carry their value in `groups[key]`
+  label: string;
+  window: DimensionWindow;
+  cap_pct: number;        // default cap per value, % of bankroll
+};
+
+/** Cap for one value of a dimension, e.g. group2 "TEAM-LAL" at 2%. */
+export type CapOverride = {
+  dimension: string;      // dimension key ("group1" / "group2" for the built-ins)
+  value: string;
+  cap_pct: number;
+};
+
+export type UserRules = {
+  unit_pct: number;      // default 2
+  daily_pct: number;     // default 6
+  weekly_pct: number;    // default 20
+  group1_pct: number;    // default 4
+  group2_pct: number;    // default 8 (rolling 7d)
+  freq_cap: number;      // default 5 bets/day
+  odds_gate: number;     // default +250
+  odds_gate_mode: OddsGateMode; // default "american" (odds_gate); or odds_gate_prob / odds_gate_price
+  odds_gate_prob: number;       // default 1/3.5 (gate at implied probability <=)
+  odds_gate_price: number;      // default 3.5 (gate at decimal price >=)
+
+  // Behavior analyzer thresholds
+  stake_spike_multiple: number;  // default 2 (x trailing median stake)
+  stake_spike_lookback: number;  // default 10 most recent bets
+  freq_spike_multiple: number;   // default 3 (x baseline bets/hour)
+  freq_spike_min_bets: number;   // default 3 bets in the last hour, incl. proposed
+  cooldown_history_days: number; // default 7
+  loss_chase_multiple: number;   // default 1.5 (stake above this x the stake just lost; 0 = off)
+  tilt_window_hours: number;     // default 24 (losses settled this recently count for chasing / revenge)
+  loss_streak_min: number;       // default 3 losing settlements in a row (0 = off)
+
+  // Friction
+  friction_delay_sec: number;       // default 10 (HARD_WARN / RED_ALERT countdown)
+  justification_min_chars: number;  // default 20
+
+  // Cooldown
+  cooldown_minutes: number;           // default 60 (first trigger)
+  cooldown_escalation: number;        // default 2 (x per repeat trigger)
+  cooldown_repeat_window_days: number; // default 7 (repeats inside this window escalate)
+  cooldown_max_hours: number;         // default 72
+  max_legs: number;                   // default 4 (legs per multi-leg position)
+  max_combined_price: number;         // default 20 (decimal price of a multi-leg position)
+  loosening_delay_hours: number;      // default 24 (rule changes that loosen wait this long)
+
+  // Loss limits on realized P&L, % of bankroll before the loss; 0 = off
+  daily_loss_pct: number;    // default 5 (net loss settled in the day window)
+  weekly_loss_pct: number;   // default 10 (net loss settled in the week window)
+  max_drawdown_pct: number;  // default 20 (below peak bankroll; forces RED_ALERT)
+
+  // Time model (day / week exposure windows)
+  timezone: string;          // default "" = device timezone; otherwise an IANA name
+  day_rollover_hour: number; // default 0 (days start at midnight; 5 = 05:00)
+  week_start_day: number;    // default 1 = Monday (0 = Sunday .. 6 = Saturday)
+  window_mode: WindowMode;   // default "calendar"; "rolling" = trailing 24h / 7d
+
+  // Grouping dimensions beyond group1 / group2, and per-value caps for any dimension
+  dimensions: GroupDimension[]; // default []
+  cap_overrides: CapOverride[]; // default []
+  cap_measures: Record<string, ExposureMeasure>; // default {}; "daily", "weekly" or a dimension key -> measure ("staked" when absent)
+
+  custom_rules: CustomRule[];   // default []; evaluated after the built-ins of the same severity
+
+  escalation: EscalationPolicy; // default V1_POLICY; maps reasons and behavior to the verdict
+};
+
+/** One selection of a multi-leg position. */
+export type Leg = {
+  odds: number;             // American equivalent
+  price?: number;           // normalized decimal price
+  odds_format?: OddsFormat;
+  odds_input?: string;
+  group1_id: string;
+  group2_id: string;
+  groups?: Record<string, string>;
+};
+
+/** ---------- Custom rules (declarative, stored as JSON) ---------- */
+export type RuleField =
+  | "stake" | "odds" | "price" | "legs" | "group1_id" | "group2_id" | "outcome" | "verdict"
+  | `groups.${string}`;
+export type RuleOp = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in";
+
+/** `field op value`, e.g. { field: "odds", op: ">", value: 200 }. */
+export type RulePredicate = { field: RuleField; op: RuleOp; value: number | string | (number | string)[] };
+
+export type RuleMeasure = {
+  agg: "count" | "sum_stake" | "stake"; // ledger count / staked in the window (plus the bet), or the bet's own stake
+  window?: DimensionWindow;             // count / sum_stake only; default "day"
+  where?: RulePredicate[];              // which ledger entries (and the bet) count
+  match?: RuleField[];                  // entries must share these fields' values with the bet
+};
+
+export type RuleSeverity = "violation" | "gate" | "flag";
+
+export type CustomRule = {
+  code: string;                 // reason code reported when the rule fires
+  severity: RuleSeverity;
+  when?: RulePredicate[];       // the rule only applies to bets matching all of these
+  measure: RuleMeasure;
+  threshold: number;            // fires when the measure exceeds it (strict >)
+  unit?: "abs" | "pct_bankroll"; // default "abs"
+  description?: string;
+};
+
+/** ---------- Escalation policy (reasons and behavior -> verdict) ---------- */
+/** Every field given must hold; an empty condition always holds. */
+export type PolicyCondition = {
+  reasons?: string[];                 // any of these codes present
+  min_violations?: number;
+  min_gates?: number;
+  min_flags?: number;
+  spike?: boolean;                    // stake velocity / frequency spike or a tilt flag (true) / none (false)
+  min_consecutive_overrides?: number;
+  min_cooldown_violations?: number;
+};
+
+/** Base tier: reached when any of its minimums is met; the highest tier reached wins. */
+export type PolicyTier = { verdict: Verdict; min_violations?: number; min_gates?: number; min_flags?: number };
+
+/** Amplification applied in order after the base tier. */
+export type EscalationStep = {
+  id: string;
+  label: string;
+  when: PolicyCondition;
+  action: "set" | "escalate" | "at_least"; // set / escalate one tier / raise to at least `verdict`
+  verdict?: Verdict;                       // set and at_least
+};
+
+export type EscalationPolicy = {
+  severities: Record<string, RuleSeverity>; // per-reason overrides of the built-in / custom severity
+  base: PolicyTier[];
+  escalations: EscalationStep[];
+};
+
+export type ProposedBet = {
+  stake: number;
+  odds: number;      // American odds integer: -110, +150, +300
+  price?: number;    // normalized decimal price; authoritative over `odds` when set
+  group1_id: string; // event/asset/policy/property/deal
+  group2_id: string; // team/sector/risk class/market/industry
+  groups?: Record<string, string>; // values for user-defined dimensions, by key
+  legs?: Leg[];      // parlay / combo: price is the product of leg prices, groups are every leg's
+};
+
+export type Exposures = {
+  daily_staked: number;
+  weekly_staked: number;          // current week window (rules time model)
+  same_group1_staked: number;     // group1 concentration
+  same_group2_7d_staked: number;  // rolling 7d
+  bets_today: number;
+  by_dimension?: Record<string, Record<string, number>>; // dimension key -> value -> staked in its window
+  custom?: Record<string, number>; // custom rule code -> ledger aggregate (excluding the proposed bet)
+  daily_loss?: number;            // net realized loss settled in the day window (0 when up)
+  weekly_loss?: number;           // same, week window
+  drawdown?: number;              // realized P&L below its running peak
+  // Open measure: stake still at risk in positions opened in each window
+  open_daily?: number;
+  open_weekly?: number;
+  open_by_dimension?: Record<string, Record<string, number>>;
+  open_total?: number;            // every open position, whatever its age
+};
+
+export type BehavioralState = {
+  stake_velocity_spike: boolean;
+  frequency_spike: boolean;
+  consecutive_overrides: number;
+  cooldown_violations: number;
+  cooldown_active: boolean;
+  // Outcome-aware (settled history); absent = not derived
+  loss_chasing?: boolean;   // stake up by loss_chase_multiple right after a loss
+  revenge_betting?: boolean; // back on a group2 that just lost
+  loss_streak?: number;     // losing settlements in a row, newest first (push / void skipped)
+};
+
+export type Verdict = "ALLOW" | "WARN" | "HARD_WARN" | "RED_ALERT";
+export type DecisionResult = {
+  verdict: Verdict;
+  reasons: string[];
+  friction_required: boolean;
+  cooldown_triggered: boolean;
+  trace?: DecisionTrace; // always set by evaluate_v1
+};
+
+/** One rule as evaluated. Measured rules carry their numbers; behavior flags only pass / fail. */
+export type RuleCheck = {
+  code: string;                       // reason code reported when it fails
+  label: string;
+  unit: "money" | "count" | "price" | "flag";
+  cap?: number;
+  cap_pct?: number;                   // cap as % of bankroll, for caps defined that way
+  current?: number;                   // before the bet; absent for per-bet measures (stake, legs, price)
+  projected?: number;                 // with the bet
+  headroom?: number;                  // cap - projected; negative = over
+  note?: string;                      // e.g. which per-value override set the cap
+  passed: boolean;
+  contributes: RuleSeverity | null;   // bucket the failure counts in for the base tier; null if passed or under a hard stop
+};
+
+/** An escalation whose condition held, with the verdict before and after it. */
+export type AppliedStep = { id: string; label: string; from: Verdict; to: Verdict };
+
+export type DecisionTrace = {
+  checks: RuleCheck[];        // evaluation order
+  base: Verdict;              // from the policy's base tiers
+  amplifications: AppliedStep[];
+  decided_by: string;         // "base", an escalation id, "cooldown_active", "max_drawdown" or "umbrella_cap"
+  decided_by_label: string;
+};
+
+/** Recorded when a non-ALLOW verdict is committed through its friction step. */
+export type OverrideRecord = {
+  tier: Verdict;          // verdict that was overridden
+  justification: string;  // empty for a WARN acknowledgment
+};
+
+export type Outcome = "won" | "lost" | "push" | "void" | "cashed_out";
+
+export type Settlement = {
+  outcome: Outcome;
+  settled_at: number;
+  amount?: number;  // total returned; required for cashed_out
+};
+
+/** Part of a position closed before it settles. */
+export type PartialClose = {
+  closed_at: number;
+  stake: number;   // portion of the stake closed
+  amount: number;  // returned for that portion
+};
+
+export type LedgerEntry = {
+  id: string;
+  ts: number;
+  stake: number;
+  odds: number;              // American equivalent (rounded when entered in another format)
+  price?: number;            // normalized decimal price
+  odds_format?: OddsFormat;  // format the odds were entered in
+  odds_input?: string;       // odds exactly as entered
+  group1_id: string;
+  group2_id: string;
+  groups?: Record<string, string>;
+  verdict: Verdict;
+  reasons: string[];
+  override?: OverrideRecord;
+  legs?: Leg[];             // multi-leg position
+  closes?: PartialClose[];  // partial closes, oldest first
+  settlement?: Settlement;  // absent while open; settles whatever stake is still open
+  rules_version?: number;   // rules snapshot the entry was evaluated under
+};
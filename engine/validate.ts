@@ -0,0 +1,69 @@
+import { SCHEMAS } from "./schema";
+import type { JsonSchema } from "./schema";
+
+export type ValidationIssue = { path: string; message: string };
+
+function resolve(schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.split("/").pop() as string;
+  const target = SCHEMAS[name];
+  if (!target) throw new Error(`Unknown schema ref: ${schema.$ref}`);
+  return target;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/** Validate `value` against a schema from SCHEMAS; returns every issue found (empty = valid). */
+export function validate(schema: JsonSchema | string, value: unknown, path = ""): ValidationIssue[] {
+  const s = resolve(typeof schema === "string" ? { $ref: `#/components/schemas/${schema}` } : schema);
+  const issues: ValidationIssue[] = [];
+  const actual = typeOf(value);
+
+  if (s.type === "integer" || s.type === "number") {
+    if (actual !== "number" || !Number.isFinite(value as number)) {
+      return [{ path, message: `expected ${s.type}, got ${actual}` }];
+    }
+    if (s.type === "integer" && !Number.isInteger(value)) issues.push({ path, message: "expected integer" });
+    if (s.minimum !== undefined && (value as number) < s.minimum) issues.push({ path, message: `must be >= ${s.minimum}` });
+    if (s.maximum !== undefined && (value as number) > s.maximum) issues.push({ path, message: `must be <= ${s.maximum}` });
+  } else if (s.type && s.type !== actual) {
+    return [{ path, message: `expected ${s.type}, got ${actual}` }];
+  }
+
+  if (s.enum && !s.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of ${s.enum.join(", ")}` });
+  }
+  if (s.minLength !== undefined && typeof value === "string" && value.length < s.minLength) {
+    issues.push({ path, message: `must be at least ${s.minLength} characters` });
+  }
+
+  if (s.type === "array" && s.items) {
+    (value as unknown[]).forEach((item, i) => issues.push(...validate(s.items as JsonSchema, item, join(path, i))));
+  }
+
+  if (s.type === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of s.required ?? []) {
+      if (obj[key] === undefined) issues.push({ path: join(path, key), message: "is required" });
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const prop = s.properties?.[key];
+      if (prop) {
+        if (v !== undefined) issues.push(...validate(prop, v, join(path, key)));
+      } else if (s.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: "is not a recognised field" });
+      }
+    }
+  }
+
+  return issues;
+}
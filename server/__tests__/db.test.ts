@@ -0,0 +1,95 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_PROFILES, DEFAULT_RULES, NO_COOLDOWN } from "../../engine";
+import type { LedgerEntry } from "../../engine";
+import { entry } from "../../engine/__tests__/fixtures";
+import { migrate, readKey, readProfiles, writeKey, writeProfiles } from "../db";
+import { appendLedger, listLedger, updateLedger } from "../ledgerStore";
+
+const g = globalThis as typeof globalThis & { __rr_db?: unknown };
+
+let dir: string;
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "rr-db-"));
+  process.env.RR_DB_FILE = path.join(dir, "nested", "db.json");
+});
+afterEach(() => {
+  delete process.env.RR_DB_FILE;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("file database", () => {
+  it("returns defaults until a key is saved, then persists across reloads", () => {
+    expect(readKey("rules")).toEqual(DEFAULT_RULES);
+    expect(readKey("cooldown")).toEqual(NO_COOLDOWN);
+
+    writeKey("rules", { ...DEFAULT_RULES, unit_pct: 3 });
+    appendLedger(entry("a", 1));
+    appendLedger(entry("b", 2));
+    updateLedger("a", (e) => ({ ...e, stake: 99 }));
+
+    g.__rr_db = undefined; // simulate a fresh process
+    expect(readKey("rules").unit_pct).toBe(3);
+    expect(readKey("rules_history").versions.map((v) => [v.version, v.rules.unit_pct])).toEqual([[1, 3]]);
+    expect(listLedger().map((e) => [e.id, e.stake])).toEqual([["b", 10], ["a", 99]]);
+  });
+
+  it("migrates browser state: ledger merges by id, other keys only when never saved", () => {
+    writeKey("ledger", [entry("a", 1, 5)]);
+    writeKey("capital", { starting_capital: 500, carried_pnl: 0 });
+
+    const result = migrate({
+      ledger: [entry("b", 2), entry("a", 1, 50)],
+      rules: { unit_pct: 4 },
+      capital: { starting_capital: 2000, carried_pnl: 10 }
+    });
+
+    expect(result).toEqual({ ledger_added: 1, imported: ["rules"] });
+    expect(listLedger().map((e) => [e.id, e.stake])).toEqual([["b", 10], ["a", 5]]);
+    expect(readKey("rules")).toEqual({ ...DEFAULT_RULES, unit_pct: 4 });
+    expect(readKey("capital").starting_capital).toBe(500);
+
+    // Running it again changes nothing
+    expect(migrate({ ledger: [entry("b", 2)] })).toEqual({ ledger_added: 0, imported: [] });
+  });
+
+  it("keeps profiles independent and drops data of deleted profiles", () => {
+    writeProfiles({ ...DEFAULT_PROFILES, profiles: [...DEFAULT_PROFILES.profiles, { id: "fantasy", name: "Fantasy" }] });
+    appendLedger(entry("a", 1));
+    appendLedger(entry("f", 2), "fantasy");
+    writeKey("rules", { ...DEFAULT_RULES, unit_pct: 1 }, "fantasy");
+
+    expect(listLedger().map((e) => e.id)).toEqual(["a"]);
+    expect(listLedger("fantasy").map((e) => e.id)).toEqual(["f"]);
+    expect(readKey("rules")).toEqual(DEFAULT_RULES);
+
+    writeProfiles(DEFAULT_PROFILES);
+    expect(readProfiles()).toEqual(DEFAULT_PROFILES);
+    expect(listLedger("fantasy")).toEqual([]);
+    expect(listLedger().map((e) => e.id)).toEqual(["a"]);
+  });
+
+  it("writes the same document it would have serialized whole", () => {
+    writeProfiles({ ...DEFAULT_PROFILES, profiles: [...DEFAULT_PROFILES.profiles, { id: "fantasy", name: "Fantasy" }] });
+    appendLedger(entry("a", 1));
+    appendLedger(entry("b", 2), "fantasy");
+    updateLedger("a", (e) => ({ ...e, stake: 99 }));
+    writeKey("cooldown", NO_COOLDOWN, "fantasy");
+
+    const text = fs.readFileSync(process.env.RR_DB_FILE!, "utf8");
+    expect(text).toBe(JSON.stringify(JSON.parse(text)));
+    g.__rr_db = undefined;
+    expect(listLedger().map((e) => [e.id, e.stake])).toEqual([["a", 99]]);
+    expect(readKey("cooldown", "fantasy")).toEqual(NO_COOLDOWN);
+  });
+
+  it("upgrades a single-profile (v1) file into the default profile", () => {
+    fs.mkdirSync(path.dirname(process.env.RR_DB_FILE!), { recursive: true });
+    fs.writeFileSync(process.env.RR_DB_FILE!, JSON.stringify({ version: 1, ledger: [entry("old", 1)], rules: { ...DEFAULT_RULES, unit_pct: 7 } }));
+    g.__rr_db = undefined;
+    expect(listLedger().map((e) => e.id)).toEqual(["old"]);
+    expect(readKey("rules").unit_pct).toBe(7);
+  });
+});
@@ -0,0 +1,128 @@
+import fs from "node:fs";
+import path from "node:path";
+import { DEFAULT_CAPITAL, DEFAULT_PROFILES, DEFAULT_PROFILE_ID, DEFAULT_RULES, EMPTY_AUDIT, NO_COOLDOWN, applyMerge, initialHistory, planMerge } from "../engine";
+import type { LedgerEntry, ProfilesState, UserRules } from "../engine";
+import type { StoreKey, StoredState } from "../storage/types";
+
+/** ---------- File database (one JSON document, atomic writes) ---------- */
+// Unset keys mean "never saved", which the one-time migration relies on.
+type ProfileDoc = Partial<StoredState>;
+type DbDoc = { version: 2; profiles?: ProfilesState; data: Record<string, ProfileDoc> };
+
+const EMPTY: DbDoc = { version: 2, data: {} };
+
+/** RR_DB_FILE overrides the default `.data/risk-redux.json` under the working directory. */
+export function dbFile(): string {
+  return process.env.RR_DB_FILE ?? path.join(process.cwd(), ".data", "risk-redux.json");
+}
+
+// v1 files held a single profile's keys at the top level
+function upgrade(raw: unknown): DbDoc {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return EMPTY;
+  const doc = raw as Partial<DbDoc> & { version?: unknown };
+  if (doc.version === 2) return { ...EMPTY, ...doc, version: 2 };
+  const { version: _v, ...single } = doc;
+  return { ...EMPTY, data: { [DEFAULT_PROFILE_ID]: single as ProfileDoc } };
+}
+
+// Cached per file on globalThis so dev-mode module reloads don't re-read on every request.
+const g = globalThis as typeof globalThis & { __rr_db?: { file: string; doc: DbDoc } };
+
+function load(): DbDoc {
+  const file = dbFile();
+  if (g.__rr_db?.file === file) return g.__rr_db.doc;
+  let doc = EMPTY;
+  try {
+    doc = upgrade(JSON.parse(fs.readFileSync(file, "utf8")));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  g.__rr_db = { file, doc };
+  return doc;
+}
+
+// Stored values are replaced, never mutated, so their JSON is cached by identity: a write
+// stringifies only the values (and ledger entries) it changed and splices the rest.
+const encoded = new WeakMap<object, string>();
+
+function cached(value: object, encode: () => string): string {
+  let json = encoded.get(value);
+  if (json === undefined) encoded.set(value, (json = encode()));
+  return json;
+}
+
+function encodeValue(key: string, value: unknown): string {
+  if (typeof value !== "object" || value === null) return JSON.stringify(value);
+  if (key === "ledger") return cached(value, () => `[${(value as LedgerEntry[]).map((e) => cached(e, () => JSON.stringify(e))).join(",")}]`);
+  return cached(value, () => JSON.stringify(value));
+}
+
+/** Same text as JSON.stringify(doc). */
+function encode(doc: DbDoc): string {
+  const fields = (o: object, value: (k: string, v: unknown) => string) =>
+    `{${Object.entries(o).filter(([, v]) => v !== undefined).map(([k, v]) => `${JSON.stringify(k)}:${value(k, v)}`).join(",")}}`;
+  return fields(doc, (k, v) => (k === "data" ? fields(v as object, (_id, p) => fields(p as object, encodeValue)) : encodeValue(k, v)));
+}
+
+function write(doc: DbDoc) {
+  const file = dbFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, encode(doc));
+  fs.renameSync(tmp, file);
+  g.__rr_db = { file, doc };
+}
+
+export function readProfiles(): ProfilesState {
+  return load().profiles ?? DEFAULT_PROFILES;
+}
+
+export function hasProfile(id: string): boolean {
+  return readProfiles().profiles.some((p) => p.id === id);
+}
+
+/** Replace the profile list; data of profiles no longer listed is dropped. */
+export function writeProfiles(profiles: ProfilesState) {
+  const doc = load();
+  const ids = new Set(profiles.profiles.map((p) => p.id));
+  const data = Object.fromEntries(Object.entries(doc.data).filter(([id]) => ids.has(id)));
+  write({ ...doc, profiles, data });
+}
+
+/** Stored value, or the default when the key has never been saved for the profile. */
+export function readKey<K extends StoreKey>(key: K, profile = DEFAULT_PROFILE_ID): StoredState[K] {
+  const stored = load().data[profile] ?? {};
+  const rules = stored.rules ?? DEFAULT_RULES;
+  // No history yet: the pre-history rules become version 1
+  const defaults: StoredState = { ledger: [], rules, rules_history: initialHistory(rules), cooldown: NO_COOLDOWN, capital: DEFAULT_CAPITAL, audit: EMPTY_AUDIT };
+  return (stored[key] ?? defaults[key]) as StoredState[K];
+}
+
+export function writeKey<K extends StoreKey>(key: K, value: StoredState[K], profile = DEFAULT_PROFILE_ID) {
+  const doc = load();
+  write({ ...doc, data: { ...doc.data, [profile]: { ...doc.data[profile], [key]: value } } });
+}
+
+export type MigrationResult = { ledger_added: number; imported: StoreKey[] };
+
+/**
+ * Pull browser-local state into the default profile. Ledger entries merge by id (stored
+ * wins on conflict); rules, cooldown, capital and the audit trail are only taken when never stored.
+ */
+export function migrate(input: Partial<Omit<StoredState, "rules">> & { rules?: Partial<UserRules> }): MigrationResult {
+  const doc = load();
+  const current = doc.data[DEFAULT_PROFILE_ID] ?? {};
+  const ledger = current.ledger ?? [];
+  const plan = planMerge(ledger, input.ledger ?? []);
+  const next: ProfileDoc = { ...current, ledger: applyMerge(ledger, plan) };
+  const imported: StoreKey[] = [];
+
+  if (input.rules && !current.rules && !current.rules_history) { next.rules = { ...DEFAULT_RULES, ...input.rules }; imported.push("rules"); }
+  if (input.rules_history && !current.rules_history) { next.rules_history = input.rules_history; imported.push("rules_history"); }
+  if (input.cooldown && !current.cooldown) { next.cooldown = input.cooldown; imported.push("cooldown"); }
+  if (input.capital && !current.capital) { next.capital = input.capital; imported.push("capital"); }
+  if (input.audit && !current.audit) { next.audit = input.audit; imported.push("audit"); }
+
+  write({ ...doc, data: { ...doc.data, [DEFAULT_PROFILE_ID]: next } });
+  return { ledger_added: plan.added.length, imported };
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_PROFILE_ID, validate } from "../engine";
+import { hasProfile } from "./db";
+import type { ValidationIssue } from "../engine";
+
+/** ---------- Route handler helpers ---------- */
+export type ErrorCode = "INVALID_JSON" | "VALIDATION_FAILED" | "NOT_FOUND" | "COOLDOWN_ACTIVE";
+
+export function errorResponse(error: ErrorCode, issues: ValidationIssue[], status = 400) {
+  return NextResponse.json({ error, issues }, { status });
+}
+
+/**
+ * Parse the request body and check it against a named schema.
+ * Returns either the typed body or a ready-made 400 response.
+ */
+export async function readBody<T>(req: Request, schema: string): Promise<T | NextResponse> {
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch (err) {
+    return errorResponse("INVALID_JSON", [{ path: "", message: (err as Error).message }]);
+  }
+  const issues = validate(schema, raw);
+  if (issues.length > 0) return errorResponse("VALIDATION_FAILED", issues);
+  return raw as T;
+}
+
+/** `?profile=` query parameter (default profile when absent); 404 when it doesn't exist. */
+export function profileParam(req: Request): string | NextResponse {
+  const id = new URL(req.url).searchParams.get("profile") ?? DEFAULT_PROFILE_ID;
+  if (hasProfile(id)) return id;
+  return errorResponse("NOT_FOUND", [{ path: "profile", message: `no profile ${id}` }], 404);
+}
@@ -0,0 +1,38 @@
+import { DEFAULT_PROFILE_ID, cooldownOnRealized, effectiveVersion } from "../engine";
+import type { LedgerEntry } from "../engine";
+import { readKey, writeKey } from "./db";
+
+/** ---------- Server ledger (persisted in the file database, per profile) ---------- */
+
+/** Newest first, same order the client keeps. */
+export function listLedger(profile = DEFAULT_PROFILE_ID): LedgerEntry[] {
+  return [...readKey("ledger", profile)];
+}
+
+export function appendLedger(entry: LedgerEntry, profile = DEFAULT_PROFILE_ID): LedgerEntry {
+  writeKey("ledger", [entry, ...readKey("ledger", profile)], profile);
+  return entry;
+}
+
+/** Replace an entry; returns undefined when the id is unknown. */
+export function updateLedger(id: string, update: (e: LedgerEntry) => LedgerEntry, profile = DEFAULT_PROFILE_ID): LedgerEntry | undefined {
+  const entries = listLedger(profile);
+  const i = entries.findIndex((e) => e.id === id);
+  if (i < 0) return undefined;
+  entries[i] = update(entries[i]);
+  writeKey("ledger", entries, profile);
+  return entries[i];
+}
+
+/** Record a settlement or close; the one taking the drawdown to its limit starts a cooldown, as on the page. */
+export function realizeLedger(id: string, realize: (e: LedgerEntry, now: number) => LedgerEntry, profile = DEFAULT_PROFILE_ID): LedgerEntry | undefined {
+  const now = Date.now();
+  const prev = listLedger(profile);
+  const entry = updateLedger(id, (e) => realize(e, now), profile);
+  if (!entry) return undefined;
+  const rules = effectiveVersion(readKey("rules_history", profile), now).rules;
+  const stored = readKey("cooldown", profile);
+  const cooldown = cooldownOnRealized(stored, rules, prev, readKey("ledger", profile), readKey("capital", profile), now);
+  if (cooldown !== stored) writeKey("cooldown", cooldown, profile);
+  return entry;
+}
@@ -0,0 +1,145 @@
+import { SCHEMAS } from "../engine";
+
+const json = (name: string) => ({ "application/json": { schema: { $ref: `#/components/schemas/${name}` } } });
+const badRequest = { description: "Malformed JSON or schema violation", content: json("ErrorResponse") };
+const profileQuery = {
+  name: "profile",
+  in: "query",
+  required: false,
+  description: "Profile id; the default profile when omitted (404 when unknown)",
+  schema: { type: "string" }
+};
+
+/** ---------- OpenAPI 3.1 document (served at GET /api/openapi) ---------- */
+export function openApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "RISK-REDUX engine API",
+      version: "1.0.0",
+      description: "Deterministic framework enforcement. No outcome prediction."
+    },
+    paths: {
+      "/api/evaluate": {
+        parameters: [profileQuery],
+        post: {
+          summary: "Evaluate a proposed bet against the profile's rules in force and the server ledger",
+          requestBody: { required: true, content: json("EvaluateRequest") },
+          responses: {
+            "200": { description: "Decision plus the exposures it was computed from", content: json("EvaluateResponse") },
+            "400": badRequest
+          }
+        }
+      },
+      "/api/ledger": {
+        parameters: [profileQuery],
+        get: {
+          summary: "List ledger entries, newest first",
+          responses: {
+            "200": {
+              description: "Ledger entries",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    required: ["entries"],
+                    properties: { entries: { type: "array", items: { $ref: "#/components/schemas/LedgerEntry" } } }
+                  }
+                }
+              }
+            }
+          }
+        },
+        post: {
+          summary: "Commit a ledger entry; the server assigns its id and ts. Refused while the profile's cooldown is active (the attempt is recorded); a RED_ALERT commit starts a cooldown",
+          requestBody: { required: true, content: json("LedgerCommit") },
+          responses: {
+            "201": { description: "The stored entry", content: json("LedgerEntry") },
+            "400": badRequest,
+            "409": { description: "Cooldown active", content: json("ErrorResponse") }
+          }
+        }
+      },
+      "/api/ledger/settle": {
+        parameters: [profileQuery],
+        post: {
+          summary: "Record the outcome of a ledger entry (once; a settled entry is refused); reaching the max drawdown starts a cooldown",
+          requestBody: { required: true, content: json("SettleRequest") },
+          responses: {
+            "200": { description: "The settled entry", content: json("LedgerEntry") },
+            "400": badRequest,
+            "404": { description: "No entry with that id", content: json("ErrorResponse") }
+          }
+        }
+      },
+      "/api/ledger/close": {
+        parameters: [profileQuery],
+        post: {
+          summary: "Close part (or the rest) of an open position for an amount returned; reaching the max drawdown starts a cooldown",
+          requestBody: { required: true, content: json("CloseRequest") },
+          responses: {
+            "200": { description: "The updated entry", content: json("LedgerEntry") },
+            "400": badRequest,
+            "404": { description: "No entry with that id", content: json("ErrorResponse") }
+          }
+        }
+      },
+      "/api/store/{key}": {
+        parameters: [
+          { name: "key", in: "path", required: true, schema: { type: "string", enum: ["ledger", "rules", "rules_history", "cooldown", "capital", "audit"] } },
+          profileQuery
+        ],
+        get: {
+          summary: "Read a persisted value (Ledger, UserRules in force now, RulesHistory, CooldownState, CapitalState or LedgerAudit); defaults when never saved",
+          responses: {
+            "200": { description: "The stored value" },
+            "404": { description: "Unknown key", content: json("ErrorResponse") }
+          }
+        },
+        put: {
+          summary: "Replace a persisted value. PUT rules files a change (loosening waits out loosening_delay_hours); PUT rules_history and PUT audit may only append; PUT ledger may only correct or remove entries the stored audit trail records (settling and closing need no record); PUT cooldown cannot shorten or de-escalate an active cooldown or drop recorded attempts; PUT capital cannot change the carried P&L (a ledger write archiving realized entries carries it) nor, once a result is realized, the starting capital",
+          requestBody: { required: true, content: { "application/json": { schema: {} } } },
+          responses: {
+            "200": { description: "The stored value" },
+            "400": badRequest,
+            "404": { description: "Unknown key", content: json("ErrorResponse") }
+          }
+        },
+        patch: {
+          summary: "Save the ledger incrementally (key must be ledger): write the entries in `put` by id, drop the ids in `remove`. Same audit rule as PUT ledger",
+          requestBody: { required: true, content: json("LedgerPatch") },
+          responses: {
+            "200": { description: "Entries now stored", content: { "application/json": { schema: { type: "object", required: ["count"], properties: { count: { type: "integer", minimum: 0 } } } } } },
+            "400": badRequest,
+            "404": { description: "Unknown key, or a key other than ledger", content: json("ErrorResponse") }
+          }
+        }
+      },
+      "/api/profiles": {
+        get: {
+          summary: "List profiles, the active one and the umbrella weekly cap",
+          responses: { "200": { description: "Profiles", content: json("ProfilesState") } }
+        },
+        put: {
+          summary: "Replace the profile list; profiles left out are deleted with their data. Raising or switching off the umbrella cap is filed as umbrella_pending and takes effect after the active profile's loosening_delay_hours",
+          requestBody: { required: true, content: json("ProfilesState") },
+          responses: {
+            "200": { description: "The stored profiles", content: json("ProfilesState") },
+            "400": badRequest
+          }
+        }
+      },
+      "/api/store/migrate": {
+        post: {
+          summary: "Merge browser-local v1 state into the default profile (ledger by id; other keys only if never saved)",
+          requestBody: { required: true, content: json("StoreMigration") },
+          responses: {
+            "200": { description: "What was taken", content: json("StoreMigrationResult") },
+            "400": badRequest
+          }
+        }
+      }
+    },
+    components: { schemas: SCHEMAS }
+  };
+}
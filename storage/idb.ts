@@ -0,0 +1,75 @@
+import { diffLedger } from "../engine";
+import type { LedgerEntry } from "../engine";
+
+/** ---------- Browser ledger store (IndexedDB) ---------- */
+// One object store for every profile's entries, keyed [profile, id], indexed by ts (the
+// time-ordered load) and by group1_id / group2_id. Saves write only what changed.
+const DB_NAME = "risk-redux";
+const LEDGER = "ledger";
+
+type Row = LedgerEntry & { profile: string };
+
+let opening: Promise<IDBDatabase> | undefined;
+
+export function hasIndexedDb(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function db(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 3);
+    req.onupgradeneeded = (ev) => {
+      if (ev.oldVersion < 1) req.result.createObjectStore(LEDGER, { keyPath: ["profile", "id"] }).createIndex("ts", ["profile", "ts"]);
+      // v2 dropped the group indexes v1 had; v3 puts them back
+      const store = req.transaction!.objectStore(LEDGER);
+      for (const name of ["group1_id", "group2_id"]) if (!store.indexNames.contains(name)) store.createIndex(name, ["profile", name]);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return opening;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function strip({ profile: _p, ...e }: Row): LedgerEntry {
+  return e;
+}
+
+function byProfile(profile: string): IDBKeyRange {
+  return IDBKeyRange.bound([profile, -Infinity], [profile, Infinity]);
+}
+
+/** A profile's entries, newest first. */
+export async function idbLoadLedger(profile: string): Promise<LedgerEntry[]> {
+  const rows = await result((await db()).transaction(LEDGER).objectStore(LEDGER).index("ts").getAll(byProfile(profile)));
+  return (rows as Row[]).map(strip).reverse();
+}
+
+/** Write the entries that differ from `prev` (by identity) and delete the ones that are gone. */
+export async function idbSaveLedger(profile: string, prev: LedgerEntry[], next: LedgerEntry[]): Promise<void> {
+  const { put, remove } = diffLedger(prev, next);
+  const tx = (await db()).transaction(LEDGER, "readwrite");
+  const store = tx.objectStore(LEDGER);
+  for (const e of put) store.put({ ...e, profile });
+  for (const id of remove) store.delete([profile, id]);
+  await done(tx);
+}
+
+export async function idbDeleteProfile(profile: string): Promise<void> {
+  const tx = (await db()).transaction(LEDGER, "readwrite");
+  tx.objectStore(LEDGER).delete(IDBKeyRange.bound([profile], [profile, []]));
+  await done(tx);
+}
@@ -0,0 +1,35 @@
+import { localBackend, readLocal, readLocalLedger } from "./local";
+import { migrateToServer, serverBackend } from "./server";
+import { STORE_KEYS } from "./types";
+import type { StorageBackend, StoreKey } from "./types";
+
+export { localBackend, LOCAL_KEYS } from "./local";
+export { serverBackend } from "./server";
+export { STORE_KEYS } from "./types";
+export type { RiskStore, StorageBackend, StoreKey, StoredState } from "./types";
+
+/** ---------- Store selection + one-time localStorage migration ---------- */
+const MIGRATED_KEY = "rr_v1_migrated";
+
+/**
+ * Pull the v1 localStorage keys into the server store once per browser.
+ * The old keys are left in place as a backup (a ledger already moved to IndexedDB is read
+ * from there); the marker stops a second run.
+ */
+async function migrateLocalStorage() {
+  if (localStorage.getItem(MIGRATED_KEY)) return;
+  const payload: Partial<Record<StoreKey, unknown>> = {};
+  for (const key of STORE_KEYS) {
+    const value = key === "ledger" ? await readLocalLedger() : readLocal(key);
+    if (value !== undefined) payload[key] = value;
+  }
+  if (Object.keys(payload).length > 0) await migrateToServer(payload);
+  localStorage.setItem(MIGRATED_KEY, String(Date.now()));
+}
+
+/** NEXT_PUBLIC_RR_STORAGE=local keeps everything in the browser; the default is the server store. */
+export async function openStorage(): Promise<StorageBackend> {
+  if (process.env.NEXT_PUBLIC_RR_STORAGE === "local") return localBackend;
+  await migrateLocalStorage();
+  return serverBackend();
+}
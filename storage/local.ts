@@ -0,0 +1,115 @@
+import { DEFAULT_CAPITAL, DEFAULT_PROFILES, DEFAULT_PROFILE_ID, DEFAULT_RULES, EMPTY_AUDIT, NO_COOLDOWN, initialHistory } from "../engine";
+import type { LedgerEntry, RulesHistory } from "../engine";
+import { hasIndexedDb, idbDeleteProfile, idbLoadLedger, idbSaveLedger } from "./idb";
+import { STORE_KEYS } from "./types";
+import type { RiskStore, StorageBackend, StoreKey } from "./types";
+
+/** ---------- Browser adapter (localStorage; the ledger in IndexedDB) ---------- */
+// The default profile keeps the original v1 keys; other profiles suffix them with `:<id>`.
+export const LOCAL_KEYS: Record<StoreKey, string> = {
+  ledger: "rr_v1_ledger",
+  rules: "rr_v1_rules",
+  rules_history: "rr_v1_rules_history",
+  cooldown: "rr_v1_cooldown",
+  capital: "rr_v1_capital",
+  audit: "rr_v1_ledger_audit"
+};
+const PROFILES_KEY = "rr_v1_profiles";
+
+function localKey(key: StoreKey, profile: string): string {
+  return profile === DEFAULT_PROFILE_ID ? LOCAL_KEYS[key] : `${LOCAL_KEYS[key]}:${profile}`;
+}
+
+function read(storageKey: string): unknown {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function write(storageKey: string, value: unknown) {
+  localStorage.setItem(storageKey, JSON.stringify(value));
+}
+
+function loadObject<T extends object>(storageKey: string, fallback: T): T {
+  const parsed = read(storageKey);
+  return parsed && typeof parsed === "object" ? { ...fallback, ...parsed } : fallback;
+}
+
+/** Parsed value under a default-profile v1 key, or undefined when absent / unreadable. */
+export function readLocal(key: StoreKey): unknown {
+  return read(LOCAL_KEYS[key]);
+}
+
+/**
+ * The default profile's browser ledger (IndexedDB, else the v1 key), or undefined when empty.
+ * Only reads: unlike loading the profile, it leaves a v1 ledger under its key.
+ */
+export async function readLocalLedger(): Promise<LedgerEntry[] | undefined> {
+  const entries = hasIndexedDb() ? await idbLoadLedger(DEFAULT_PROFILE_ID) : [];
+  if (entries.length > 0) return entries;
+  const legacy = readLocal("ledger");
+  return Array.isArray(legacy) && legacy.length > 0 ? (legacy as LedgerEntry[]) : undefined;
+}
+
+// What IndexedDB holds per profile, as last read or written; saves diff against it
+const idbLedgers = new Map<string, LedgerEntry[]>();
+
+function localProfile(id: string): RiskStore {
+  const k = (key: StoreKey) => localKey(key, id);
+  const legacyLedger = () => {
+    const parsed = read(k("ledger"));
+    return Array.isArray(parsed) ? (parsed as LedgerEntry[]) : [];
+  };
+  return {
+    // The ledger lives in IndexedDB where available; a localStorage ledger moves over on first load
+    async loadLedger() {
+      if (!hasIndexedDb()) return legacyLedger();
+      let entries = await idbLoadLedger(id);
+      const legacy = legacyLedger();
+      if (entries.length === 0 && legacy.length > 0) {
+        await idbSaveLedger(id, [], legacy);
+        localStorage.removeItem(k("ledger"));
+        entries = legacy;
+      }
+      idbLedgers.set(id, entries);
+      return entries;
+    },
+    async saveLedger(entries) {
+      if (!hasIndexedDb()) return write(k("ledger"), entries);
+      const prev = idbLedgers.get(id) ?? (await idbLoadLedger(id));
+      idbLedgers.set(id, entries);
+      await idbSaveLedger(id, prev, entries);
+    },
+    async loadRulesHistory() {
+      const parsed = read(k("rules_history")) as RulesHistory | undefined;
+      if (!Array.isArray(parsed?.versions) || parsed.versions.length === 0) return initialHistory(loadObject(k("rules"), DEFAULT_RULES));
+      return { versions: parsed.versions.map((v) => ({ ...v, rules: { ...DEFAULT_RULES, ...v.rules } })) };
+    },
+    async saveRulesHistory(history) { write(k("rules_history"), history); },
+    async loadCooldown() { return loadObject(k("cooldown"), NO_COOLDOWN); },
+    async saveCooldown(state) { write(k("cooldown"), state); },
+    async loadCapital() { return loadObject(k("capital"), DEFAULT_CAPITAL); },
+    async saveCapital(capital) { write(k("capital"), capital); },
+    async loadAudit() { return loadObject(k("audit"), EMPTY_AUDIT); },
+    async saveAudit(audit) { write(k("audit"), audit); }
+  };
+}
+
+export const localBackend: StorageBackend = {
+  kind: "local",
+  async loadProfiles() { return loadObject(PROFILES_KEY, DEFAULT_PROFILES); },
+  async saveProfiles(state) {
+    const keep = new Set(state.profiles.map((p) => p.id));
+    for (const p of (await localBackend.loadProfiles()).profiles) {
+      if (keep.has(p.id)) continue;
+      STORE_KEYS.forEach((key) => localStorage.removeItem(localKey(key, p.id)));
+      if (hasIndexedDb()) await idbDeleteProfile(p.id);
+      idbLedgers.delete(p.id);
+    }
+    write(PROFILES_KEY, state);
+  },
+  profile: localProfile
+};
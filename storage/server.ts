@@ -0,0 +1,69 @@
+import { DEFAULT_CAPITAL, DEFAULT_RULES, EMPTY_AUDIT, NO_COOLDOWN, diffLedger } from "../engine";
+import type { LedgerEntry, ProfilesState } from "../engine";
+import type { RiskStore, StorageBackend, StoreKey, StoredState } from "./types";
+
+/** ---------- Server adapter (route handlers under /api/store and /api/profiles) ---------- */
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { "content-type": "application/json" }, cache: "no-store" });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const detail = body?.issues?.map((x: { path: string; message: string }) => `${x.path} ${x.message}`.trim()).join("; ");
+    throw new Error(`${init?.method ?? "GET"} ${url} failed (${res.status}${detail ? `: ${detail}` : ""})`);
+  }
+  return res.json();
+}
+
+// The ledger per profile as last loaded or saved; saves send only the difference
+const serverLedgers = new Map<string, LedgerEntry[]>();
+
+function serverProfile(id: string, base: string): RiskStore {
+  const url = (key: StoreKey) => `${base}/store/${key}?profile=${encodeURIComponent(id)}`;
+  const load = <K extends StoreKey>(key: K) => request<StoredState[K]>(url(key));
+  const save = async <K extends StoreKey>(key: K, value: StoredState[K]) => {
+    await request(url(key), { method: "PUT", body: JSON.stringify(value) });
+  };
+  return {
+    loadLedger: async () => {
+      const entries = await load("ledger");
+      serverLedgers.set(id, entries);
+      return entries;
+    },
+    saveLedger: async (entries) => {
+      const patch = diffLedger(serverLedgers.get(id) ?? (await load("ledger")), entries);
+      if (patch.put.length > 0 || patch.remove.length > 0) {
+        await request(url("ledger"), { method: "PATCH", body: JSON.stringify(patch) });
+      }
+      serverLedgers.set(id, entries);
+    },
+    // Values saved before newer fields existed pick up their defaults
+    loadRulesHistory: async () => {
+      const h = await load("rules_history");
+      return { versions: h.versions.map((v) => ({ ...v, rules: { ...DEFAULT_RULES, ...v.rules } })) };
+    },
+    saveRulesHistory: (history) => save("rules_history", history),
+    loadCooldown: async () => ({ ...NO_COOLDOWN, ...(await load("cooldown")) }),
+    saveCooldown: (state) => save("cooldown", state),
+    loadCapital: async () => ({ ...DEFAULT_CAPITAL, ...(await load("capital")) }),
+    saveCapital: (capital) => save("capital", capital),
+    loadAudit: async () => ({ ...EMPTY_AUDIT, ...(await load("audit")) }),
+    saveAudit: (audit) => save("audit", audit)
+  };
+}
+
+export function serverBackend(base = "/api"): StorageBackend {
+  return {
+    kind: "server",
+    loadProfiles: () => request<ProfilesState>(`${base}/profiles`),
+    saveProfiles: async (state) => {
+      await request(`${base}/profiles`, { method: "PUT", body: JSON.stringify(state) });
+      const keep = new Set(state.profiles.map((p) => p.id));
+      for (const id of serverLedgers.keys()) if (!keep.has(id)) serverLedgers.delete(id);
+    },
+    profile: (id) => serverProfile(id, base)
+  };
+}
+
+/** POST whatever the browser still holds; the server merges it into the default profile once. */
+export function migrateToServer(payload: Partial<Record<StoreKey, unknown>>, base = "/api") {
+  return request<{ ledger_added: number; imported: StoreKey[] }>(`${base}/store/migrate`, { method: "POST", body: JSON.stringify(payload) });
+}
@@ -0,0 +1,38 @@
+import type { CapitalState, CooldownState, LedgerAudit, LedgerEntry, ProfilesState, RulesHistory, UserRules } from "../engine";
+
+/** ---------- Persistence contract shared by the browser and server adapters ---------- */
+export type StoredState = {
+  ledger: LedgerEntry[];
+  rules: UserRules;            // pre-history snapshot; seeds rules_history
+  rules_history: RulesHistory;
+  cooldown: CooldownState;
+  capital: CapitalState;
+  audit: LedgerAudit;          // tombstones and archived entries; append-only
+};
+
+export type StoreKey = keyof StoredState;
+export const STORE_KEYS: readonly StoreKey[] = ["ledger", "rules", "rules_history", "cooldown", "capital", "audit"];
+
+/** One profile's state. */
+export interface RiskStore {
+  loadLedger(): Promise<LedgerEntry[]>;
+  saveLedger(entries: LedgerEntry[]): Promise<void>;
+  /** Seeded from the stored pre-history rules when no history exists yet. */
+  loadRulesHistory(): Promise<RulesHistory>;
+  saveRulesHistory(history: RulesHistory): Promise<void>;
+  loadCooldown(): Promise<CooldownState>;
+  saveCooldown(state: CooldownState): Promise<void>;
+  loadCapital(): Promise<CapitalState>;
+  saveCapital(capital: CapitalState): Promise<void>;
+  loadAudit(): Promise<LedgerAudit>;
+  saveAudit(audit: LedgerAudit): Promise<void>;
+}
+
+/** A storage backend: the profile list plus a RiskStore per profile. */
+export interface StorageBackend {
+  readonly kind: "local" | "server";
+  loadProfiles(): Promise<ProfilesState>;
+  /** Profiles left out of `state` are deleted along with their data. */
+  saveProfiles(state: ProfilesState): Promise<void>;
+  profile(id: string): RiskStore;
+}